@@ -0,0 +1,226 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MessageBatcher, getDedupeKey } from "./batch";
+import PostMessageSocket from "./postMessageSocket";
+import { SocketTerminatedError, TimeoutError } from "./errors";
+import { proxy } from "./proxy";
+import { createInMemoryTransportPair } from "./transport";
+import type { Message, Remote } from "./types/index";
+
+function createMessage(id: string): Message {
+  return { id, name: "getCellValue", payload: id, waitForResponse: true };
+}
+
+describe("getDedupeKey", () => {
+  it("should build equal keys for equal JSON payloads", () => {
+    expect(getDedupeKey("getCellValue", { row: 1, column: 2 })).toBe(
+      getDedupeKey("getCellValue", { row: 1, column: 2 }),
+    );
+    expect(getDedupeKey("getCellValue", { row: 1 })).not.toBe(
+      getDedupeKey("getRowHeight", { row: 1 }),
+    );
+    expect(getDedupeKey("getSelection", undefined)).toBe("getSelection:");
+  });
+
+  it("should not build keys for payloads JSON does not represent", () => {
+    expect(getDedupeKey("upload", new ArrayBuffer(8))).toBeNull();
+    expect(getDedupeKey("render", { at: new Date() })).toBeNull();
+    expect(getDedupeKey("render", { onDone: () => {} })).toBeNull();
+    expect(getDedupeKey("render", { value: undefined })).toBeNull();
+    expect(getDedupeKey("render", [Number.NaN])).toBeNull();
+  });
+});
+
+describe("MessageBatcher", () => {
+  it("should send the messages added within a microtask together", async () => {
+    const send = vi.fn();
+    const batcher = new MessageBatcher(send);
+    batcher.add({ message: createMessage("1"), transfer: [] });
+    batcher.add({ message: createMessage("2"), transfer: [] });
+    expect(send).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it("should send the messages added within a frame together", () => {
+    vi.useFakeTimers();
+    try {
+      const send = vi.fn();
+      const batcher = new MessageBatcher(send, "frame");
+      batcher.add({ message: createMessage("1"), transfer: [] });
+      batcher.add({ message: createMessage("2"), transfer: [] });
+      vi.advanceTimersByTime(20);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0]).toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should drop the collected messages when cleared", async () => {
+    const send = vi.fn();
+    const batcher = new MessageBatcher(send);
+    batcher.add({ message: createMessage("1"), transfer: [] });
+    batcher.clear();
+
+    await Promise.resolve();
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe("PostMessageSocket batching", () => {
+  const sockets: PostMessageSocket[] = [];
+
+  function createPair() {
+    const [first, second] = createInMemoryTransportPair();
+    const hostSend = vi.spyOn(first, "send");
+    const pluginSend = vi.spyOn(second, "send");
+    const host = new PostMessageSocket(first, undefined, { batch: true });
+    const plugin = new PostMessageSocket(second, undefined, { batch: true });
+    sockets.push(host, plugin);
+    return { host, plugin, hostSend, pluginSend };
+  }
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  it("should send the requests of a tick in one message and answer each", async () => {
+    const { host, plugin, hostSend, pluginSend } = createPair();
+    plugin.createMessageChannel("getCellValue", (cell: number) => cell * 2);
+    const channel = host.createMessageChannel<number, number>("getCellValue");
+
+    const values = await Promise.all(
+      [1, 2, 3].map((cell) => channel!.sendAndWait(cell)),
+    );
+
+    expect(values).toEqual([2, 4, 6]);
+    expect(hostSend).toHaveBeenCalledTimes(1);
+    expect(hostSend.mock.calls[0][0]).toMatchObject({ kind: "batch" });
+    expect(pluginSend).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share the answer of identical requests still waiting for it", async () => {
+    const { host, plugin } = createPair();
+    host.setBatching({ dedupe: ["getCellValue"] });
+    const getCellValue = vi.fn(({ row }: { row: number }) => row);
+    plugin.createMessageChannel("getCellValue", getCellValue);
+    const channel = host.createMessageChannel("getCellValue");
+
+    const values = await Promise.all([
+      channel!.sendAndWait({ row: 1 }),
+      channel!.sendAndWait({ row: 1 }),
+      channel!.sendAndWait({ row: 2 }),
+    ]);
+
+    expect(values).toEqual([1, 1, 2]);
+    expect(getCellValue).toHaveBeenCalledTimes(2);
+
+    // Answered requests are not shared anymore
+    await channel!.sendAndWait({ row: 1 });
+    expect(getCellValue).toHaveBeenCalledTimes(3);
+  });
+
+  it("should apply the timeout of every caller sharing an answer", async () => {
+    const { host, plugin } = createPair();
+    host.setBatching({ dedupe: ["getCellValue"] });
+    plugin.createMessageChannel("getCellValue", () => new Promise(() => {}));
+    const channel = host.createMessageChannel("getCellValue");
+
+    const first = channel!
+      .sendAndWait({ row: 1 }, { timeout: 0 })
+      .catch((error) => error);
+    const second = await channel!
+      .sendAndWait({ row: 1 }, { timeout: 20 })
+      .catch((error) => error);
+
+    expect(second).toBeInstanceOf(TimeoutError);
+    expect(second.timeout).toBe(20);
+
+    // The first caller still waits for the shared answer
+    host.terminate();
+    expect(await first).toBeInstanceOf(SocketTerminatedError);
+  });
+
+  it("should send every identical request of channels not listed in dedupe", async () => {
+    const { host, plugin } = createPair();
+    host.setBatching({ dedupe: ["getCellValue"] });
+    const save = vi.fn(() => "saved");
+    plugin.createMessageChannel("save", save);
+    const channel = host.createMessageChannel("save");
+
+    await Promise.all([
+      channel!.sendAndWait({ note: 1 }),
+      channel!.sendAndWait({ note: 1 }),
+    ]);
+    expect(save).toHaveBeenCalledTimes(2);
+
+    const counter = {
+      count: 0,
+      increment() {
+        return ++this.count;
+      },
+    };
+    plugin.createMessageChannel("getCounter", () => proxy(counter));
+    const counterChannel = host.createMessageChannel("getCounter");
+    const remote = (await counterChannel!.sendAndWait(undefined)) as Remote<
+      typeof counter
+    >;
+
+    await Promise.all([
+      remote.increment(),
+      remote.increment(),
+      remote.increment(),
+    ]);
+    expect(counter.count).toBe(3);
+  });
+
+  it("should send the messages one by one if the batch cannot be sent", async () => {
+    const [first, second] = createInMemoryTransportPair();
+    const send = first.send.bind(first);
+    vi.spyOn(first, "send").mockImplementation((message, transfer) => {
+      const { kind, payload } = message as Message;
+      if (kind === "batch" || payload === "uncloneable") {
+        throw new Error("DataCloneError");
+      }
+      send(message, transfer);
+    });
+    const errorCallback = vi.fn();
+    const host = new PostMessageSocket(first, errorCallback, { batch: true });
+    const plugin = new PostMessageSocket(second);
+    sockets.push(host, plugin);
+    plugin.createMessageChannel("getCellValue", (cell: unknown) => cell);
+    const channel = host.createMessageChannel("getCellValue");
+
+    const [valid, invalid] = await Promise.allSettled([
+      channel!.sendAndWait("valid"),
+      channel!.sendAndWait("uncloneable"),
+    ]);
+
+    expect(valid).toEqual({ status: "fulfilled", value: "valid" });
+    expect(invalid).toMatchObject({
+      status: "rejected",
+      reason: { message: "DataCloneError" },
+    });
+    expect(errorCallback).toHaveBeenCalledWith(
+      'Error sending "getCellValue": DataCloneError',
+    );
+  });
+
+  it("should send the collected messages when batching is turned off", () => {
+    const { host, plugin, hostSend } = createPair();
+    plugin.createMessageChannel("notify", () => {});
+    const channel = host.createMessageChannel("notify");
+
+    channel!.send("first");
+    channel!.send("second");
+    expect(hostSend).not.toHaveBeenCalled();
+
+    host.setBatching(false);
+    expect(hostSend).toHaveBeenCalledTimes(1);
+    channel!.send("third");
+    expect(hostSend).toHaveBeenCalledTimes(2);
+    expect(hostSend.mock.calls[1][0]).toMatchObject({ payload: "third" });
+  });
+});
@@ -0,0 +1,120 @@
+import { isPlainObject } from "./plainObject";
+import type { BatchOptions, Message } from "./types/index";
+
+/**
+ * @module Batching of the messages a socket sends in quick succession
+ *
+ * While batching is on, the socket collects the messages it sends and packs them into
+ * one envelope of kind "batch" at the end of the microtask or with the next frame.
+ * The receiving socket unpacks the envelope and handles its messages one by one, in
+ * order, so answers find their requests by id as if the messages came separately.
+ */
+
+/**
+ * A message waiting in a batch, ready for the transport
+ */
+export interface BatchEntry {
+  message: Message;
+  transfer: Transferable[];
+}
+
+/**
+ * Whether a message is an envelope of messages sent together
+ */
+export function isBatchMessage(
+  message: Message,
+): message is Message & { payload: unknown[] } {
+  return message.kind === "batch" && Array.isArray(message.payload);
+}
+
+function isJsonSafe(value: unknown): boolean {
+  if (value === null || typeof value === "string") return true;
+  if (typeof value === "boolean") return true;
+  if (typeof value === "number") return Number.isFinite(value);
+  if (Array.isArray(value)) return value.every(isJsonSafe);
+  if (isPlainObject(value)) return Object.values(value).every(isJsonSafe);
+  return false;
+}
+
+/**
+ * Key telling identical requests apart, or null if the payload may hold values
+ * JSON does not represent faithfully (class instances, functions, transferred or
+ * proxied values, ...), whose requests are never deduplicated.
+ *
+ * @example
+ * ```typescript
+ * getDedupeKey("getCellValue", { row: 1, column: 2 }); // 'getCellValue:{"row":1,"column":2}'
+ * getDedupeKey("upload", new Blob([])); // null
+ * ```
+ */
+export function getDedupeKey(name: string, payload: unknown): string | null {
+  if (payload === undefined) return `${name}:`;
+  if (!isJsonSafe(payload)) return null;
+  return `${name}:${JSON.stringify(payload)}`;
+}
+
+/**
+ * Collects messages and hands them to `send` together once the flush is due.
+ */
+export class MessageBatcher {
+  private entries: BatchEntry[] = [];
+  private isScheduled = false;
+  private cancelScheduled: (() => void) | null = null;
+
+  constructor(
+    private readonly send: (entries: BatchEntry[]) => void,
+    private readonly flushOn: Required<BatchOptions>["flush"] = "microtask",
+  ) {}
+
+  /**
+   * Adds a message to the batch and schedules the flush if it is not yet
+   */
+  add(entry: BatchEntry) {
+    this.entries.push(entry);
+    if (!this.isScheduled) this.schedule();
+  }
+
+  /**
+   * Sends the collected messages right away
+   */
+  flush() {
+    this.cancelScheduled?.();
+    this.cancelScheduled = null;
+    this.isScheduled = false;
+    const entries = this.entries;
+    this.entries = [];
+    if (entries.length > 0) this.send(entries);
+  }
+
+  /**
+   * Drops the collected messages without sending them
+   */
+  clear() {
+    this.cancelScheduled?.();
+    this.cancelScheduled = null;
+    this.isScheduled = false;
+    this.entries = [];
+  }
+
+  private schedule() {
+    this.isScheduled = true;
+    if (this.flushOn === "frame") {
+      if (typeof requestAnimationFrame === "function") {
+        const frameId = requestAnimationFrame(() => this.flush());
+        this.cancelScheduled = () => cancelAnimationFrame(frameId);
+      } else {
+        // Workers and other environments without frames
+        const timeoutId = setTimeout(() => this.flush(), 16);
+        this.cancelScheduled = () => clearTimeout(timeoutId);
+      }
+      return;
+    }
+    let isCancelled = false;
+    queueMicrotask(() => {
+      if (!isCancelled) this.flush();
+    });
+    this.cancelScheduled = () => {
+      isCancelled = true;
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @module Names of the message channels the library uses itself
+ *
+ * Methods and hooks are message channels named after them. The channels of the handshake
+ * keep the names plugins of every version know, the others start with a prefix so they
+ * never collide with a method or hook name.
+ */
+
+/** Prefix of the channels the library adds on top of the handshake */
+export const INTERNAL_CHANNEL_PREFIX = "__rpc:";
+
+/** Channel the plugin announces itself on, opening the handshake */
+export const DOM_READY_CHANNEL = "domReady";
+
+/** Channel the parent sends the initialization on */
+export const INIT_CHANNEL = "init";
+
+/** Channel the parent rejects the plugin on instead, e.g. for its protocol version */
+export const REJECT_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}reject`;
+
+/** Channel carrying heartbeats */
+export const HEARTBEAT_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}heartbeat`;
+
+/** Prefix of the channels of proxied values */
+export const PROXY_CHANNEL_PREFIX = `${INTERNAL_CHANNEL_PREFIX}proxy:`;
+
+/** Channel carrying state patches */
+export const STATE_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}state`;
+
+/** Channel carrying settings updates */
+export const SETTINGS_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}settings`;
+
+/** Channel carrying the hook names */
+export const HOOKS_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}hooks`;
+
+/** Channel carrying topic events */
+export const EVENT_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}event`;
+
+/** Channel carrying peer messages */
+export const PEER_CHANNEL = `${INTERNAL_CHANNEL_PREFIX}peer`;
@@ -0,0 +1,215 @@
+import { describe, expect, it, vi } from "vitest";
+import { createCodec, createJsonCodec, defineType } from "./codec";
+import PostMessageSocket from "./postMessageSocket";
+import { createInMemoryTransportPair } from "./transport";
+import { RemoteError } from "./errors";
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+}
+
+class Invoice {
+  constructor(
+    readonly id: string,
+    readonly total: Money,
+    readonly issuedAt: Date,
+  ) {}
+}
+
+const moneyType = defineType({
+  name: "Money",
+  is: (value): value is Money => value instanceof Money,
+  encode: ({ amount, currency }) => ({ amount, currency }),
+  decode: ({ amount, currency }) => new Money(amount, currency),
+});
+
+const invoiceType = defineType({
+  name: "Invoice",
+  is: (value): value is Invoice => value instanceof Invoice,
+  encode: ({ id, total, issuedAt }) => ({ id, total, issuedAt }),
+  decode: ({ id, total, issuedAt }) => new Invoice(id, total, issuedAt),
+});
+
+describe("createCodec", () => {
+  it("should restore registered types nested anywhere in a payload", () => {
+    const codec = createCodec([moneyType, invoiceType]);
+    const invoice = new Invoice("1", new Money(10, "EUR"), new Date(0));
+    const payload = {
+      invoices: [invoice],
+      byId: new Map([["1", invoice]]),
+      totals: new Set([new Money(10, "EUR")]),
+    };
+
+    const encoded = codec.encode(payload);
+    const decoded = codec.decode(structuredClone(encoded)) as typeof payload;
+
+    expect(encoded).toMatchObject({
+      invoices: [{ $type: "Invoice", value: { id: "1" } }],
+    });
+    expect(decoded.invoices[0]).toBeInstanceOf(Invoice);
+    expect(decoded.invoices[0].total).toEqual(new Money(10, "EUR"));
+    expect(decoded.invoices[0].total).toBeInstanceOf(Money);
+    // Dates are left to the structured clone
+    expect(decoded.invoices[0].issuedAt).toEqual(new Date(0));
+    expect(decoded.byId.get("1")).toBe(decoded.invoices[0]);
+    expect([...decoded.totals][0]).toBeInstanceOf(Money);
+  });
+
+  it("should keep plain objects with a $type key of their own", () => {
+    const codec = createCodec([moneyType]);
+    const payload = { $type: "Money", value: { amount: 1, currency: "EUR" } };
+
+    expect(codec.decode(structuredClone(codec.encode(payload)))).toEqual(
+      payload,
+    );
+  });
+
+  it("should keep keys like __proto__ as plain keys", () => {
+    const codec = createCodec();
+    const payload = JSON.parse('{"user":{"__proto__":{"isAdmin":true}}}');
+
+    const decoded = codec.decode(structuredClone(payload)) as {
+      user: Record<string, unknown>;
+    };
+    const encoded = codec.encode(payload) as typeof decoded;
+
+    [decoded.user, encoded.user].forEach((user) => {
+      expect(Object.getPrototypeOf(user)).toBe(Object.prototype);
+      expect(user.isAdmin).toBeUndefined();
+      expect(Object.keys(user)).toEqual(["__proto__"]);
+    });
+  });
+
+  it("should keep circular references", () => {
+    const codec = createCodec();
+    const node: Record<string, unknown> = { name: "root" };
+    node.self = node;
+
+    const decoded = codec.decode(codec.encode(node)) as typeof node;
+
+    expect(decoded.self).toBe(decoded);
+  });
+
+  it("should leave values of unknown types as they were encoded", () => {
+    const encoded = createCodec([moneyType]).encode(new Money(1, "EUR"));
+
+    expect(createCodec().decode(encoded)).toEqual({
+      $type: "Money",
+      value: { amount: 1, currency: "EUR" },
+    });
+  });
+
+  it("should reject type names that are already in use", () => {
+    expect(() => createCodec([moneyType, moneyType])).toThrow(
+      'Type name "Money" is already in use',
+    );
+    expect(() => createCodec([{ ...moneyType, name: "Object" }])).toThrow(
+      TypeError,
+    );
+  });
+});
+
+describe("createJsonCodec", () => {
+  it("should encode payloads that survive JSON", () => {
+    const codec = createJsonCodec([moneyType]);
+    const payload = {
+      total: new Money(10, "EUR"),
+      issuedAt: new Date("2024-01-02T03:04:05.000Z"),
+      tags: new Set(["a", "b"]),
+      rates: new Map([["EUR", 1n]]),
+      note: undefined,
+      invalid: new Date(NaN),
+    };
+
+    const decoded = codec.decode(
+      JSON.parse(JSON.stringify(codec.encode(payload))),
+    ) as typeof payload;
+
+    expect(decoded).toEqual(payload);
+    expect("note" in decoded).toBe(true);
+    expect(decoded.total).toBeInstanceOf(Money);
+    expect(decoded.issuedAt).toBeInstanceOf(Date);
+    expect(decoded.rates.get("EUR")).toBe(1n);
+  });
+
+  it("should check custom types before the built-in ones", () => {
+    class BusinessDate extends Date {}
+    const codec = createJsonCodec([
+      defineType({
+        name: "BusinessDate",
+        is: (value): value is BusinessDate => value instanceof BusinessDate,
+        encode: (date) => date.getTime(),
+        decode: (time) => new BusinessDate(time),
+      }),
+    ]);
+
+    const decoded = codec.decode(
+      JSON.parse(JSON.stringify(codec.encode(new BusinessDate(0)))),
+    );
+
+    expect(decoded).toBeInstanceOf(BusinessDate);
+  });
+});
+
+describe("PostMessageSocket with a codec", () => {
+  it("should encode and decode the payloads of calls and answers", async () => {
+    const codec = createCodec([moneyType]);
+    const [first, second] = createInMemoryTransportPair();
+    const host = new PostMessageSocket(first, undefined, { codec });
+    const plugin = new PostMessageSocket(second, undefined, { codec });
+
+    const convert = vi.fn((money: Money) => new Money(money.amount * 2, "USD"));
+    plugin.createMessageChannel("convert", convert);
+    const channel = host.createMessageChannel<Money, Money>(
+      "convert",
+      () => {},
+    );
+
+    const converted = await channel!.sendAndWait(new Money(5, "EUR"));
+
+    expect(convert.mock.calls[0][0]).toBeInstanceOf(Money);
+    expect(converted).toBeInstanceOf(Money);
+    expect(converted).toEqual(new Money(10, "USD"));
+
+    host.terminate();
+    plugin.terminate();
+  });
+
+  it("should reject a call whose payload cannot be decoded", async () => {
+    const failingType = defineType({
+      ...moneyType,
+      decode: (): Money => {
+        throw new Error("Unknown currency");
+      },
+    });
+    const [first, second] = createInMemoryTransportPair();
+    const errorCallback = vi.fn();
+    const host = new PostMessageSocket(first, undefined, {
+      codec: createCodec([moneyType]),
+    });
+    const plugin = new PostMessageSocket(second, errorCallback, {
+      codec: createCodec([failingType]),
+    });
+
+    const convert = vi.fn();
+    plugin.createMessageChannel("convert", convert);
+    const channel = host.createMessageChannel("convert", () => {});
+
+    const error = await channel!
+      .sendAndWait(new Money(5, "XXX"))
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error.message).toBe("Unknown currency");
+    expect(convert).not.toHaveBeenCalled();
+    expect(errorCallback).toHaveBeenCalledWith(
+      'Error decoding the payload of "convert": Unknown currency',
+    );
+
+    host.terminate();
+    plugin.terminate();
+  });
+});
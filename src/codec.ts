@@ -0,0 +1,269 @@
+import { isPlainObject } from "./plainObject";
+import type { Codec, TypeHandler } from "./types/index";
+
+/**
+ * @module Codecs converting message payloads to what the transport carries and back
+ *
+ * Values of a registered type are replaced by `{ $type: name, value }`, where `value`
+ * is the handler's encoded data. Arrays, plain objects, Maps and Sets are walked, so
+ * custom types can be nested anywhere in a payload. Plain objects that have a `$type`
+ * key of their own are escaped, so they arrive unchanged.
+ */
+
+/** Key of the type name in an encoded value */
+const TYPE_KEY = "$type";
+
+/** Type name of escaped plain objects, reserved */
+const ESCAPED_OBJECT = "Object";
+
+/**
+ * Encoded value of a custom type
+ */
+interface TaggedValue {
+  [TYPE_KEY]: string;
+  value: unknown;
+}
+
+/**
+ * Sets a key of an object being built. Defined instead of assigned, so keys like
+ * "__proto__" stay plain keys.
+ */
+function setOwn(object: Record<string, unknown>, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isTagged(data: unknown): data is TaggedValue {
+  return (
+    isPlainObject(data) &&
+    typeof data[TYPE_KEY] === "string" &&
+    "value" in data &&
+    Object.keys(data).length === 2
+  );
+}
+
+/**
+ * Creates a codec restoring the registered custom types on the other side.
+ * Everything else is left to the structured clone, so Dates, ArrayBuffers and
+ * MessagePorts pass as they are. Values tagged with an unknown type name are
+ * received as encoded.
+ *
+ * @param types - Handlers of the custom types, checked in order
+ * @throws {TypeError} If two handlers share a name or a handler uses the reserved name "Object"
+ *
+ * @example
+ * ```typescript
+ * const codec = createCodec([
+ *   defineType({
+ *     name: 'Decimal',
+ *     is: (value): value is Decimal => value instanceof Decimal,
+ *     encode: (decimal) => decimal.toString(),
+ *     decode: (text) => new Decimal(text),
+ *   }),
+ * ]);
+ * const plugin = await initInlinePlugin(config, { ...options, codec });
+ * ```
+ */
+export function createCodec(types: TypeHandler[] = []): Codec {
+  const handlers = new Map<string, TypeHandler>();
+  types.forEach((handler) => {
+    if (handler.name === ESCAPED_OBJECT || handlers.has(handler.name)) {
+      throw new TypeError(`Type name "${handler.name}" is already in use`);
+    }
+    handlers.set(handler.name, handler);
+  });
+
+  function encodeValue(value: unknown, seen: Map<object, unknown>): unknown {
+    const isObject = typeof value === "object" && value !== null;
+    // Shared and circular references stay shared and circular
+    if (isObject && seen.has(value)) {
+      return seen.get(value);
+    }
+    const handler = types.find((type) => type.is(value));
+    if (handler) {
+      const tagged: TaggedValue = { [TYPE_KEY]: handler.name, value: null };
+      if (isObject) {
+        seen.set(value, tagged);
+      }
+      tagged.value = encodeValue(handler.encode(value), seen);
+      return tagged;
+    }
+    if (!isObject) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      seen.set(value, array);
+      value.forEach((item, index) => {
+        array[index] = encodeValue(item, seen);
+      });
+      return array;
+    }
+    if (value instanceof Map) {
+      const map = new Map();
+      seen.set(value, map);
+      value.forEach((item, key) => {
+        map.set(encodeValue(key, seen), encodeValue(item, seen));
+      });
+      return map;
+    }
+    if (value instanceof Set) {
+      const set = new Set();
+      seen.set(value, set);
+      value.forEach((item) => set.add(encodeValue(item, seen)));
+      return set;
+    }
+    if (isPlainObject(value)) {
+      const object: Record<string, unknown> = {};
+      const encoded = Object.hasOwn(value, TYPE_KEY)
+        ? { [TYPE_KEY]: ESCAPED_OBJECT, value: object }
+        : object;
+      seen.set(value, encoded);
+      Object.entries(value).forEach(([key, item]) => {
+        setOwn(object, key, encodeValue(item, seen));
+      });
+      return encoded;
+    }
+    // Class instances without a handler are left to the structured clone
+    return value;
+  }
+
+  function decodeValue(data: unknown, seen: Map<object, unknown>): unknown {
+    if (typeof data !== "object" || data === null) {
+      return data;
+    }
+    if (seen.has(data)) {
+      return seen.get(data);
+    }
+    if (isTagged(data)) {
+      if (data[TYPE_KEY] === ESCAPED_OBJECT && isPlainObject(data.value)) {
+        return decodeEntries(data.value, data, seen);
+      }
+      const handler = handlers.get(data[TYPE_KEY]);
+      if (handler) {
+        const value = handler.decode(decodeValue(data.value, seen));
+        seen.set(data, value);
+        return value;
+      }
+    }
+    if (Array.isArray(data)) {
+      const array: unknown[] = [];
+      seen.set(data, array);
+      data.forEach((item, index) => {
+        array[index] = decodeValue(item, seen);
+      });
+      return array;
+    }
+    if (data instanceof Map) {
+      const map = new Map();
+      seen.set(data, map);
+      data.forEach((item, key) => {
+        map.set(decodeValue(key, seen), decodeValue(item, seen));
+      });
+      return map;
+    }
+    if (data instanceof Set) {
+      const set = new Set();
+      seen.set(data, set);
+      data.forEach((item) => set.add(decodeValue(item, seen)));
+      return set;
+    }
+    if (isPlainObject(data)) {
+      return decodeEntries(data, data, seen);
+    }
+    return data;
+  }
+
+  function decodeEntries(
+    entries: Record<string, unknown>,
+    data: object,
+    seen: Map<object, unknown>,
+  ) {
+    const object: Record<string, unknown> = {};
+    seen.set(data, object);
+    Object.entries(entries).forEach(([key, item]) => {
+      setOwn(object, key, decodeValue(item, seen));
+    });
+    return object;
+  }
+
+  return {
+    encode: (value) => encodeValue(value, new Map()),
+    decode: (data) => decodeValue(data, new Map()),
+  };
+}
+
+/**
+ * Infers the types of a handler's functions from its `is` type guard
+ *
+ * @example
+ * ```typescript
+ * const decimalType = defineType({
+ *   name: 'Decimal',
+ *   is: (value): value is Decimal => value instanceof Decimal,
+ *   encode: (decimal) => decimal.toString(), // decimal: Decimal
+ *   decode: (text) => new Decimal(text),     // text: string
+ * });
+ * ```
+ */
+export function defineType<T, E>(handler: TypeHandler<T, E>): TypeHandler {
+  return handler as TypeHandler;
+}
+
+/**
+ * Types JSON cannot represent, restored by the JSON-safe codec
+ */
+const JSON_TYPES: TypeHandler[] = [
+  defineType({
+    name: "undefined",
+    is: (value): value is undefined => value === undefined,
+    encode: () => null,
+    decode: () => undefined,
+  }),
+  defineType({
+    name: "BigInt",
+    is: (value): value is bigint => typeof value === "bigint",
+    encode: (value) => String(value),
+    decode: (data) => BigInt(data),
+  }),
+  defineType({
+    name: "Date",
+    is: (value): value is Date => value instanceof Date,
+    encode: (date) => (isNaN(date.getTime()) ? null : date.toISOString()),
+    decode: (data) => new Date(data ?? NaN),
+  }),
+  defineType({
+    name: "Map",
+    is: (value): value is Map<unknown, unknown> => value instanceof Map,
+    encode: (map) => [...map],
+    decode: (data) => new Map(data),
+  }),
+  defineType({
+    name: "Set",
+    is: (value): value is Set<unknown> => value instanceof Set,
+    encode: (set) => [...set],
+    decode: (data) => new Set(data),
+  }),
+];
+
+/**
+ * Creates a codec whose encoded payloads survive `JSON.stringify` and `JSON.parse`,
+ * for transports and environments that stringify messages. Besides the registered
+ * custom types it restores `undefined`, BigInts, Dates, Maps and Sets.
+ * Custom types are checked first, so they can handle e.g. subclasses of Date.
+ *
+ * @param types - Handlers of the custom types, checked in order
+ *
+ * @example
+ * ```typescript
+ * const codec = createJsonCodec([documentType]);
+ * const socket = new PostMessageSocket(stringifyingTransport, undefined, { codec });
+ * ```
+ */
+export function createJsonCodec(types: TypeHandler[] = []): Codec {
+  return createCodec([...types, ...JSON_TYPES]);
+}
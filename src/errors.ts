@@ -0,0 +1,257 @@
+import { ErrorStrings } from "./types/index";
+import type { SerializedError, ValidationIssue } from "./types/index";
+
+/**
+ * @module Error classes thrown or used for rejection by the library
+ */
+
+/**
+ * Rejection reason of a sendAndWait() call that did not receive an answer in time.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await plugin.methods.getData(undefined, { timeout: 2000 });
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) {
+ *     showPluginNotRespondingMessage();
+ *   }
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+  /** Name of the message channel the request was sent on */
+  readonly channel: string;
+  /** Id of the request message */
+  readonly messageId: string;
+  /** The timeout in milliseconds that elapsed */
+  readonly timeout: number;
+
+  constructor(channel: string, messageId: string, timeout: number) {
+    super(
+      `${ErrorStrings.RequestTimedOut}: no answer on "${channel}" within ${timeout}ms`,
+    );
+    this.name = "TimeoutError";
+    this.channel = channel;
+    this.messageId = messageId;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Rejection reason of every sendAndWait() call that was still waiting for its
+ * answer when the socket got terminated, and of calls made after termination.
+ *
+ * @example
+ * ```typescript
+ * const pending = plugin.methods.getData();
+ * plugin.destroy();
+ * await pending; // throws SocketTerminatedError
+ * ```
+ */
+export class SocketTerminatedError extends Error {
+  constructor() {
+    super(ErrorStrings.SocketIsTerminated);
+    this.name = "SocketTerminatedError";
+  }
+}
+
+/**
+ * Rejection reason of every call still waiting for its answer when the plugin's
+ * document reloaded or navigated away. The new document never answers them.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await plugin.methods.getData();
+ * } catch (error) {
+ *   if (error instanceof PluginReloadedError) {
+ *     await plugin.methods.getData(); // Answered by the reloaded document
+ *   }
+ * }
+ * ```
+ */
+export class PluginReloadedError extends Error {
+  constructor() {
+    super(ErrorStrings.PluginReloaded);
+    this.name = "PluginReloadedError";
+  }
+}
+
+/**
+ * Rejection reason of calls of a remote proxy after releaseProxy() released it.
+ *
+ * @example
+ * ```typescript
+ * releaseProxy(onProgress);
+ * await onProgress(50); // throws ProxyReleasedError
+ * ```
+ */
+export class ProxyReleasedError extends Error {
+  /** Name of the message channel the proxy's calls were sent on */
+  readonly channel: string;
+
+  constructor(channel: string) {
+    super(
+      `${ErrorStrings.ProxyReleased}: "${channel}" cannot be called anymore`,
+    );
+    this.name = "ProxyReleasedError";
+    this.channel = channel;
+  }
+}
+
+/**
+ * Rejection reason of a sendAndWait() call whose remote callback threw.
+ * Reconstructed from the error envelope sent back by the other window.
+ *
+ * @example
+ * ```typescript
+ * // Plugin side
+ * providePlugin({
+ *   methods: {
+ *     save: () => {
+ *       throw Object.assign(new Error("Quota exceeded"), {
+ *         code: "QUOTA",
+ *         data: { limit: 100 },
+ *       });
+ *     },
+ *   },
+ * });
+ *
+ * // Parent side
+ * try {
+ *   await plugin.methods.save(note);
+ * } catch (error) {
+ *   if (error instanceof RemoteError && error.code === "QUOTA") {
+ *     showUpgradeDialog(error.data);
+ *   }
+ * }
+ * ```
+ */
+export class RemoteError extends Error {
+  /** Name of the error thrown in the remote window (e.g. "TypeError") */
+  readonly remoteName: string;
+  /** Application specific error code, if the remote error had one */
+  readonly code?: string | number;
+  /** Stack trace of the error in the remote window */
+  readonly remoteStack?: string;
+  /** Custom data attached to the remote error */
+  readonly data?: unknown;
+
+  constructor({ name, message, code, stack, data }: SerializedError) {
+    super(message);
+    this.name = "RemoteError";
+    this.remoteName = name;
+    this.code = code;
+    this.remoteStack = stack;
+    this.data = data;
+  }
+}
+
+/**
+ * Thrown when a payload or result does not match its schema. Calls rejected this way never
+ * reach the implementation. When the receiving side rejects a call, the caller gets a
+ * RemoteError with the same `code` and `data`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await plugin.methods.save(note);
+ * } catch (error) {
+ *   // The note did not match the payload schema, it was never sent
+ *   if (error instanceof ValidationError) console.warn(error.issues);
+ *   // The plugin's schema rejected it
+ *   if (error instanceof RemoteError && error.code === "VALIDATION_ERROR") {
+ *     console.warn(error.data);
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends Error {
+  readonly code = "VALIDATION_ERROR";
+  /** Name of the method or hook */
+  readonly channel: string;
+  /** Whether the payload or the result was invalid */
+  readonly target: "payload" | "result";
+  /** Problems reported by the schema */
+  readonly issues: ValidationIssue[];
+  /** The same details as plain data, sent along when the error crosses windows */
+  readonly data: {
+    channel: string;
+    target: "payload" | "result";
+    issues: ValidationIssue[];
+  };
+
+  constructor(
+    channel: string,
+    target: "payload" | "result",
+    issues: ValidationIssue[],
+  ) {
+    const summary = issues
+      .map(({ message, path }) =>
+        path.length ? `${path.join(".")}: ${message}` : message,
+      )
+      .join("; ");
+    super(
+      `${ErrorStrings.ValidationFailed}: invalid ${target} of "${channel}"${summary ? ` (${summary})` : ""}`,
+    );
+    this.name = "ValidationError";
+    this.channel = channel;
+    this.target = target;
+    this.issues = issues;
+    this.data = { channel, target, issues };
+  }
+}
+
+/**
+ * Rejection reason of the initialization when the host and the plugin speak protocol
+ * versions the other side does not accept (see `minProtocolVersion`).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await initInlinePlugin(config, { ...options, minProtocolVersion: 1 });
+ * } catch (error) {
+ *   if (error instanceof ProtocolVersionError) showPluginOutdatedMessage();
+ * }
+ * ```
+ */
+export class ProtocolVersionError extends Error {
+  readonly code = "INCOMPATIBLE_PROTOCOL";
+  /** Protocol version of this side */
+  readonly localVersion: number;
+  /** Protocol version of the other side, 0 for releases without versioning */
+  readonly remoteVersion: number;
+  /** The same details as plain data, sent along when the error crosses windows */
+  readonly data: { localVersion: number; remoteVersion: number };
+
+  constructor(localVersion: number, remoteVersion: number, reason: string) {
+    super(`${ErrorStrings.IncompatibleProtocol}: ${reason}`);
+    this.name = "ProtocolVersionError";
+    this.localVersion = localVersion;
+    this.remoteVersion = remoteVersion;
+    this.data = { localVersion, remoteVersion };
+  }
+}
+
+/**
+ * Converts anything thrown by a callback into the error envelope sent over the wire.
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+  const { code, data } = error as Error & { code?: unknown; data?: unknown };
+  const serialized: SerializedError = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+  if (typeof code === "string" || typeof code === "number") {
+    serialized.code = code;
+  }
+  if (data !== undefined) {
+    serialized.data = data;
+  }
+  return serialized;
+}
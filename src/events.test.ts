@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { LifecycleEvents, createCallTracker } from "./events";
+import { TimeoutError } from "./errors";
+import type { CommonLifecycleEvents } from "./types/index";
+
+type TestEvents = {
+  ready: { methods: string[] };
+  destroyed: undefined;
+};
+
+describe("LifecycleEvents", () => {
+  it("should call every handler of the emitted event", () => {
+    const events = new LifecycleEvents<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    const other = vi.fn();
+    events.on("ready", first);
+    events.on("ready", second);
+    events.on("destroyed", other);
+
+    expect(events.emit("ready", { methods: ["getData"] })).toBe(true);
+
+    expect(first).toHaveBeenCalledWith({ methods: ["getData"] });
+    expect(second).toHaveBeenCalledWith({ methods: ["getData"] });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("should tell whether an event had handlers", () => {
+    const events = new LifecycleEvents<TestEvents>();
+
+    expect(events.emit("destroyed", undefined)).toBe(false);
+  });
+
+  it("should add the handlers of a listener map", () => {
+    const events = new LifecycleEvents<TestEvents>();
+    const ready = vi.fn();
+    events.addListeners({ ready, destroyed: undefined });
+
+    events.emit("ready", { methods: [] });
+    events.emit("destroyed", undefined);
+
+    expect(ready).toHaveBeenCalledWith({ methods: [] });
+  });
+
+  it("should stop calling a handler after unsubscribing", () => {
+    const events = new LifecycleEvents<TestEvents>();
+    const handler = vi.fn();
+    const off = events.on("destroyed", handler);
+
+    off();
+    events.emit("destroyed", undefined);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should keep calling the other handlers when one throws", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const events = new LifecycleEvents<TestEvents>();
+    const error = new Error("handler failed");
+    const handler = vi.fn();
+    events.on("ready", () => {
+      throw error;
+    });
+    events.on("ready", handler);
+
+    events.emit("ready", { methods: [] });
+
+    expect(handler).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith(
+      'Error in "ready" handler:',
+      error,
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should remove all handlers on clear", () => {
+    const events = new LifecycleEvents<TestEvents>();
+    const handler = vi.fn();
+    events.on("ready", handler);
+
+    events.clear();
+    events.emit("ready", { methods: [] });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("createCallTracker", () => {
+  it("should report the start and the result of each call", async () => {
+    const events = new LifecycleEvents<CommonLifecycleEvents>();
+    const started = vi.fn();
+    const finished = vi.fn();
+    events.on("methodCallStarted", started);
+    events.on("methodCallFinished", finished);
+    const trackCalls = createCallTracker(events);
+
+    const double = trackCalls(
+      "double",
+      (payload?: unknown) => Number(payload) * 2,
+    );
+
+    expect(await double(2)).toBe(4);
+    expect(started).toHaveBeenCalledWith({
+      id: 1,
+      method: "double",
+      payload: 2,
+    });
+    expect(finished).toHaveBeenCalledWith({
+      id: 1,
+      method: "double",
+      duration: expect.any(Number),
+    });
+  });
+
+  it("should report failed calls and timeouts", async () => {
+    const events = new LifecycleEvents<CommonLifecycleEvents>();
+    const finished = vi.fn();
+    const timeout = vi.fn();
+    events.on("methodCallFinished", finished);
+    events.on("timeout", timeout);
+    const trackCalls = createCallTracker(events);
+    const error = new TimeoutError("slow", "1", 100);
+
+    const slow = trackCalls("slow", () => Promise.reject(error));
+
+    await expect(slow()).rejects.toBe(error);
+    expect(finished).toHaveBeenCalledWith({
+      id: 1,
+      method: "slow",
+      duration: expect.any(Number),
+      error,
+    });
+    expect(timeout).toHaveBeenCalledWith({ timeout: 100, method: "slow" });
+  });
+});
@@ -0,0 +1,115 @@
+import { TimeoutError } from "./errors";
+import type { CommonLifecycleEvents, LifecycleListeners } from "./types/index";
+
+/**
+ * @module Lifecycle events of initialized plugins
+ */
+
+/**
+ * Handlers of events by name. Handlers that throw are reported through console.error
+ * and do not keep the other handlers from running.
+ *
+ * @example
+ * ```typescript
+ * const events = new LifecycleEvents<{ reconnected: { methods: string[] } }>();
+ * const off = events.on("reconnected", ({ methods }) => console.log(methods));
+ * events.emit("reconnected", { methods: ["getData"] });
+ * off();
+ * ```
+ */
+export class LifecycleEvents<E extends object> {
+  private handlers: Map<PropertyKey, Set<(payload: never) => void>> = new Map();
+
+  /**
+   * Adds a handler and returns a function removing it
+   */
+  on<K extends keyof E>(event: K, handler: (payload: E[K]) => void) {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+    };
+  }
+
+  /**
+   * Adds a handler for each event of a listener map
+   */
+  addListeners(listeners: LifecycleListeners<E> = {}) {
+    (Object.keys(listeners) as (keyof E)[]).forEach((event) => {
+      const handler = listeners[event];
+      if (handler) {
+        this.on(event, handler);
+      }
+    });
+  }
+
+  /**
+   * Calls every handler of an event with the payload.
+   * Returns whether the event had any handler.
+   */
+  emit<K extends keyof E>(event: K, payload: E[K]) {
+    // Handlers may remove themselves, so iterate over a snapshot
+    const handlers = [...(this.handlers.get(event) ?? [])];
+    handlers.forEach((handler) => {
+      try {
+        (handler as (payload: E[K]) => void)(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" handler:`, error);
+      }
+    });
+    return handlers.length > 0;
+  }
+
+  /**
+   * Removes all handlers
+   */
+  clear() {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Creates a wrapper reporting the calls of a method through the methodCallStarted and
+ * methodCallFinished events, and the timeout event if the call timed out.
+ * Call ids are unique per event emitter.
+ */
+export function createCallTracker(
+  events: LifecycleEvents<CommonLifecycleEvents>,
+) {
+  let lastId = 0;
+
+  return function trackCalls<A extends [payload?: unknown, ...rest: unknown[]]>(
+    method: string,
+    call: (...args: A) => unknown,
+  ) {
+    return async (...args: A) => {
+      const id = ++lastId;
+      const startedAt = Date.now();
+      events.emit("methodCallStarted", { id, method, payload: args[0] });
+      try {
+        const result = await call(...args);
+        events.emit("methodCallFinished", {
+          id,
+          method,
+          duration: Date.now() - startedAt,
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          events.emit("timeout", { timeout: error.timeout, method });
+        }
+        events.emit("methodCallFinished", {
+          id,
+          method,
+          duration: Date.now() - startedAt,
+          error,
+        });
+        throw error;
+      }
+    };
+  };
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import PostMessageSocket from "./postMessageSocket";
+import { HEARTBEAT_CHANNEL } from "./channels";
+import { startHeartbeat } from "./heartbeat";
+import { createInMemoryTransportPair } from "./transport";
+
+describe("startHeartbeat", () => {
+  let host: PostMessageSocket;
+  let plugin: PostMessageSocket;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const [hostTransport, pluginTransport] = createInMemoryTransportPair();
+    host = new PostMessageSocket(hostTransport);
+    plugin = new PostMessageSocket(pluginTransport);
+  });
+
+  afterEach(() => {
+    host.terminate();
+    plugin.terminate();
+    vi.useRealTimers();
+  });
+
+  it("should ping the plugin every interval", async () => {
+    const answer = vi.fn();
+    plugin.createMessageChannel(HEARTBEAT_CHANNEL, answer);
+    const onUnresponsive = vi.fn();
+
+    const stop = startHeartbeat(
+      host,
+      { interval: 1000 },
+      () => true,
+      onUnresponsive,
+    );
+    await vi.advanceTimersByTimeAsync(3500);
+
+    expect(answer).toHaveBeenCalledTimes(3);
+    expect(onUnresponsive).not.toHaveBeenCalled();
+
+    stop();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(answer).toHaveBeenCalledTimes(3);
+  });
+
+  it("should report a plugin that missed maxMissed heartbeats in a row", async () => {
+    let isHung = true;
+    plugin.createMessageChannel(HEARTBEAT_CHANNEL, () =>
+      isHung ? new Promise(() => {}) : undefined,
+    );
+    const onUnresponsive = vi.fn();
+
+    const stop = startHeartbeat(
+      host,
+      { interval: 1000, maxMissed: 2 },
+      () => true,
+      onUnresponsive,
+    );
+
+    // First ping after one interval, each miss takes another one
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onUnresponsive).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(onUnresponsive).toHaveBeenCalledWith(2);
+
+    // Reported once while it stays unresponsive
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onUnresponsive).toHaveBeenCalledTimes(1);
+
+    // Reported again after it recovered and hangs again
+    isHung = false;
+    await vi.advanceTimersByTimeAsync(2000);
+    isHung = true;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(onUnresponsive).toHaveBeenCalledTimes(2);
+
+    stop();
+  });
+
+  it("should not ping plugins that do not support heartbeats", async () => {
+    const answer = vi.fn();
+    plugin.createMessageChannel(HEARTBEAT_CHANNEL, answer);
+    const onUnresponsive = vi.fn();
+
+    const stop = startHeartbeat(
+      host,
+      { interval: 1000, maxMissed: 1 },
+      () => false,
+      onUnresponsive,
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(answer).not.toHaveBeenCalled();
+    expect(onUnresponsive).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it("should stop when the socket is terminated", async () => {
+    const onUnresponsive = vi.fn();
+    startHeartbeat(
+      host,
+      { interval: 1000, maxMissed: 1 },
+      () => true,
+      onUnresponsive,
+    );
+
+    await vi.advanceTimersByTimeAsync(1500);
+    host.terminate();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onUnresponsive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { HEARTBEAT_CHANNEL } from "./channels";
+import { SocketTerminatedError, TimeoutError } from "./errors";
+import type PostMessageSocket from "./postMessageSocket";
+import type { HeartbeatOptions } from "./types/index";
+
+/**
+ * @module Heartbeat detecting plugins that stopped answering
+ *
+ * The parent pings the plugin on HEARTBEAT_CHANNEL, which providePlugin answers.
+ * A ping without an answer within `interval` counts as missed and is followed by the
+ * next ping right away, so a hung plugin is detected after `interval * maxMissed`.
+ * Any answer, even an error, proves the plugin is alive and resets the count.
+ */
+
+/** Misses in a row after which a plugin counts as unresponsive, unless configured */
+const DEFAULT_MAX_MISSED = 3;
+
+/**
+ * Starts pinging the other side of the socket and returns a function stopping it.
+ *
+ * @param socket - Socket connected to the plugin
+ * @param options - Interval and miss threshold of the heartbeat
+ * @param isSupported - Whether the connected plugin answers heartbeats, checked before each ping
+ * @param onUnresponsive - Called once the plugin missed `maxMissed` heartbeats in a row,
+ *   and again if it recovers and stops answering later
+ */
+export function startHeartbeat(
+  socket: PostMessageSocket,
+  { interval, maxMissed = DEFAULT_MAX_MISSED }: HeartbeatOptions,
+  isSupported: () => boolean,
+  onUnresponsive: (missed: number) => void,
+): () => void {
+  let missed = 0;
+  let isStopped = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  function schedule(delay: number) {
+    if (!isStopped) {
+      timeoutId = setTimeout(beat, delay);
+    }
+  }
+
+  async function beat() {
+    timeoutId = null;
+    if (!isSupported()) {
+      missed = 0;
+      schedule(interval);
+      return;
+    }
+    const channel = socket.createMessageChannel(HEARTBEAT_CHANNEL);
+    if (!channel) return;
+
+    try {
+      await channel.sendAndWait(undefined, { timeout: interval });
+    } catch (error) {
+      if (error instanceof SocketTerminatedError) return;
+      if (error instanceof TimeoutError) {
+        missed++;
+        if (missed === maxMissed) {
+          onUnresponsive(missed);
+        }
+        schedule(0);
+        return;
+      }
+    }
+    missed = 0;
+    schedule(interval);
+  }
+
+  schedule(interval);
+
+  return () => {
+    isStopped = true;
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+}
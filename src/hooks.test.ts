@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { diffHookNames, isHookNames } from "./hooks";
+
+describe("diffHookNames", () => {
+  it("should list the added and removed names", () => {
+    expect(diffHookNames(["onSave", "onClose"], ["onSave", "onShare"])).toEqual(
+      { added: ["onShare"], removed: ["onClose"] },
+    );
+    expect(diffHookNames(["onSave"], ["onSave"])).toEqual({
+      added: [],
+      removed: [],
+    });
+  });
+});
+
+describe("isHookNames", () => {
+  it("should accept lists of strings only", () => {
+    expect(isHookNames(["onSave"])).toBe(true);
+    expect(isHookNames([])).toBe(true);
+    expect(isHookNames(["onSave", 1])).toBe(false);
+    expect(isHookNames("onSave")).toBe(false);
+  });
+});
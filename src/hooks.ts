@@ -0,0 +1,33 @@
+/**
+ * @module Hooks added, replaced and removed after the initialization
+ *
+ * The parent registers the channel of an added or replaced hook right away and sends
+ * the complete list of hook names on HOOKS_CHANNEL whenever it changes. The
+ * channel of a removed hook stays until the plugin confirmed the new list, so calls
+ * the plugin made before are still answered.
+ */
+
+/**
+ * Whether a payload of HOOKS_CHANNEL is a list of hook names
+ */
+export function isHookNames(names: unknown): names is string[] {
+  return (
+    Array.isArray(names) && names.every((name) => typeof name === "string")
+  );
+}
+
+/**
+ * Names added to and removed from a hook list
+ *
+ * @example
+ * ```typescript
+ * diffHookNames(["onSave", "onClose"], ["onSave", "onShare"]);
+ * // { added: ["onShare"], removed: ["onClose"] }
+ * ```
+ */
+export function diffHookNames(previous: string[], next: string[]) {
+  return {
+    added: next.filter((name) => !previous.includes(name)),
+    removed: previous.filter((name) => !next.includes(name)),
+  };
+}
@@ -474,6 +474,86 @@ describe("initFullscreenPlugin", () => {
     }
   });
 
+  it("should terminate the plugin communication on destroy", async () => {
+    const terminateSpy = vi.spyOn(PostMessageSocket.prototype, "terminate");
+
+    const pluginPromise = initFullscreenPlugin(
+      {
+        data: {},
+        settings: {},
+        hooks: {},
+      },
+      {
+        id: "test-plugin-terminate",
+        src: "https://example.com/plugin.html",
+        parentElem: body,
+      },
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const container = document.getElementById("test-plugin-terminate");
+    const iframe = container?.querySelector("iframe");
+    const socket = simulatePluginResponse(iframe as HTMLIFrameElement);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const plugin = await pluginPromise;
+    expect(terminateSpy).not.toHaveBeenCalled();
+
+    await plugin.destroy();
+
+    expect(terminateSpy).toHaveBeenCalledTimes(1);
+
+    terminateSpy.mockRestore();
+    socket?.terminate();
+  });
+
+  it("should report when the plugin was shown, hidden and destroyed", async () => {
+    const shown = vi.fn();
+    const destroyed = vi.fn();
+    const pluginPromise = initFullscreenPlugin(
+      {
+        data: {},
+        settings: {},
+        hooks: {},
+      },
+      {
+        id: "test-plugin-events",
+        src: "https://example.com/plugin.html",
+        parentElem: body,
+        listeners: { shown, destroyed },
+      },
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const container = document.getElementById("test-plugin-events");
+    const iframe = container?.querySelector("iframe");
+    const socket = simulatePluginResponse(iframe as HTMLIFrameElement);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const plugin = await pluginPromise;
+    const hidden = vi.fn();
+    plugin.on("hidden", hidden);
+
+    plugin.show({ opacity: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(shown).toHaveBeenCalledTimes(1);
+
+    const hiding = plugin.hide();
+    expect(hidden).not.toHaveBeenCalled();
+    container?.dispatchEvent(
+      Object.assign(new Event("transitionend"), { propertyName: "transform" }),
+    );
+    await hiding;
+    expect(hidden).toHaveBeenCalledTimes(1);
+
+    await plugin.destroy();
+    expect(destroyed).toHaveBeenCalledTimes(1);
+
+    socket?.terminate();
+  });
+
   it.skip("should increment zIndex on each show", async () => {
     // Test with sequential plugin creation to avoid event fix conflicts
     const plugin1Promise = initFullscreenPlugin(
@@ -1,12 +1,17 @@
 import { createInitPlugin } from "./initPlugin";
+import { LifecycleEvents } from "./events";
+import { defaultPluginManager } from "./pluginManager";
+import { ErrorStrings } from "./types/index";
 import type {
+  DefaultContract,
   PluginConfig,
+  PluginContractShape,
   FullscreenPluginOptions,
   FullscreenPlugin,
+  FullscreenPluginLifecycleEvents,
+  PluginLifecycleEvents,
 } from "./types/index";
 
-let currentZIndex = 0;
-
 /**
  * Initializes a fullscreen plugin with custom animations and optional splash screen.
  *
@@ -117,11 +122,24 @@ let currentZIndex = 0;
  * @param config.hooks - Parent callback functions
  *
  * @param options - Fullscreen-specific initialization options
- * @param options.id - Unique identifier for the plugin container element
+ * @param options.id - Unique identifier for the plugin container element and the plugin within its host
  * @param options.src - URL of the plugin HTML/JavaScript to load
  * @param options.parentElem - Parent DOM element to attach to (default: document.body)
+ * @param options.host - Optional host the plugin is registered with, defaults to defaultPluginManager.
+ *   show() puts the plugin above the other plugins of its host.
  * @param options.beforeInit - Optional callback invoked after iframe creation
  * @param options.timeout - Optional timeout in milliseconds
+ * @param options.callTimeout - Optional default timeout in milliseconds for every method call
+ * @param options.schemas - Optional schemas validating the payloads and results of methods and hooks
+ * @param options.minProtocolVersion - Optional oldest protocol version of the plugin to accept
+ * @param options.codec - Optional codec converting payloads, the plugin must use a matching one
+ * @param options.stateConflict - Optional policy resolving conflicting writes of the shared state
+ * @param options.batch - Optional batching of the method calls made in quick succession
+ * @param options.heartbeat - Optional heartbeat detecting a hung plugin, which is destroyed
+ *   or reloaded when it is unresponsive if `onUnresponsive` is set
+ * @param options.listeners - Optional handlers of lifecycle events, see FullscreenPluginLifecycleEvents
+ * @param options.allowedOrigins - Optional origins the plugin's messages are accepted from
+ * @param options.targetOrigin - Optional origin messages are sent to, defaults to the origin of `src`
  *
  * @returns Promise resolving to fullscreen plugin interface with methods, animations, and splash screen functions
  * @throws {Error} If plugin fails to initialize within the timeout period
@@ -154,10 +172,33 @@ let currentZIndex = 0;
  * await editor.destroy();
  * ```
  */
-export default async function initFullscreenPlugin(
-  { data, settings, hooks = {} }: PluginConfig,
-  { id, src, parentElem, beforeInit, timeout }: FullscreenPluginOptions,
-): Promise<FullscreenPlugin> {
+export default async function initFullscreenPlugin<
+  C extends PluginContractShape = DefaultContract,
+>(
+  { data, settings, hooks }: PluginConfig<C>,
+  {
+    id,
+    src,
+    parentElem,
+    host = defaultPluginManager,
+    beforeInit,
+    timeout,
+    callTimeout,
+    schemas,
+    minProtocolVersion,
+    codec,
+    stateConflict,
+    batch,
+    allowedOrigins,
+    targetOrigin,
+    heartbeat,
+    listeners,
+  }: FullscreenPluginOptions,
+): Promise<FullscreenPlugin<C>> {
+  // Checked before the container with the same id is added to the page
+  if (host.get(id)) {
+    throw new Error(`${ErrorStrings.PluginIdTaken} ${id}`);
+  }
   let container: HTMLDivElement | null = document.createElement("div");
   container.id = id;
   container.style.position = "fixed";
@@ -181,6 +222,15 @@ export default async function initFullscreenPlugin(
   const parent = parentElem || document.body;
   parent.appendChild(container);
 
+  // Every other event comes from the initialized plugin
+  const visibilityEvents = new LifecycleEvents<
+    Pick<FullscreenPluginLifecycleEvents, "shown" | "hidden">
+  >();
+  visibilityEvents.addListeners({
+    shown: listeners?.shown,
+    hidden: listeners?.hidden,
+  });
+
   let splashScreen: HTMLIFrameElement | undefined;
   function showSplashScreen(): Promise<void> | void {
     if (
@@ -239,8 +289,8 @@ export default async function initFullscreenPlugin(
     defaultAnimationTime = time;
     hiddenPosition = `translate3d(${x}, ${y}, 0px) scale(${scale})`;
     hiddenOpacity = opacity.toString();
-    currentZIndex++;
-    container.style.zIndex = currentZIndex.toString();
+    // Above the other fullscreen plugins of the host
+    host.bringToFront(id);
     container.style.overflow = "hidden";
 
     window.requestAnimationFrame(() => {
@@ -256,6 +306,7 @@ export default async function initFullscreenPlugin(
         container.style.transform = "translate3d(0px, 0px, 0px) scale(1)";
         container.style.opacity = "1";
         isVisible = true;
+        visibilityEvents.emit("shown", undefined);
       });
     });
   }
@@ -275,6 +326,7 @@ export default async function initFullscreenPlugin(
       const transitionEnded = (e: TransitionEvent) => {
         if (e.propertyName !== "opacity" && e.propertyName !== "transform")
           return;
+        visibilityEvents.emit("hidden", undefined);
         resolve();
       };
       container.addEventListener("transitionend", transitionEnded, {
@@ -283,12 +335,20 @@ export default async function initFullscreenPlugin(
     });
   }
 
+  let terminate: (() => void) | null = null;
+
   async function destroy(): Promise<void> {
     await hide();
+    // Stop the communication first, so pending method calls reject
+    if (terminate) {
+      terminate();
+      terminate = null;
+    }
     if (container) {
       container.remove();
       container = null;
     }
+    visibilityEvents.clear();
   }
 
   if (!beforeInit || typeof beforeInit !== "function") {
@@ -298,19 +358,67 @@ export default async function initFullscreenPlugin(
     };
   }
 
-  const { methods } = await createInitPlugin(
+  const initializedPlugin = await createInitPlugin<C>(
     { data, settings, hooks },
-    { container, src, beforeInit, timeout },
+    {
+      container,
+      src,
+      id,
+      host,
+      beforeInit,
+      timeout,
+      callTimeout,
+      schemas,
+      minProtocolVersion,
+      codec,
+      stateConflict,
+      batch,
+      allowedOrigins,
+      targetOrigin,
+      heartbeat,
+      listeners,
+    },
+    destroy,
   );
 
+  terminate = initializedPlugin.terminate;
+  if (heartbeat?.onUnresponsive === "destroy") {
+    initializedPlugin.on("unresponsive", () => destroy());
+  }
+
   if (!container) {
     throw new Error("Container was destroyed during initialization");
   }
 
+  function on<K extends keyof FullscreenPluginLifecycleEvents>(
+    event: K,
+    handler: (payload: FullscreenPluginLifecycleEvents[K]) => void,
+  ) {
+    if (event === "shown" || event === "hidden") {
+      return visibilityEvents.on(event, handler as () => void);
+    }
+    return initializedPlugin.on(
+      event as keyof PluginLifecycleEvents,
+      handler as (payload: unknown) => void,
+    );
+  }
+
   return {
     container,
     src,
-    methods,
+    methods: initializedPlugin.methods,
+    stream: initializedPlugin.stream,
+    state: initializedPlugin.state,
+    updateSettings: initializedPlugin.updateSettings,
+    updateHooks: initializedPlugin.updateHooks,
+    emit: initializedPlugin.emit,
+    subscribe: initializedPlugin.subscribe,
+    // Changes when a reloaded plugin reconnects
+    get protocolVersion() {
+      return initializedPlugin.protocolVersion;
+    },
+    supports: initializedPlugin.supports,
+    on,
     showSplashScreen,
     hideSplashScreen,
     show,
@@ -12,6 +12,9 @@ import {
 } from "vitest";
 
 import { useFixedMessageEvent } from "../test/utils/fixEvents";
+import { SocketTerminatedError } from "./errors";
+import { createProtocolInfo } from "./protocol";
+import { PluginManager } from "./pluginManager";
 
 // Not using the real console.error to avoid cluttering the test output
 console.error = vi.fn();
@@ -79,8 +82,8 @@ describe("initInlinePlugin", () => {
 
 		return {
 			pluginSocket,
-			sendDomReady: () => {
-				domReadyChannel?.send({});
+			sendDomReady: (payload: unknown = {}) => {
+				domReadyChannel?.send(payload);
 			},
 		};
 	}
@@ -217,7 +220,7 @@ describe("initInlinePlugin", () => {
 
 		const result = await resultPromise;
 		expect(result).toBe("test result");
-		expect(testMethodCb).toHaveBeenCalledWith("test payload");
+		expect(testMethodCb).toHaveBeenCalledWith("test payload", expect.anything());
 
 		plugin.destroy();
 	});
@@ -261,6 +264,97 @@ describe("initInlinePlugin", () => {
 		expect(container.querySelector("iframe")).toBeNull();
 	});
 
+	it("should register the plugin with its host until it is destroyed", async () => {
+		const host = new PluginManager();
+		const pluginPromise = initInlinePlugin(
+			{
+				data: {},
+				settings: {},
+				hooks: {},
+			},
+			{
+				src: "https://example.com/plugin.html",
+				container,
+				id: "chart",
+				host,
+			},
+		);
+
+		const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+		createdIframes.add(iframe);
+		applyEventFixes(iframe);
+
+		const { sendDomReady } = setupPluginResponse(
+			iframe.contentWindow as Window,
+			window,
+			{ methods: [] },
+		);
+
+		sendDomReady();
+		await vi.advanceTimersByTimeAsync(100);
+
+		const plugin = await pluginPromise;
+
+		expect(host.get("chart")?.container).toBe(container);
+		await expect(
+			initInlinePlugin(
+				{ data: {}, settings: {}, hooks: {} },
+				{
+					src: "https://example.com/plugin.html",
+					container,
+					id: "chart",
+					host,
+				},
+			),
+		).rejects.toThrow("A plugin is already registered with the id chart");
+
+		// The host destroys it like destroy() would
+		await host.destroyAll();
+		expect(host.list()).toEqual([]);
+		expect(container.children.length).toBe(0);
+		expect(() => plugin.emit("refresh")).toThrow(SocketTerminatedError);
+	});
+
+	it("should reject pending method calls on destroy", async () => {
+		const pluginPromise = initInlinePlugin(
+			{
+				data: {},
+				settings: {},
+				hooks: {},
+			},
+			{
+				src: "https://example.com/plugin.html",
+				container,
+			},
+		);
+
+		const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+		createdIframes.add(iframe);
+		applyEventFixes(iframe);
+
+		const { sendDomReady } = setupPluginResponse(
+			iframe.contentWindow as Window,
+			window,
+			{
+				methods: ["export"],
+				methodImplementations: {
+					export: () => new Promise(() => {}),
+				},
+			},
+		);
+
+		sendDomReady();
+		await vi.advanceTimersByTimeAsync(100);
+
+		const plugin = await pluginPromise;
+
+		const pending = plugin.methods.export({});
+		await vi.advanceTimersByTimeAsync(10);
+		plugin.destroy();
+
+		await expect(pending).rejects.toBeInstanceOf(SocketTerminatedError);
+	});
+
 	it("should remove all children from container on destroy", async () => {
 		const pluginPromise = initInlinePlugin(
 			{
@@ -303,6 +397,47 @@ describe("initInlinePlugin", () => {
 		expect(container.children.length).toBe(0);
 	});
 
+	it("should destroy the plugin when it is unresponsive", async () => {
+		const unresponsive = vi.fn();
+		const pluginPromise = initInlinePlugin(
+			{
+				data: {},
+				settings: {},
+				hooks: {},
+			},
+			{
+				src: "https://example.com/plugin.html",
+				container,
+				heartbeat: { interval: 1000, maxMissed: 2, onUnresponsive: "destroy" },
+				listeners: { unresponsive },
+			},
+		);
+
+		const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+		createdIframes.add(iframe);
+		applyEventFixes(iframe);
+
+		// The plugin's thread hangs, it never answers a heartbeat
+		const { sendDomReady } = setupPluginResponse(
+			iframe.contentWindow as Window,
+			window,
+			{ methodImplementations: { heartbeat: () => new Promise(() => {}) } },
+		);
+
+		sendDomReady({
+			protocol: { version: 1, minVersion: 0, capabilities: ["heartbeat"] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+
+		await pluginPromise;
+		expect(container.children.length).toBe(1);
+
+		await vi.advanceTimersByTimeAsync(3500);
+
+		expect(unresponsive).toHaveBeenCalledWith({ missed: 2 });
+		expect(container.children.length).toBe(0);
+	});
+
 	it("should call beforeInit if provided", async () => {
 		const beforeInit = vi.fn();
 
@@ -440,6 +575,9 @@ describe("initInlinePlugin", () => {
 			data: testData,
 			settings: testSettings,
 			hooks: [],
+			port: expect.any(MessagePort),
+			protocol: createProtocolInfo(),
+			stateVersions: [],
 		});
 
 		plugin.destroy();
@@ -484,6 +622,9 @@ describe("initInlinePlugin", () => {
 			data: { test: "data" },
 			settings: { test: "setting" },
 			hooks: [],
+			port: expect.any(MessagePort),
+			protocol: createProtocolInfo(),
+			stateVersions: [],
 		});
 
 		plugin.destroy();
@@ -1,7 +1,9 @@
 import { createInitPlugin } from "./initPlugin";
 
 import type {
+  DefaultContract,
   PluginConfig,
+  PluginContractShape,
   InlinePluginOptions,
   InlinePlugin,
 } from "./types/index";
@@ -85,8 +87,21 @@ import type {
  * @param options - Inline-specific initialization options
  * @param options.src - URL of the plugin HTML/JavaScript to load
  * @param options.container - DOM element where the plugin iframe will be inserted
+ * @param options.id - Optional id of the plugin within its host, generated if missing
+ * @param options.host - Optional host the plugin is registered with, defaults to defaultPluginManager
  * @param options.beforeInit - Optional callback invoked after iframe creation but before DOM insertion
  * @param options.timeout - Optional timeout in milliseconds (default: 30000, no timeout if 0)
+ * @param options.callTimeout - Optional default timeout in milliseconds for every method call
+ * @param options.schemas - Optional schemas validating the payloads and results of methods and hooks
+ * @param options.minProtocolVersion - Optional oldest protocol version of the plugin to accept
+ * @param options.codec - Optional codec converting payloads, the plugin must use a matching one
+ * @param options.stateConflict - Optional policy resolving conflicting writes of the shared state
+ * @param options.batch - Optional batching of the method calls made in quick succession
+ * @param options.heartbeat - Optional heartbeat detecting a hung plugin, which is destroyed
+ *   or reloaded when it is unresponsive if `onUnresponsive` is set
+ * @param options.listeners - Optional handlers of lifecycle events, see PluginLifecycleEvents
+ * @param options.allowedOrigins - Optional origins the plugin's messages are accepted from
+ * @param options.targetOrigin - Optional origin messages are sent to, defaults to the origin of `src`
  *
  * @returns Promise resolving to inline plugin interface with methods and destroy function
  * @throws {Error} If plugin fails to initialize within the timeout period
@@ -117,11 +132,30 @@ import type {
  * }
  * ```
  */
-export default async function initInlinePlugin(
-  { data, settings, hooks = {} }: PluginConfig,
-  { src, container, beforeInit, timeout }: InlinePluginOptions,
-): Promise<InlinePlugin> {
-  const { methods, terminate } = await createInitPlugin(
+export default async function initInlinePlugin<
+  C extends PluginContractShape = DefaultContract,
+>(
+  { data, settings, hooks }: PluginConfig<C>,
+  {
+    src,
+    container,
+    id,
+    host,
+    beforeInit,
+    timeout,
+    callTimeout,
+    schemas,
+    minProtocolVersion,
+    codec,
+    stateConflict,
+    batch,
+    allowedOrigins,
+    targetOrigin,
+    heartbeat,
+    listeners,
+  }: InlinePluginOptions,
+): Promise<InlinePlugin<C>> {
+  const initializedPlugin = await createInitPlugin<C>(
     {
       data,
       settings,
@@ -130,14 +164,27 @@ export default async function initInlinePlugin(
     {
       container,
       src,
+      id,
+      host,
       timeout,
+      callTimeout,
+      schemas,
+      minProtocolVersion,
+      codec,
+      stateConflict,
+      batch,
       beforeInit,
+      allowedOrigins,
+      targetOrigin,
+      heartbeat,
+      listeners,
     },
+    destroy,
   );
 
   function destroy(): void {
     // Terminate the PostMessageSocket first to clean up event listeners
-    terminate();
+    initializedPlugin.terminate();
 
     // Then remove all DOM children from the container
     while (container.firstChild) {
@@ -145,9 +192,25 @@ export default async function initInlinePlugin(
     }
   }
 
+  if (heartbeat?.onUnresponsive === "destroy") {
+    initializedPlugin.on("unresponsive", destroy);
+  }
+
   return {
     container,
-    methods,
+    methods: initializedPlugin.methods,
+    stream: initializedPlugin.stream,
+    state: initializedPlugin.state,
+    updateSettings: initializedPlugin.updateSettings,
+    updateHooks: initializedPlugin.updateHooks,
+    emit: initializedPlugin.emit,
+    subscribe: initializedPlugin.subscribe,
     destroy,
+    // Changes when a reloaded plugin reconnects
+    get protocolVersion() {
+      return initializedPlugin.protocolVersion;
+    },
+    supports: initializedPlugin.supports,
+    on: initializedPlugin.on,
   };
 }
@@ -5,13 +5,39 @@ import {
   beforeEach,
   afterEach,
   vi,
+  expectTypeOf,
   beforeAll,
   afterAll,
 } from "vitest";
 import { createInitPlugin } from "./initPlugin";
 import PostMessageSocket from "./postMessageSocket";
+import { PluginManager } from "./pluginManager";
+import {
+  EVENT_CHANNEL,
+  HEARTBEAT_CHANNEL,
+  HOOKS_CHANNEL,
+  PEER_CHANNEL,
+  REJECT_CHANNEL,
+  SETTINGS_CHANNEL,
+  STATE_CHANNEL,
+} from "./channels";
 import { useFixedMessageEvent } from "../test/utils/fixEvents";
-import { ResultStrings } from "./types/index";
+import { ErrorStrings, ResultStrings } from "./types/index";
+import type {
+  CallContext,
+  InitializedPlugin,
+  PluginContract,
+} from "./types/index";
+import {
+  PluginReloadedError,
+  ProtocolVersionError,
+  RemoteError,
+  SocketTerminatedError,
+  TimeoutError,
+} from "./errors";
+import { createProtocolInfo } from "./protocol";
+import { createCodec, defineType } from "./codec";
+import { proxy } from "./proxy";
 
 // Mock console.error to avoid cluttering test output
 // Temporarily disabled for debugging
@@ -44,7 +70,10 @@ describe("initPlugin", () => {
     parentWindow: Window,
     options: {
       methods?: string[];
-      methodImplementations?: Record<string, (payload: unknown) => unknown>;
+      methodImplementations?: Record<
+        string,
+        (payload: unknown, context?: unknown) => unknown
+      >;
       onInit?: (payload: unknown) => void;
     } = {},
   ) {
@@ -79,8 +108,8 @@ describe("initPlugin", () => {
 
     return {
       pluginSocket,
-      sendDomReady: () => {
-        domReadyChannel?.send({});
+      sendDomReady: (payload: unknown = {}) => {
+        domReadyChannel?.send(payload);
       },
     };
   }
@@ -321,6 +350,9 @@ describe("initPlugin", () => {
         data: { userId: 123 },
         settings: { theme: "dark" },
         hooks: ["onSave", "onClose"],
+        port: expect.any(MessagePort),
+        protocol: createProtocolInfo(),
+        stateVersions: [],
       });
 
       // Verify plugin interface
@@ -388,22 +420,26 @@ describe("initPlugin", () => {
       await vi.advanceTimersByTimeAsync(10);
       const saveResult = await savePromise;
 
-      expect(onSave).toHaveBeenCalledWith({ content: "data" });
+      expect(onSave).toHaveBeenCalledWith(
+        { content: "data" },
+        expect.anything(),
+      );
       expect(saveResult).toEqual({ saved: true });
 
       plugin.terminate();
       body.removeChild(container);
     });
 
-    it("should clear timeout on successful initialization", async () => {
+    it("should move all traffic to the private port once the plugin uses it", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
+      const onSave = vi.fn((content: unknown) => `saved ${content}`);
       const pluginPromise = createInitPlugin(
         {
           data: {},
           settings: {},
-          hooks: {},
+          hooks: { onSave },
         },
         {
           container,
@@ -416,31 +452,45 @@ describe("initPlugin", () => {
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      const { sendDomReady } = setupPluginResponse(
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
-        { methods: [] },
+        {
+          methods: ["getData"],
+          methodImplementations: { getData: () => "data" },
+          onInit: (payload) =>
+            pluginSocket.usePort((payload as { port: MessagePort }).port),
+        },
       );
+      const toPlugin = vi.spyOn(iframe.contentWindow as Window, "postMessage");
 
       sendDomReady();
       await vi.advanceTimersByTimeAsync(100);
+      // Only the init message went through the window
+      expect(toPlugin).toHaveBeenCalledTimes(1);
 
-      const plugin = await pluginPromise;
+      let plugin: InitializedPlugin | undefined;
+      pluginPromise.then((initialized) => (plugin = initialized));
+      await vi.waitFor(() => expect(plugin).toBeDefined());
 
-      // Container should NOT be removed (would be removed on timeout)
-      expect(container.querySelector("iframe")).not.toBeNull();
+      const data = plugin!.methods.getData();
+      const saved = pluginSocket
+        .createMessageChannel("onSave", () => {})!
+        .sendAndWait("note");
+      await vi.waitFor(() => expect(onSave).toHaveBeenCalled());
 
-      plugin.terminate();
+      expect(await data).toBe("data");
+      expect(await saved).toBe("saved note");
+      expect(toPlugin).toHaveBeenCalledTimes(1);
+
+      plugin!.terminate();
       body.removeChild(container);
     });
-  });
 
-  describe("initPlugin - timeout handling", () => {
-    it("should reject with timeout error if plugin doesn't respond", async () => {
+    it("should clear timeout on successful initialization", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
-      // Don't set up plugin response - simulate timeout
       const pluginPromise = createInitPlugin(
         {
           data: {},
@@ -454,76 +504,76 @@ describe("initPlugin", () => {
         },
       );
 
-      // Track iframe for cleanup
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      // Verify iframe was created
-      expect(iframe).not.toBeNull();
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methods: [] },
+      );
 
-      // Advance time past timeout
-      vi.advanceTimersByTime(5000);
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
 
-      await expect(pluginPromise).rejects.toThrow(
-        "Plugin initialization failed with timeout! You can try to increase the timeout value in the plugin settings. Current value is 5000ms.",
-      );
+      const plugin = await pluginPromise;
 
-      // NOTE: The container (iframe) is removed by initPlugin on timeout
-      // This is expected behavior
+      // Container should NOT be removed (would be removed on timeout)
+      expect(container.querySelector("iframe")).not.toBeNull();
+
+      plugin.terminate();
+      body.removeChild(container);
     });
+  });
 
-    it("should remove container from DOM on timeout", async () => {
+  describe("initPlugin - protocol negotiation", () => {
+    it("should expose the negotiated protocol version and capabilities", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
-        {
-          container,
-          src: "https://test-plugin.com",
-          timeout: 3000,
-        },
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
       );
 
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      expect(iframe).not.toBeNull();
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
 
-      vi.advanceTimersByTime(3000);
+      // A plugin of a newer release announcing a capability this side lacks
+      sendDomReady({
+        protocol: {
+          version: 7,
+          minVersion: 1,
+          capabilities: ["stream", "cancel", "telepathy"],
+        },
+      });
+      await vi.advanceTimersByTimeAsync(100);
 
-      await expect(pluginPromise).rejects.toThrow(/timeout/);
+      const plugin = await pluginPromise;
+      expect(plugin.protocolVersion).toBe(1);
+      expect(plugin.supports("stream")).toBe(true);
+      expect(plugin.supports("cancel")).toBe(true);
+      expect(plugin.supports("port")).toBe(false);
+      expect(plugin.supports("telepathy")).toBe(false);
 
-      // The container (iframe) should be removed by initPlugin on timeout
-      // But check if it's still in DOM - if so, it's a bug
-      const stillExists = container.querySelector("iframe");
-      if (stillExists) {
-        // Remove it manually for cleanup
-        container.removeChild(stillExists);
-      }
+      plugin.terminate();
+      body.removeChild(container);
     });
 
-    it("should allow initialization without timeout", async () => {
+    it("should treat plugins without versioning as version 0", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
-      // No timeout specified
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
-        {
-          container,
-          src: "https://test-plugin.com",
-        },
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
       );
 
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
@@ -533,269 +583,1894 @@ describe("initPlugin", () => {
       const { sendDomReady } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
-        { methods: [] },
+        { methods: ["legacyMethod"] },
       );
 
-      // Even after long time, should work
-      vi.advanceTimersByTime(10000);
       sendDomReady();
       await vi.advanceTimersByTimeAsync(100);
 
       const plugin = await pluginPromise;
-      expect(plugin).toBeDefined();
+      expect(plugin.protocolVersion).toBe(0);
+      expect(plugin.supports("stream")).toBe(false);
+      expect(Object.keys(plugin.methods)).toEqual(["legacyMethod"]);
 
       plugin.terminate();
       body.removeChild(container);
     });
-  });
 
-  describe("initPlugin - error handling", () => {
-    it("should reject if plugin returns string instead of method list", async () => {
+    it("should reject plugins older than minProtocolVersion with a ProtocolVersionError", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
+        { data: {}, settings: {}, hooks: {} },
         {
           container,
           src: "https://test-plugin.com",
           timeout: 5000,
+          minProtocolVersion: 1,
         },
       );
-
-      // Immediately attach catch handler to prevent unhandled rejection
-      pluginPromise.catch(() => {});
+      const initError = pluginPromise.catch((error) => error);
 
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      const pluginSocket = new PostMessageSocket(
+      const onInit = vi.fn();
+      const { sendDomReady } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
+        { onInit },
       );
-      createdSockets.add(pluginSocket);
-
-      const domReadyChannel = pluginSocket.createMessageChannel(
-        "domReady",
-        () => {},
-      );
-      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
-        once: true,
-      });
-      // Return string instead of array
-      pluginSocket.createMessageChannel("init", () => ResultStrings.Success);
 
-      domReadyChannel?.send({});
+      sendDomReady();
       await vi.advanceTimersByTimeAsync(100);
 
-      // Catch the rejection to prevent unhandled promise rejection
-      try {
-        await pluginPromise;
-        expect.fail("Should have thrown an error");
-      } catch (error) {
-        expect(error).toBeInstanceOf(Error);
-        expect((error as Error).message).toBe(
-          "Plugin did not return method list",
-        );
-      }
-
-      // Verify cleanup happened - iframe should be removed
-      const stillExists = container.querySelector("iframe");
-      if (stillExists) {
-        container.removeChild(stillExists);
-      }
+      const error = await initError;
+      expect(error).toBeInstanceOf(ProtocolVersionError);
+      expect(error.localVersion).toBe(1);
+      expect(error.remoteVersion).toBe(0);
+      expect(error.message).toBe(
+        "Incompatible protocol version: the plugin speaks version 0, at least 1 is required",
+      );
+      // The plugin never receives init data and its container is removed
+      expect(onInit).not.toHaveBeenCalled();
+      expect(container.parentNode).toBeNull();
     });
 
-    it("should handle errors thrown during initialization", async () => {
+    it("should tell plugins supporting it why they were rejected", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
-        {
-          container,
-          src: "https://test-plugin.com",
-          timeout: 5000,
-        },
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
       );
-
-      // Immediately attach catch handler to prevent unhandled rejection
-      pluginPromise.catch(() => {});
+      const initError = pluginPromise.catch((error) => error);
 
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      const pluginSocket = new PostMessageSocket(
+      const { sendDomReady, pluginSocket } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
       );
-      createdSockets.add(pluginSocket);
+      const onReject = vi.fn();
+      pluginSocket.createMessageChannel(REJECT_CHANNEL, onReject);
 
-      const domReadyChannel = pluginSocket.createMessageChannel(
-        "domReady",
-        () => {},
-      );
-      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
-        once: true,
-      });
-      pluginSocket.createMessageChannel("init", () => {
-        throw new Error("Init failed!");
+      sendDomReady({
+        protocol: { version: 2, minVersion: 2, capabilities: ["reject"] },
       });
-
-      domReadyChannel?.send({});
       await vi.advanceTimersByTimeAsync(100);
 
-      // Catch the rejection to prevent unhandled promise rejection
-      try {
-        await pluginPromise;
-        expect.fail("Should have thrown an error");
-      } catch (error) {
-        expect(error).toBeInstanceOf(Error);
-        // When plugin throws during init, the error is transformed
-        expect((error as Error).message).toContain("forEach");
-      }
-
-      // Cleanup if still exists
-      const stillExists = container.querySelector("iframe");
-      if (stillExists) {
-        container.removeChild(stillExists);
-      }
+      const error = await initError;
+      expect(error).toBeInstanceOf(ProtocolVersionError);
+      expect(onReject).toHaveBeenCalledWith(
+        {
+          name: "ProtocolVersionError",
+          message: error.message,
+          code: "INCOMPATIBLE_PROTOCOL",
+          stack: expect.any(String),
+          data: { localVersion: 1, remoteVersion: 2 },
+        },
+        expect.anything(),
+      );
     });
-
-    it("should cleanup and remove container on error", async () => {
+    it("should not stream from plugins that do not support it", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
-        {
-          container,
-          src: "https://test-plugin.com",
-          timeout: 5000,
-        },
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
       );
 
-      // Immediately attach catch handler to prevent unhandled rejection
-      pluginPromise.catch(() => {});
-
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
-      expect(iframe).not.toBeNull();
 
-      // Create plugin socket manually (don't use setupPluginResponse helper)
-      const pluginSocket = new PostMessageSocket(
+      const { sendDomReady } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
+        { methods: ["exportRows"] },
       );
-      createdSockets.add(pluginSocket);
-
-      const domReadyChannel = pluginSocket.createMessageChannel(
-        "domReady",
-        () => {},
-      );
-      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
-        once: true,
+      sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: ["proxy"] },
       });
-      // Return string instead of array to trigger error
-      pluginSocket.createMessageChannel("init", () => ResultStrings.Success);
-
-      domReadyChannel?.send({});
       await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
 
-      // Catch the rejection to prevent unhandled promise rejection
-      try {
-        await pluginPromise;
-        expect.fail("Should have thrown an error");
-      } catch (error) {
-        expect(error).toBeInstanceOf(Error);
-        expect((error as Error).message).toBe(
-          "Plugin did not return method list",
-        );
-      }
+      expect(() => plugin.stream("exportRows")).toThrow(
+        ErrorStrings.StreamsNotSupported,
+      );
 
-      // Verify iframe was removed (or clean it up)
-      const stillExists = container.querySelector("iframe");
-      if (stillExists) {
-        container.removeChild(stillExists);
-      }
+      plugin.terminate();
+      body.removeChild(container);
     });
-  });
 
-  describe("initPlugin - method proxying", () => {
-    it("should correctly proxy async method calls with payloads", async () => {
+    it("should not send proxies to plugins that do not support them", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
 
       const pluginPromise = createInitPlugin(
-        {
-          data: {},
-          settings: {},
-          hooks: {},
-        },
-        {
-          container,
-          src: "https://test-plugin.com",
-          timeout: 5000,
-        },
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
       );
 
       const iframe = container.querySelector("iframe") as HTMLIFrameElement;
       createdIframes.add(iframe);
       applyEventFixes(iframe);
 
-      const calculateMock = vi.fn((payload: { a: number; b: number }) => {
-        return payload.a + payload.b;
-      });
-      const transformMock = vi.fn((payload: { text: string }) => {
-        return { result: payload.text.toUpperCase() };
-      });
-
+      const exportNote = vi.fn(() => "exported");
       const { sendDomReady } = setupPluginResponse(
         iframe.contentWindow as Window,
         window,
         {
-          methods: ["calculate", "transform"],
-          methodImplementations: {
-            calculate: calculateMock,
-            transform: transformMock,
-          },
+          methods: ["exportNote"],
+          methodImplementations: { exportNote },
         },
       );
-
-      sendDomReady();
+      sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: ["stream"] },
+      });
       await vi.advanceTimersByTimeAsync(100);
-
       const plugin = await pluginPromise;
 
-      // Test calculate
+      await expect(
+        plugin.methods.exportNote({ onProgress: proxy(() => {}) }),
+      ).rejects.toThrow(ErrorStrings.ProxiesNotSupported);
+      expect(exportNote).not.toHaveBeenCalled();
+
+      const result = plugin.methods.exportNote({ format: "md" });
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(result).resolves.toBe("exported");
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - reconnection", () => {
+    it("should reconnect a reloaded plugin that moved to the private port", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const onSave = vi.fn((content: unknown) => `saved ${content}`);
+      const pluginPromise = createInitPlugin(
+        { data: { id: 1 }, settings: {}, hooks: { onSave } },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const loadDocument = (version: string, methods: string[]) => {
+        const onInit = vi.fn();
+        const loaded = setupPluginResponse(
+          iframe.contentWindow as Window,
+          window,
+          {
+            methods,
+            methodImplementations: { getData: () => `${version} data` },
+            onInit: (payload) => {
+              onInit(payload);
+              loaded.pluginSocket.usePort(
+                (payload as { port: MessagePort }).port,
+              );
+            },
+          },
+        );
+        loaded.sendDomReady();
+        return { ...loaded, onInit };
+      };
+
+      const first = loadDocument("first", ["getData", "close"]);
+      let plugin: InitializedPlugin | undefined;
+      pluginPromise.then((initialized) => (plugin = initialized));
+      await vi.waitFor(() => expect(plugin).toBeDefined());
+
+      const { methods } = plugin!;
+      const getData = methods.getData;
+      const reconnected = vi.fn();
+      plugin!.on("reconnected", reconnected);
+
+      // The document reloads: its socket and port are gone, a new one announces itself
+      first.pluginSocket.terminate();
+      const second = loadDocument("second", ["getData", "exportRows"]);
+      await vi.waitFor(() => expect(reconnected).toHaveBeenCalled());
+
+      expect(reconnected).toHaveBeenCalledWith({
+        protocolVersion: 0,
+        methods: ["getData", "exportRows"],
+      });
+      // The reloaded document gets the same data and hooks
+      expect(second.onInit).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { id: 1 }, hooks: ["onSave"] }),
+      );
+
+      // The methods object and its functions keep working with the new document
+      expect(plugin!.methods).toBe(methods);
+      expect(Object.keys(methods)).toEqual(["getData", "exportRows"]);
+      expect(await getData()).toBe("second data");
+
+      const saved = second.pluginSocket
+        .createMessageChannel("onSave", () => {})!
+        .sendAndWait("note");
+      expect(await saved).toBe("saved note");
+
+      plugin!.terminate();
+      body.removeChild(container);
+    });
+
+    it("should reconnect a reloaded plugin that stayed on window messaging", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const first = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData"],
+          methodImplementations: { getData: () => "first data" },
+        },
+      );
+      first.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const reconnected = vi.fn();
+      plugin.on("reconnected", reconnected);
+
+      first.pluginSocket.terminate();
+      const second = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData"],
+          methodImplementations: { getData: () => "second data" },
+        },
+      );
+      second.sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: ["stream"] },
+      });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(reconnected).toHaveBeenCalledWith({
+        protocolVersion: 1,
+        methods: ["getData"],
+      });
+      expect(plugin.protocolVersion).toBe(1);
+      expect(plugin.supports("stream")).toBe(true);
+
+      const data = plugin.methods.getData();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(await data).toBe("second data");
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should reject calls pending when the plugin document reloads", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const first = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData"],
+          // The document reloads before answering
+          methodImplementations: { getData: () => new Promise(() => {}) },
+        },
+      );
+      first.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const data = plugin.methods.getData().catch((error) => error);
+      await vi.advanceTimersByTimeAsync(10);
+
+      first.pluginSocket.terminate();
+      const second = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methods: ["getData"] },
+      );
+      second.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const error = await data;
+      expect(error).toBeInstanceOf(PluginReloadedError);
+      expect(error.message).toBe(ErrorStrings.PluginReloaded);
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should report a reconnection the plugin never answers after the timeout", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const first = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methods: ["getData"] },
+      );
+      first.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const reconnected = vi.fn();
+      const onError = vi.fn();
+      plugin.on("reconnected", reconnected);
+      plugin.on("error", onError);
+
+      // The reloaded document announces itself but hangs during its init
+      first.pluginSocket.terminate();
+      const pluginSocket = new PostMessageSocket(
+        iframe.contentWindow as Window,
+        window,
+      );
+      createdSockets.add(pluginSocket);
+      pluginSocket.createMessageChannel("init", () => new Promise(() => {}));
+      pluginSocket.createMessageChannel("domReady", () => {})!.send({});
+
+      await vi.advanceTimersByTimeAsync(4900);
+      expect(onError).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(onError).toHaveBeenCalledWith({
+        error: expect.any(TimeoutError),
+      });
+      expect(reconnected).not.toHaveBeenCalled();
+      expect(container.parentNode).toBe(body);
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should report a reloaded plugin whose announcement cannot be decoded", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          codec: createCodec([
+            defineType({
+              name: "Unknown",
+              is: (value): value is never => false,
+              encode: (value) => value,
+              decode: () => {
+                throw new Error("Cannot decode");
+              },
+            }),
+          ]),
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const first = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData"],
+          onInit: (payload) =>
+            first.pluginSocket.usePort((payload as { port: MessagePort }).port),
+        },
+      );
+      first.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const reconnected = vi.fn();
+      const onError = vi.fn();
+      plugin.on("reconnected", reconnected);
+      plugin.on("error", onError);
+
+      // The reloaded document announces itself on the window, past the socket
+      first.pluginSocket.terminate();
+      const second = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methods: ["getData"] },
+      );
+      second.sendDomReady({ $type: "Unknown", value: {} });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(onError).toHaveBeenCalledWith({
+        error: expect.objectContaining({ message: "Cannot decode" }),
+      });
+      expect(reconnected).not.toHaveBeenCalled();
+      expect(container.parentNode).toBe(body);
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should keep the plugin when a reconnection fails", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          minProtocolVersion: 1,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const protocol = { version: 1, minVersion: 0, capabilities: [] };
+      const first = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData"],
+        },
+      );
+      first.sendDomReady({ protocol });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const reconnected = vi.fn();
+      plugin.on("reconnected", reconnected);
+
+      // An outdated document without versioning gets loaded
+      first.pluginSocket.terminate();
+      const second = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      second.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(reconnected).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        "Plugin reconnection failed:",
+        expect.any(ProtocolVersionError),
+      );
+      expect(container.parentNode).toBe(body);
+      expect(Object.keys(plugin.methods)).toEqual(["getData"]);
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - lifecycle events", () => {
+    it("should report the handshake, method calls and termination", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const ready = vi.fn();
+      const destroyed = vi.fn();
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          listeners: { ready, destroyed },
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getData", "fail"],
+          methodImplementations: {
+            getData: () => "data",
+            fail: () => {
+              throw new Error("Plugin failure");
+            },
+          },
+        },
+      );
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      expect(ready).toHaveBeenCalledWith({
+        protocolVersion: 0,
+        methods: ["getData", "fail"],
+      });
+
+      const started = vi.fn();
+      const finished = vi.fn();
+      plugin.on("methodCallStarted", started);
+      const off = plugin.on("methodCallFinished", finished);
+
+      const data = plugin.methods.getData({ id: 1 });
+      await vi.advanceTimersByTimeAsync(10);
+      await data;
+      const failing = plugin.methods.fail().catch((error) => error);
+      await vi.advanceTimersByTimeAsync(10);
+      await failing;
+
+      expect(started).toHaveBeenNthCalledWith(1, {
+        id: 1,
+        method: "getData",
+        payload: { id: 1 },
+      });
+      expect(started).toHaveBeenNthCalledWith(2, {
+        id: 2,
+        method: "fail",
+        payload: undefined,
+      });
+      expect(finished).toHaveBeenNthCalledWith(1, {
+        id: 1,
+        method: "getData",
+        duration: expect.any(Number),
+      });
+      expect(finished).toHaveBeenNthCalledWith(2, {
+        id: 2,
+        method: "fail",
+        duration: expect.any(Number),
+        error: expect.any(RemoteError),
+      });
+
+      off();
+      const again = plugin.methods.getData();
+      await vi.advanceTimersByTimeAsync(10);
+      await again;
+      expect(started).toHaveBeenCalledTimes(3);
+      expect(finished).toHaveBeenCalledTimes(2);
+
+      plugin.terminate();
+      plugin.terminate();
+      expect(destroyed).toHaveBeenCalledTimes(1);
+
+      body.removeChild(container);
+    });
+
+    it("should report timeouts of the initialization and of method calls", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const timeout = vi.fn();
+      const error = vi.fn();
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          listeners: { timeout, error },
+        },
+      );
+      const rejection = expect(pluginPromise).rejects.toThrow();
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await rejection;
+
+      expect(timeout).toHaveBeenCalledWith({ timeout: 5000 });
+      expect(error).not.toHaveBeenCalled();
+    });
+
+    it("should report method calls that time out", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          callTimeout: 1000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["slow"],
+          methodImplementations: { slow: () => new Promise(() => {}) },
+        },
+      );
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const timeout = vi.fn();
+      plugin.on("timeout", timeout);
+
+      const call = plugin.methods.slow().catch((error) => error);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await call).toBeInstanceOf(TimeoutError);
+      expect(timeout).toHaveBeenCalledWith({ timeout: 1000, method: "slow" });
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should report an unresponsive plugin and reload its iframe", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const unresponsive = vi.fn();
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          heartbeat: { interval: 1000, maxMissed: 2, onUnresponsive: "reload" },
+          listeners: { unresponsive },
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+      const setSrc = vi.spyOn(iframe, "src", "set");
+
+      let isHung = false;
+      const heartbeat = vi.fn(() => (isHung ? new Promise(() => {}) : true));
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methodImplementations: { [HEARTBEAT_CHANNEL]: heartbeat } },
+      );
+      sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: ["heartbeat"] },
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(heartbeat).toHaveBeenCalledTimes(3);
+      expect(unresponsive).not.toHaveBeenCalled();
+
+      isHung = true;
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(unresponsive).toHaveBeenCalledWith({ missed: 2 });
+      expect(setSrc).toHaveBeenCalledWith("https://test-plugin.com");
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should not ping plugins without the heartbeat capability", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const unresponsive = vi.fn();
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          heartbeat: { interval: 1000, maxMissed: 1 },
+          listeners: { unresponsive },
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(unresponsive).not.toHaveBeenCalled();
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should report a failed reconnection as an error event", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          minProtocolVersion: 1,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const first = setupPluginResponse(iframe.contentWindow as Window, window);
+      first.sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: [] },
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      const disconnected = vi.fn();
+      const error = vi.fn();
+      plugin.on("disconnected", disconnected);
+      plugin.on("error", error);
+      vi.mocked(console.error).mockClear();
+
+      first.pluginSocket.terminate();
+      const second = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      second.sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(disconnected).toHaveBeenCalledTimes(1);
+      expect(error).toHaveBeenCalledWith({
+        error: expect.any(ProtocolVersionError),
+      });
+      expect(console.error).not.toHaveBeenCalled();
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - shared state", () => {
+    it("should synchronize the state with plugins supporting it", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: { title: "Draft" }, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      const onPatch = vi.fn();
+      const stateChannel = pluginSocket.createMessageChannel(
+        STATE_CHANNEL,
+        onPatch,
+      );
+      sendDomReady({
+        protocol: { version: 1, minVersion: 0, capabilities: ["state"] },
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+
+      expect(plugin.state.get("title")).toBe("Draft");
+      plugin.state.set("title", "Final");
+      await vi.advanceTimersByTimeAsync(10);
+      expect(onPatch).toHaveBeenCalledWith(
+        { entries: [{ key: "title", value: "Final", version: 1 }] },
+        expect.anything(),
+      );
+
+      const onChange = vi.fn();
+      plugin.state.subscribe(onChange);
+      stateChannel!.send({
+        entries: [{ key: "color", value: "red", version: 1 }],
+      });
+      await vi.advanceTimersByTimeAsync(10);
+      expect(plugin.state.getAll()).toEqual({ title: "Final", color: "red" });
+      expect(onChange).toHaveBeenCalledWith({
+        key: "color",
+        value: "red",
+        previousValue: undefined,
+        deleted: false,
+        source: "remote",
+      });
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - settings updates", () => {
+    async function initWithCapabilities(capabilities: string[]) {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: { theme: "light", locale: "en" }, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      sendDomReady({ protocol: { version: 1, minVersion: 0, capabilities } });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+      return { plugin, pluginSocket, container };
+    }
+
+    it("should send the merged settings and keep them once accepted", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities([
+        "settings",
+      ]);
+      const onSettings = vi.fn((settings: { theme: string }) => {
+        if (settings.theme === "neon") throw new Error("Unknown theme");
+      });
+      pluginSocket.createMessageChannel(SETTINGS_CHANNEL, onSettings);
+
+      const update = plugin.updateSettings({ theme: "dark" });
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(update).resolves.toBeUndefined();
+      expect(onSettings).toHaveBeenCalledWith(
+        { theme: "dark", locale: "en" },
+        expect.anything(),
+      );
+
+      const rejected = plugin.updateSettings({ theme: "neon" });
+      const next = plugin.updateSettings({ locale: "de" });
+      rejected.catch(() => {});
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(rejected).rejects.toBeInstanceOf(RemoteError);
+      await expect(next).resolves.toBeUndefined();
+      // The rejected update is not part of the next one
+      expect(onSettings).toHaveBeenLastCalledWith(
+        { theme: "dark", locale: "de" },
+        expect.anything(),
+      );
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should reject updates if the plugin does not support them", async () => {
+      const { plugin, container } = await initWithCapabilities([]);
+
+      await expect(plugin.updateSettings({ theme: "dark" })).rejects.toThrow(
+        ErrorStrings.SettingsUpdatesNotSupported,
+      );
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - dynamic hooks", () => {
+    async function initWithCapabilities(capabilities: string[]) {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: { onSave: () => "saved" } },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      sendDomReady({ protocol: { version: 1, minVersion: 0, capabilities } });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+      return { plugin, pluginSocket, container };
+    }
+
+    it("should add and remove hooks and send the new names", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities([
+        "hooks",
+      ]);
+      const onHooks = vi.fn();
+      pluginSocket.createMessageChannel(HOOKS_CHANNEL, onHooks);
+
+      const update = plugin.updateHooks({
+        onShare: (note) => `shared ${note}`,
+        onSave: null,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+      await update;
+      expect(onHooks).toHaveBeenCalledWith(["onShare"], expect.anything());
+
+      const shareChannel = pluginSocket.createMessageChannel(
+        "onShare",
+        () => {},
+      );
+      const shared = shareChannel!.sendAndWait("note");
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(shared).resolves.toBe("shared note");
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should only replace hooks if the plugin does not support updates", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities(
+        [],
+      );
+
+      await expect(
+        plugin.updateHooks({ onShare: () => "shared" }),
+      ).rejects.toThrow(ErrorStrings.HookUpdatesNotSupported);
+
+      await plugin.updateHooks({ onSave: () => "saved again" });
+      const saveChannel = pluginSocket.createMessageChannel("onSave", () => {});
+      const saved = saveChannel!.sendAndWait(undefined);
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(saved).resolves.toBe("saved again");
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - events", () => {
+    async function initWithCapabilities(capabilities: string[]) {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        { container, src: "https://test-plugin.com", timeout: 5000 },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      sendDomReady({ protocol: { version: 1, minVersion: 0, capabilities } });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+      return { plugin, pluginSocket, container };
+    }
+
+    it("should exchange events without waiting for answers", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities([
+        "events",
+      ]);
+      const onEvent = vi.fn();
+      const eventChannel = pluginSocket.createMessageChannel(
+        EVENT_CHANNEL,
+        onEvent,
+      );
+      const onSelection = vi.fn();
+      plugin.subscribe("selection.*", onSelection);
+
+      plugin.emit("cursor.moved", { line: 3 });
+      eventChannel!.send({ topic: "selection.changed", payload: [0, 4] });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(onEvent).toHaveBeenCalledWith(
+        { topic: "cursor.moved", payload: { line: 3 } },
+        expect.anything(),
+      );
+      expect(onSelection).toHaveBeenCalledWith([0, 4], "selection.changed");
+
+      plugin.terminate();
+      expect(() => plugin.emit("cursor.moved")).toThrow(SocketTerminatedError);
+      body.removeChild(container);
+    });
+
+    it("should not emit events to plugins that do not support them", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities(
+        [],
+      );
+      const onEvent = vi.fn();
+      pluginSocket.createMessageChannel(EVENT_CHANNEL, onEvent);
+
+      expect(() => plugin.emit("cursor.moved", { line: 3 })).toThrow(
+        ErrorStrings.EventsNotSupported,
+      );
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(onEvent).not.toHaveBeenCalled();
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - peers", () => {
+    async function initWithCapabilities(capabilities: string[]) {
+      const container = document.createElement("div");
+      body.appendChild(container);
+      const host = new PluginManager({ peerRules: [{ from: "*", to: "*" }] });
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          id: "notes",
+          host,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { pluginSocket, sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+      );
+      sendDomReady({ protocol: { version: 1, minVersion: 0, capabilities } });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+      return { plugin, pluginSocket, container };
+    }
+
+    it("should route the plugin's messages through its host", async () => {
+      const { plugin, pluginSocket, container } = await initWithCapabilities([
+        "peers",
+      ]);
+      const onPeerMessage = vi.fn();
+      const peerChannel = pluginSocket.createMessageChannel(
+        PEER_CHANNEL,
+        onPeerMessage,
+      );
+
+      const sent = peerChannel!.sendAndWait({
+        to: "notes",
+        topic: "note.saved",
+        payload: 7,
+      });
+      const unknown = peerChannel!.sendAndWait({ to: "chart", topic: "x" });
+      unknown.catch(() => {});
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(sent).resolves.toBeUndefined();
+      await expect(unknown).rejects.toThrow(
+        "No plugin is registered with the id chart",
+      );
+      expect(onPeerMessage).toHaveBeenCalledWith(
+        { from: "notes", to: "notes", topic: "note.saved", payload: 7 },
+        expect.anything(),
+      );
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should not deliver messages to plugins that do not support them", async () => {
+      const { plugin, container } = await initWithCapabilities([]);
+
+      expect(() =>
+        plugin.deliverPeerMessage({
+          from: "chart",
+          to: "notes",
+          topic: "x",
+          payload: null,
+        }),
+      ).toThrow("The plugin does not support messages between plugins");
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - batching", () => {
+    async function initWithCapabilities(
+      capabilities: string[],
+      getCellValue: (payload: unknown) => unknown,
+    ) {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        { data: {}, settings: {}, hooks: {} },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          batch: { dedupe: ["getCellValue"] },
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["getCellValue"],
+          methodImplementations: { getCellValue },
+        },
+      );
+      sendDomReady({ protocol: { version: 1, minVersion: 0, capabilities } });
+      await vi.advanceTimersByTimeAsync(100);
+      const plugin = await pluginPromise;
+      return { plugin, container };
+    }
+
+    async function getCells(plugin: InitializedPlugin) {
+      const values = Promise.all(
+        [1, 1, 2].map((row) => plugin.methods.getCellValue({ row })),
+      );
+      await vi.advanceTimersByTimeAsync(10);
+      return values;
+    }
+
+    it("should share the answers of identical calls with plugins supporting batches", async () => {
+      const getCellValue = vi.fn((payload) => (payload as { row: number }).row);
+      const { plugin, container } = await initWithCapabilities(
+        ["batch"],
+        getCellValue,
+      );
+
+      await expect(getCells(plugin)).resolves.toEqual([1, 1, 2]);
+      expect(getCellValue).toHaveBeenCalledTimes(2);
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should send every call alone to plugins that do not support batches", async () => {
+      const getCellValue = vi.fn((payload) => (payload as { row: number }).row);
+      const { plugin, container } = await initWithCapabilities(
+        [],
+        getCellValue,
+      );
+
+      await expect(getCells(plugin)).resolves.toEqual([1, 1, 2]);
+      expect(getCellValue).toHaveBeenCalledTimes(3);
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - timeout handling", () => {
+    it("should reject with timeout error if plugin doesn't respond", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      // Don't set up plugin response - simulate timeout
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      // Track iframe for cleanup
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      // Verify iframe was created
+      expect(iframe).not.toBeNull();
+
+      // Advance time past timeout
+      vi.advanceTimersByTime(5000);
+
+      await expect(pluginPromise).rejects.toThrow(
+        "Plugin initialization failed with timeout! You can try to increase the timeout value in the plugin settings. Current value is 5000ms.",
+      );
+
+      // NOTE: The container (iframe) is removed by initPlugin on timeout
+      // This is expected behavior
+    });
+
+    it("should remove container from DOM on timeout", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 3000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      expect(iframe).not.toBeNull();
+
+      vi.advanceTimersByTime(3000);
+
+      await expect(pluginPromise).rejects.toThrow(/timeout/);
+
+      // The container (iframe) should be removed by initPlugin on timeout
+      // But check if it's still in DOM - if so, it's a bug
+      const stillExists = container.querySelector("iframe");
+      if (stillExists) {
+        // Remove it manually for cleanup
+        container.removeChild(stillExists);
+      }
+    });
+
+    it("should allow initialization without timeout", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      // No timeout specified
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        { methods: [] },
+      );
+
+      // Even after long time, should work
+      vi.advanceTimersByTime(10000);
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+      expect(plugin).toBeDefined();
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+  });
+
+  describe("initPlugin - error handling", () => {
+    it("should reject if plugin returns string instead of method list", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      // Immediately attach catch handler to prevent unhandled rejection
+      pluginPromise.catch(() => {});
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const pluginSocket = new PostMessageSocket(
+        iframe.contentWindow as Window,
+        window,
+      );
+      createdSockets.add(pluginSocket);
+
+      const domReadyChannel = pluginSocket.createMessageChannel(
+        "domReady",
+        () => {},
+      );
+      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
+        once: true,
+      });
+      // Return string instead of array
+      pluginSocket.createMessageChannel("init", () => ResultStrings.Success);
+
+      domReadyChannel?.send({});
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Catch the rejection to prevent unhandled promise rejection
+      try {
+        await pluginPromise;
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).message).toBe(
+          "Plugin did not return method list",
+        );
+      }
+
+      // Verify cleanup happened - iframe should be removed
+      const stillExists = container.querySelector("iframe");
+      if (stillExists) {
+        container.removeChild(stillExists);
+      }
+    });
+
+    it("should handle errors thrown during initialization", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      // Immediately attach catch handler to prevent unhandled rejection
+      pluginPromise.catch(() => {});
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const pluginSocket = new PostMessageSocket(
+        iframe.contentWindow as Window,
+        window,
+      );
+      createdSockets.add(pluginSocket);
+
+      const domReadyChannel = pluginSocket.createMessageChannel(
+        "domReady",
+        () => {},
+      );
+      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
+        once: true,
+      });
+      pluginSocket.createMessageChannel("init", () => {
+        throw new Error("Init failed!");
+      });
+
+      domReadyChannel?.send({});
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Catch the rejection to prevent unhandled promise rejection
+      try {
+        await pluginPromise;
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        // The plugin's init error is propagated as a RemoteError
+        expect(error).toBeInstanceOf(RemoteError);
+        expect((error as Error).message).toBe("Init failed!");
+      }
+
+      // Cleanup if still exists
+      const stillExists = container.querySelector("iframe");
+      if (stillExists) {
+        container.removeChild(stillExists);
+      }
+    });
+
+    it("should cleanup and remove container on error", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      // Immediately attach catch handler to prevent unhandled rejection
+      pluginPromise.catch(() => {});
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+      expect(iframe).not.toBeNull();
+
+      // Create plugin socket manually (don't use setupPluginResponse helper)
+      const pluginSocket = new PostMessageSocket(
+        iframe.contentWindow as Window,
+        window,
+      );
+      createdSockets.add(pluginSocket);
+
+      const domReadyChannel = pluginSocket.createMessageChannel(
+        "domReady",
+        () => {},
+      );
+      pluginSocket.createMessageChannel("handshakeComplete", () => {}, {
+        once: true,
+      });
+      // Return string instead of array to trigger error
+      pluginSocket.createMessageChannel("init", () => ResultStrings.Success);
+
+      domReadyChannel?.send({});
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Catch the rejection to prevent unhandled promise rejection
+      try {
+        await pluginPromise;
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).message).toBe(
+          "Plugin did not return method list",
+        );
+      }
+
+      // Verify iframe was removed (or clean it up)
+      const stillExists = container.querySelector("iframe");
+      if (stillExists) {
+        container.removeChild(stillExists);
+      }
+    });
+  });
+
+  describe("initPlugin - method proxying", () => {
+    it("should correctly proxy async method calls with payloads", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const calculateMock = vi.fn((payload: { a: number; b: number }) => {
+        return payload.a + payload.b;
+      });
+      const transformMock = vi.fn((payload: { text: string }) => {
+        return { result: payload.text.toUpperCase() };
+      });
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["calculate", "transform"],
+          methodImplementations: {
+            calculate: calculateMock,
+            transform: transformMock,
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      // Test calculate
       const calcPromise = plugin.methods.calculate({ a: 5, b: 3 });
       await vi.advanceTimersByTimeAsync(10);
       const calcResult = await calcPromise;
-      expect(calculateMock).toHaveBeenCalledWith({ a: 5, b: 3 });
+      expect(calculateMock).toHaveBeenCalledWith(
+        { a: 5, b: 3 },
+        expect.anything(),
+      );
       expect(calcResult).toBe(8);
 
       // Test transform
       const transformPromise = plugin.methods.transform({ text: "hello" });
       await vi.advanceTimersByTimeAsync(10);
       const transformResult = await transformPromise;
-      expect(transformMock).toHaveBeenCalledWith({ text: "hello" });
+      expect(transformMock).toHaveBeenCalledWith(
+        { text: "hello" },
+        expect.anything(),
+      );
       expect(transformResult).toEqual({ result: "HELLO" });
 
+      plugin.terminate();
+      body.removeChild(container);
+    });
+    it("should type methods, payloads and results with a plugin contract", async () => {
+      type Calculator = PluginContract<{
+        methods: {
+          add: (payload: { a: number; b: number }) => number;
+          reset: () => void;
+        };
+        hooks: { onResult: (result: number) => { logged: boolean } };
+        data: { precision: number };
+        settings: { locale: string };
+      }>;
+
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const onResult = vi.fn((result: number) => ({ logged: result > 0 }));
+      const pluginPromise = createInitPlugin<Calculator>(
+        {
+          data: { precision: 2 },
+          settings: { locale: "en" },
+          hooks: { onResult },
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["add", "reset"],
+          methodImplementations: {
+            add: (payload) => {
+              const { a, b } = payload as { a: number; b: number };
+              return a + b;
+            },
+            reset: () => undefined,
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      expectTypeOf(plugin.methods.add)
+        .parameter(0)
+        .toEqualTypeOf<{ a: number; b: number }>();
+      expectTypeOf(plugin.methods.add).returns.toEqualTypeOf<Promise<number>>();
+      expectTypeOf(plugin.methods).not.toHaveProperty("subtract");
+
+      const sumPromise = plugin.methods.add({ a: 2, b: 3 });
+      await vi.advanceTimersByTimeAsync(10);
+      expect(await sumPromise).toBe(5);
+
+      // Methods without a payload can be called without arguments
+      const resetPromise = plugin.methods.reset();
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(resetPromise).resolves.toBeUndefined();
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should reject with a RemoteError when the plugin method throws", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["load"],
+          methodImplementations: {
+            load: () => {
+              throw Object.assign(new TypeError("Note not found"), {
+                code: 404,
+              });
+            },
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      const loadPromise = plugin.methods.load("missing");
+      const caught = loadPromise.catch((error) => error);
+      await vi.advanceTimersByTimeAsync(10);
+
+      const error = await caught;
+      expect(error).toBeInstanceOf(RemoteError);
+      expect(error).toMatchObject({
+        message: "Note not found",
+        remoteName: "TypeError",
+        code: 404,
+      });
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should cancel method calls through an AbortSignal", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const uploadAborted = vi.fn();
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["upload"],
+          methodImplementations: {
+            upload: (_payload, context) => {
+              (context as CallContext).signal.addEventListener(
+                "abort",
+                uploadAborted,
+              );
+              return new Promise(() => {});
+            },
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      const controller = new AbortController();
+      const uploadPromise = plugin.methods.upload("file", {
+        signal: controller.signal,
+      });
+      const caught = uploadPromise.catch((error) => error);
+      await vi.advanceTimersByTimeAsync(10);
+
+      controller.abort();
+      expect((await caught).name).toBe("AbortError");
+
+      await vi.advanceTimersByTimeAsync(10);
+      expect(uploadAborted).toHaveBeenCalledTimes(1);
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should stream the chunks of generator methods", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["exportRows"],
+          methodImplementations: {
+            exportRows: async function* (payload) {
+              yield `${payload}:1`;
+              yield `${payload}:2`;
+            },
+          },
+        },
+      );
+
+      sendDomReady({ protocol: createProtocolInfo() });
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      const rows: unknown[] = [];
+      const consumed = (async () => {
+        for await (const row of plugin.stream("exportRows", "csv")) {
+          rows.push(row);
+        }
+      })();
+      await vi.advanceTimersByTimeAsync(100);
+      await consumed;
+
+      expect(rows).toEqual(["csv:1", "csv:2"]);
+      expect(() => plugin.stream("unknown")).toThrow(
+        `${ErrorStrings.NoMessageChannel} unknown`,
+      );
+
+      plugin.terminate();
+      body.removeChild(container);
+    });
+
+    it("should reject method calls that exceed callTimeout with a TimeoutError", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+          callTimeout: 1000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["freeze"],
+          methodImplementations: {
+            // Never settles, like a plugin whose main thread is stuck
+            freeze: () => new Promise(() => {}),
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      const freezePromise = plugin.methods.freeze();
+      const assertion =
+        expect(freezePromise).rejects.toBeInstanceOf(TimeoutError);
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+
       plugin.terminate();
       body.removeChild(container);
     });
@@ -865,6 +2540,52 @@ describe("initPlugin", () => {
   });
 
   describe("initPlugin - edge cases", () => {
+    it("should reject in-flight method calls when terminated", async () => {
+      const container = document.createElement("div");
+      body.appendChild(container);
+
+      const pluginPromise = createInitPlugin(
+        {
+          data: {},
+          settings: {},
+          hooks: {},
+        },
+        {
+          container,
+          src: "https://test-plugin.com",
+          timeout: 5000,
+        },
+      );
+
+      const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+      createdIframes.add(iframe);
+      applyEventFixes(iframe);
+
+      const { sendDomReady } = setupPluginResponse(
+        iframe.contentWindow as Window,
+        window,
+        {
+          methods: ["slowMethod"],
+          methodImplementations: {
+            slowMethod: () => new Promise(() => {}),
+          },
+        },
+      );
+
+      sendDomReady();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const plugin = await pluginPromise;
+
+      const pending = plugin.methods.slowMethod({});
+      await vi.advanceTimersByTimeAsync(10);
+      plugin.terminate();
+
+      await expect(pending).rejects.toBeInstanceOf(SocketTerminatedError);
+
+      body.removeChild(container);
+    });
+
     it("should handle when creating method channel fails during method call (line 269)", async () => {
       const container = document.createElement("div");
       body.appendChild(container);
@@ -906,8 +2627,8 @@ describe("initPlugin", () => {
       plugin.terminate();
 
       // Try to call a method after termination - should throw
-      await expect(plugin.methods.testMethod({})).rejects.toThrow(
-        "Failed to create message channel for method: testMethod",
+      await expect(plugin.methods.testMethod({})).rejects.toBeInstanceOf(
+        SocketTerminatedError,
       );
 
       body.removeChild(container);
@@ -1,12 +1,66 @@
 import PostMessageSocket from "./postMessageSocket";
+import { LifecycleEvents, createCallTracker } from "./events";
+import { startHeartbeat } from "./heartbeat";
+import { StateStore, isStateData } from "./state";
+import { mergeSettings } from "./settings";
+import { diffHookNames } from "./hooks";
+import { TopicEvents, isTopicEvent } from "./topics";
+import { isPeerRequest } from "./peers";
+import { rejectProxies } from "./proxy";
+import {
+  DOM_READY_CHANNEL,
+  EVENT_CHANNEL,
+  HOOKS_CHANNEL,
+  INIT_CHANNEL,
+  PEER_CHANNEL,
+  REJECT_CHANNEL,
+  SETTINGS_CHANNEL,
+  STATE_CHANNEL,
+} from "./channels";
+import { WindowTransport } from "./transport";
+import {
+  PluginReloadedError,
+  SocketTerminatedError,
+  serializeError,
+} from "./errors";
+import { getOriginOfUrl } from "./origin";
+import { defaultPluginManager } from "./pluginManager";
+import { withRemoteSchema, withSchema, withStreamSchemas } from "./schema";
+import {
+  createProtocolFeatures,
+  createProtocolInfo,
+  negotiateProtocol,
+  readProtocolInfo,
+} from "./protocol";
+import { ErrorStrings } from "./types/index";
 import type {
+  CallOptions,
+  DefaultContract,
+  HookUpdates,
   Method,
+  Methods,
+  NegotiatedProtocol,
+  PluginContractShape,
+  ProtocolInfo,
+  RemoteMethod,
+  RemoteStream,
+  StreamOptions,
   PluginConfig,
   WindowConfig,
   IframeOptions,
   InitializedPlugin,
+  Message,
+  PluginLifecycleEvents,
+  PeerMessage,
+  PeerRouter,
+  StatePatch,
+  TopicEmitter,
+  TopicEvent,
 } from "./types/index";
 
+/** Milliseconds a rejected plugin has to confirm it learned why, before it is removed */
+const REJECTION_TIMEOUT = 1000;
+
 /**
  * Creates an iframe element and initializes a plugin within it.
  * This is a high-level convenience function that handles DOM creation and delegates
@@ -20,10 +74,28 @@ import type {
  * @param options - Iframe creation options
  * @param options.container - DOM element where the iframe will be appended
  * @param options.src - URL of the plugin to load in the iframe
+ * @param options.id - Optional id of the plugin within its host, generated if missing
+ * @param options.host - Optional host the plugin is registered with once it is initialized,
+ *   defaults to defaultPluginManager
  * @param options.beforeInit - Optional callback invoked before appending iframe to DOM
  * @param options.timeout - Optional timeout in milliseconds for plugin initialization
+ * @param options.callTimeout - Optional default timeout in milliseconds for every method call
+ * @param options.schemas - Optional schemas validating the payloads and results of methods and hooks
+ * @param options.minProtocolVersion - Optional oldest protocol version of the plugin to accept
+ * @param options.codec - Optional codec converting payloads, the plugin must use a matching one
+ * @param options.stateConflict - Optional policy resolving conflicting writes of the shared state
+ * @param options.batch - Optional batching of the method calls made in quick succession
+ * @param options.heartbeat - Optional heartbeat detecting a hung plugin, reloads the iframe
+ *   when the plugin is unresponsive if `onUnresponsive` is "reload"
+ * @param options.listeners - Optional handlers of lifecycle events, see PluginLifecycleEvents
+ * @param options.allowedOrigins - Optional origins (exact, wildcard patterns or a predicate)
+ *   the plugin's messages are accepted from, defaults to the target origin
+ * @param options.targetOrigin - Optional origin messages are sent to, defaults to the origin of `src`
+ * @param destroy - Optional removal of the plugin by its host, like destroy() of inline and
+ *   fullscreen plugins. Defaults to terminating the plugin and removing the iframe.
  *
  * @returns Promise that resolves with the plugin interface containing methods and terminate function
+ * @throws {Error} If another plugin of the host has the id
  * @see InitializedPlugin
  *
  * @example
@@ -54,10 +126,34 @@ import type {
  * plugin.terminate();
  * ```
  */
-export function createInitPlugin(
-  { data, settings, hooks = {} }: PluginConfig,
-  { container, src, beforeInit, timeout }: IframeOptions,
-): Promise<InitializedPlugin> {
+export function createInitPlugin<
+  C extends PluginContractShape = DefaultContract,
+>(
+  { data, settings, hooks }: PluginConfig<C>,
+  {
+    container,
+    src,
+    id,
+    host = defaultPluginManager,
+    beforeInit,
+    timeout,
+    callTimeout,
+    schemas,
+    minProtocolVersion,
+    codec,
+    stateConflict,
+    batch,
+    allowedOrigins,
+    targetOrigin,
+    heartbeat,
+    listeners,
+  }: IframeOptions,
+  destroy?: () => void | Promise<void>,
+): Promise<InitializedPlugin<C>> {
+  if (id !== undefined && host.get(id)) {
+    return Promise.reject(new Error(`${ErrorStrings.PluginIdTaken} ${id}`));
+  }
+
   const pluginIframe = document.createElement("iframe");
 
   // Set up the basic styles for the iframe
@@ -85,15 +181,52 @@ export function createInitPlugin(
     return Promise.reject(new Error("Failed to access iframe contentWindow"));
   }
 
-  return initPlugin(
+  const pluginPromise = initPlugin<C>(
     { data, settings, hooks },
     {
       currentWindow: window,
       targetWindow: contentWindow,
       timeout,
+      callTimeout,
+      schemas,
+      minProtocolVersion,
+      codec,
+      stateConflict,
+      batch,
       container,
+      allowedOrigins,
+      // The new iframe still shows about:blank, its origin is only known from src
+      targetOrigin: targetOrigin ?? getOriginOfUrl(src),
+      heartbeat,
+      listeners,
     },
   );
+  return pluginPromise.then((plugin) => {
+    if (heartbeat?.onUnresponsive === "reload") {
+      // The reloaded document reconnects, destroying is up to the caller owning the container
+      plugin.on("unresponsive", () => {
+        pluginIframe.src = src;
+      });
+    }
+    const removePlugin = () => {
+      plugin.terminate();
+      pluginIframe.remove();
+    };
+    try {
+      host.register({
+        id,
+        src,
+        container,
+        plugin,
+        destroy: destroy ?? removePlugin,
+      });
+    } catch (error) {
+      // Another plugin took the id during the initialization
+      removePlugin();
+      throw error;
+    }
+    return plugin;
+  });
 }
 
 /**
@@ -103,12 +236,102 @@ export function createInitPlugin(
  *
  * ## Initialization Protocol
  * 1. Creates PostMessageSocket between parent and plugin windows
- * 2. Waits for plugin to send "domReady" signal
- * 3. Registers parent callback channels (so plugin can call them immediately)
- * 4. Sends "init" message with data, settings, and callback names
- * 5. Receives list of method names from plugin
- * 6. Creates async wrapper functions for each method
- * 7. Returns interface with methods and terminate function
+ * 2. Waits for plugin to send "domReady" signal with its protocol version and capabilities
+ * 3. Checks the plugin's protocol version (see Protocol Versions below)
+ * 4. Registers parent callback channels (so plugin can call them immediately)
+ * 5. Sends "init" message with data, settings, callback names, its protocol and a private MessagePort
+ * 6. Receives list of method names from plugin, through the port if the plugin took it
+ * 7. Creates async wrapper functions for each method
+ * 8. Returns interface with methods, feature detection, lifecycle events and terminate function
+ *
+ * ## Protocol Versions
+ * Both sides announce their protocol version, the oldest version of the other side they
+ * accept and their capabilities. Plugins of releases without versioning announce nothing
+ * and count as version 0. If either side rejects the other's version, the initialization
+ * rejects: with a ProtocolVersionError if the parent rejects the plugin (`minProtocolVersion`),
+ * with a RemoteError with code "INCOMPATIBLE_PROTOCOL" if the plugin rejects the parent.
+ * The resolved plugin exposes `protocolVersion` and `supports(capability)`:
+ *
+ * ```typescript
+ * if (plugin.supports('stream')) {
+ *   for await (const row of plugin.stream('exportRows')) file.write(row);
+ * } else {
+ *   file.write(await plugin.methods.exportAll());
+ * }
+ * ```
+ *
+ * ## Private Port
+ * A plugin that takes the port offered in the init message moves all later traffic to it,
+ * so it is isolated from other plugins and from unrelated message listeners of the page.
+ * Plugins that ignore the port keep talking through window.postMessage.
+ *
+ * ## Reconnection
+ * When the iframe reloads or navigates, the new document announces itself with another
+ * "domReady". The handshake is repeated with the same data, settings and hooks, the
+ * `methods` object is updated in place and a "reconnected" event is emitted with the new
+ * method names. A failed reconnection keeps the plugin and emits an "error" event, it is
+ * logged if nothing handles that.
+ * Calls in flight during the reload are not answered by the new document.
+ *
+ * ## Shared State
+ * `state` starts with the data passed to the plugin, if that is a plain object. Both sides
+ * can write keys; the changed keys are sent to the other side and reported to the
+ * subscribers of both. A plugin write that crosses a parent write to the same key is
+ * resolved by `stateConflict`: "last-write-wins" (default) keeps the plugin's write,
+ * "host-wins" undoes it and a function returns the value both sides continue with.
+ * A reloaded plugin is initialized with the current values. Plugins of releases without
+ * the "state" capability only get the data, changes stay on the parent side.
+ *
+ * ```typescript
+ * plugin.state.subscribe(({ key, value, source }) => {
+ *   if (source === 'remote') console.log(`The plugin changed ${key} to`, value);
+ * });
+ * plugin.state.set('note', { ...note, title: 'Renamed' });
+ * ```
+ *
+ * ## Settings Updates
+ * `updateSettings(partial)` sends new settings to the running plugin, e.g. a theme or
+ * locale change, without reloading it. Object settings are merged shallowly, others are
+ * replaced. The plugin's validator checks them first; if it throws, the update rejects
+ * with a RemoteError and both sides keep the previous settings. Updates are applied in
+ * the order of the calls, and a reloaded plugin is initialized with the latest settings.
+ * Plugins of releases without the "settings" capability reject every update.
+ *
+ * ```typescript
+ * darkModeToggle.onchange = () =>
+ *   plugin.updateSettings({ theme: darkModeToggle.checked ? 'dark' : 'light' });
+ * ```
+ *
+ * ## Events
+ * `emit(topic, payload)` sends an event to the plugin without waiting for an answer,
+ * for updates that need no acknowledgement like cursor positions or telemetry.
+ * `subscribe(pattern, handler)` handles the plugin's events, `*` in patterns stands for
+ * one topic segment and `**` for any number of them. Events are not queued: an event
+ * arrives only if the other side subscribed to its topic by then. Emitting to a plugin
+ * of a release without the "events" capability throws.
+ *
+ * ```typescript
+ * plugin.subscribe('selection.*', (selection, topic) => toolbar.update(topic, selection));
+ * editor.onCursorMove((position) => plugin.emit('cursor.moved', position));
+ * ```
+ *
+ * ## Batching
+ * With the `batch` option, the method calls and hook answers made within a microtask
+ * (or a frame with `{ flush: "frame" }`) leave in one message, and calls identical to
+ * one still waiting for its answer (same method, equal JSON payload, no signal or
+ * transfer list) share that answer. It suits grids and charts calling a method for
+ * every cell. Plugins of releases without the "batch" capability get every call alone.
+ *
+ * ```typescript
+ * const plugin = await initPlugin(config, { ...windowConfig, batch: true });
+ * const values = await Promise.all(cells.map((cell) => plugin.methods.getCellValue(cell)));
+ * ```
+ *
+ * ## Heartbeat
+ * With the `heartbeat` option the parent pings the plugin every `interval` milliseconds
+ * once it is initialized. After `maxMissed` pings in a row without an answer (hung
+ * JavaScript thread, removed or crashed iframe) an "unresponsive" event is emitted.
+ * Plugins of releases without the "heartbeat" capability are not pinged.
  *
  * ## Timeout Behavior
  * If timeout is provided and plugin doesn't respond in time:
@@ -121,9 +344,40 @@ export function createInitPlugin(
  * - Creates a message channel for that method
  * - Sends the payload via PostMessageSocket
  * - Waits for and returns the response
+ * - Rejects with a TimeoutError if the plugin does not answer within the call's
+ *   `timeout` option (or `callTimeout` when the call sets none)
+ * - Rejects with a SocketTerminatedError if terminate() is called before the
+ *   answer arrives, or if the method is called after terminate()
+ * - Rejects with a RemoteError carrying name, message, code, stack and data
+ *   if the plugin's method throws
+ * - Accepts an AbortSignal in its options; aborting rejects the call and aborts
+ *   the signal the plugin's method received
+ * - Accepts a `transfer` list in its options (or payload values marked with
+ *   transfer()) to move ArrayBuffers, ImageBitmaps, ports etc. instead of cloning them
+ *
+ * ## Streaming
+ * `stream(name, payload, options)` calls a plugin method and returns an async iterator
+ * over the chunks it yields, for methods implemented as (async) generators.
+ * Breaking out of the loop or aborting the signal stops the plugin's generator.
+ * Plugins of releases without the "stream" capability cannot be streamed from.
  *
- * ## Special Methods
- * - `updateParentCallbacks`: Intercepts and processes callback updates before sending to plugin
+ * ## Typed Contracts
+ * With a {@link PluginContract} as type argument, `methods`, `stream` and `hooks` are typed
+ * by the contract instead of taking and returning `unknown`.
+ *
+ * ## Dynamic Hooks
+ * `updateHooks(hooks)` adds and replaces hooks, and removes those set to null. A replaced
+ * hook answers the plugin's next call. Added and removed hooks are sent to the plugin,
+ * whose `hooks` object is updated in place; the promise resolves once it is. Calls the
+ * plugin made to a removed hook before are still answered. Plugins of releases without
+ * the "hooks" capability only accept replaced hooks, other updates reject.
+ *
+ * ```typescript
+ * await plugin.updateHooks({
+ *   onShare: async (note) => shareDialog.open(note),
+ *   onSave: null,
+ * });
+ * ```
  *
  * @param config - Plugin initialization configuration
  * @param config.data - Initial data to pass to the plugin
@@ -134,7 +388,21 @@ export function createInitPlugin(
  * @param windowConfig.currentWindow - The parent window that will communicate with the plugin
  * @param windowConfig.targetWindow - The plugin's window (usually iframe.contentWindow)
  * @param windowConfig.timeout - Optional timeout in milliseconds (null = no timeout)
+ * @param windowConfig.callTimeout - Optional default timeout in milliseconds for every method call
+ * @param windowConfig.schemas - Optional schemas validating the payloads and results of methods and hooks
+ * @param windowConfig.minProtocolVersion - Optional oldest protocol version of the plugin to accept
+ * @param windowConfig.codec - Optional codec converting payloads, the plugin must use a matching one
+ * @param windowConfig.stateConflict - Optional policy resolving conflicting writes of the
+ *   shared state, see Shared State below
+ * @param windowConfig.batch - Optional batching of the method calls made in quick succession,
+ *   see Batching below
  * @param windowConfig.container - Optional container element to remove on timeout
+ * @param windowConfig.heartbeat - Optional heartbeat detecting a hung plugin, see Heartbeat below
+ * @param windowConfig.listeners - Optional handlers of lifecycle events, see PluginLifecycleEvents
+ * @param windowConfig.allowedOrigins - Optional origins (exact, wildcard patterns or a predicate)
+ *   the plugin's messages are accepted from, defaults to the target origin
+ * @param windowConfig.targetOrigin - Optional origin messages are sent to,
+ *   defaults to the origin of targetWindow
  *
  * @returns Promise resolving to plugin interface with methods and terminate function
  * @throws {Error} If initialization times out
@@ -170,18 +438,260 @@ export function createInitPlugin(
  * const data = await plugin.methods.getData();
  * await plugin.methods.updateContent({ text: 'Hello' });
  *
+ * // Stream the results of a generator method
+ * for await (const row of plugin.stream('exportRows', { format: 'csv' })) {
+ *   file.write(row);
+ * }
+ *
  * // Cleanup
  * plugin.terminate();
  * ```
  */
-export function initPlugin(
-  { data, settings, hooks = {} }: PluginConfig,
-  { currentWindow, targetWindow, timeout, container }: WindowConfig,
-): Promise<InitializedPlugin> {
-  const messageSocket = new PostMessageSocket(currentWindow, targetWindow);
+export function initPlugin<C extends PluginContractShape = DefaultContract>(
+  { data, settings, hooks: contractHooks }: PluginConfig<C>,
+  {
+    currentWindow,
+    targetWindow,
+    timeout,
+    callTimeout,
+    container,
+    schemas = {},
+    minProtocolVersion,
+    codec,
+    stateConflict,
+    batch,
+    allowedOrigins,
+    targetOrigin,
+    heartbeat,
+    listeners,
+  }: WindowConfig,
+): Promise<InitializedPlugin<C>> {
+  // The contract only types the API, at runtime hooks are plain methods.
+  // Copied, updateHooks() changes it.
+  const hooks: Methods = { ...(contractHooks as Methods) };
+  // Once the plugin moved to the private port, the window only carries the
+  // domReady of a reloaded plugin document. Created before the socket, so nothing
+  // is left listening if it throws for a missing target origin.
+  const announcements = new WindowTransport(currentWindow, targetWindow, {
+    allowedOrigins,
+    targetOrigin,
+  });
+  const messageSocket = new PostMessageSocket(
+    currentWindow,
+    targetWindow,
+    undefined,
+    { timeout: callTimeout, codec, allowedOrigins, targetOrigin },
+  );
+  const events = new LifecycleEvents<PluginLifecycleEvents>();
+  events.addListeners(listeners);
+  const trackCalls = createCallTracker(events);
+  const state = new StateStore(
+    "host",
+    isStateData(data) ? data : {},
+    [],
+    stateConflict,
+  );
+  const stateChannel = messageSocket.createMessageChannel<StatePatch, void>(
+    STATE_CHANNEL,
+    (patch) => state.receive(patch),
+  );
+  // The plugin answers settings updates, the parent never receives any
+  const settingsChannel = messageSocket.createMessageChannel<unknown, void>(
+    SETTINGS_CHANNEL,
+  );
+  // The settings the plugin accepted last, sent again to a reloaded plugin
+  let currentSettings: unknown = settings;
+  // The plugin answers changes of the hook names, the parent never receives any
+  const hooksChannel = messageSocket.createMessageChannel<string[], void>(
+    HOOKS_CHANNEL,
+  );
+  const topics = new TopicEvents();
+  // The socket was just created, so it returns the channels
+  const eventChannel = messageSocket.createMessageChannel<TopicEvent, void>(
+    EVENT_CHANNEL,
+    (event) => {
+      if (isTopicEvent(event)) {
+        topics.dispatch(event.topic, event.payload);
+      }
+    },
+  )!;
+  // Set by the host the plugin is registered with
+  let peerRouter: PeerRouter | null = null;
+  const peerChannel = messageSocket.createMessageChannel<
+    Omit<PeerMessage, "from">,
+    void
+  >(PEER_CHANNEL, async (request) => {
+    if (!isPeerRequest(request)) {
+      throw new Error(ErrorStrings.WrongMessagePayload);
+    }
+    if (!peerRouter) {
+      throw new Error(ErrorStrings.NoPeerRouter);
+    }
+    const { to, topic, payload } = request;
+    await peerRouter({ to, topic, payload });
+  })!;
 
   return new Promise((resolve, reject) => {
+    // The socket's own window listener comes first while it is on the window,
+    // so the announcements listener only hears what it misses
+    let stopWatching = watchAnnouncements();
+
+    function watchAnnouncements() {
+      return announcements.subscribe((data) => {
+        if (!isDomReady(data)) return;
+        // The port of the unloaded document is dead, talk through the window
+        // until the new document takes a new port
+        messageSocket.useTransport(
+          new WindowTransport(currentWindow, targetWindow, {
+            allowedOrigins,
+            targetOrigin,
+          }),
+        );
+        // Stay behind the socket's new window listener
+        stopWatching();
+        stopWatching = watchAnnouncements();
+        // Not decoded by the socket, a payload failing to decode fails the handshake
+        onDomReady(() => (codec ? codec.decode(data.payload) : data.payload));
+      });
+    }
+
+    let stopHeartbeat = () => {};
+    let isTerminated = false;
+    function terminate() {
+      stopHeartbeat();
+      state.destroy();
+      topics.clear();
+      peerRouter = null;
+      stopWatching();
+      announcements.close();
+      messageSocket.terminate();
+      if (!isTerminated) {
+        isTerminated = true;
+        events.emit("destroyed", undefined);
+        events.clear();
+      }
+    }
+
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    // Set by the first completed handshake
+    let plugin: InitializedPlugin | null = null;
+    // Every domReady starts a handshake, only the latest one may complete
+    let handshakeCount = 0;
+    // Method names of the currently loaded plugin document
+    let methodNames: string[] = [];
+    const methods: Record<string, RemoteMethod> = {};
+    let features = createProtocolFeatures({ version: 0, capabilities: [] });
+    // Removes the check keeping proxies from a plugin without the capability
+    let allowProxies = () => {};
+    // Updates are sent one after another, each merged into the previous one
+    let settingsUpdates: Promise<void> = Promise.resolve();
+
+    /**
+     * Sends the merged settings to the plugin once the previous update is settled,
+     * and keeps them once the plugin accepted them
+     */
+    function updateSettings(update: unknown) {
+      const result = settingsUpdates.then(async () => {
+        if (isTerminated || !settingsChannel) {
+          throw new SocketTerminatedError();
+        }
+        if (!features.supports("settings")) {
+          throw new Error(ErrorStrings.SettingsUpdatesNotSupported);
+        }
+        const next = mergeSettings(currentSettings, update);
+        await settingsChannel.sendAndWait(next);
+        currentSettings = next;
+      });
+      settingsUpdates = result.catch(() => {});
+      return result;
+    }
+
+    const emit: TopicEmitter = (topic, payload, options) => {
+      if (isTerminated) {
+        throw new SocketTerminatedError();
+      }
+      // Plugins without the capability have no channel to receive events on
+      if (!features.supports("events")) {
+        throw new Error(ErrorStrings.EventsNotSupported);
+      }
+      eventChannel.send({ topic, payload }, options);
+    };
+
+    function deliverPeerMessage(message: PeerMessage) {
+      if (isTerminated) {
+        throw new SocketTerminatedError();
+      }
+      if (!features.supports("peers")) {
+        throw new Error(ErrorStrings.PeerMessagesNotSupported);
+      }
+      peerChannel.send(message);
+    }
+
+    // Listeners of the hook channels, so a replaced hook's listener can be removed
+    const hookListeners: Map<string, Method> = new Map();
+
+    /**
+     * Registers the channel of a hook, replacing the listener of a previous implementation
+     */
+    function registerHook(name: string) {
+      unregisterHook(name);
+      const listener = withSchema(name, hooks[name], schemas.hooks?.[name]);
+      hookListeners.set(name, listener);
+      messageSocket.createMessageChannel(name, listener);
+    }
+
+    function unregisterHook(name: string) {
+      const listener = hookListeners.get(name);
+      if (listener) {
+        messageSocket.removeListener(name, listener);
+        hookListeners.delete(name);
+      }
+    }
+
+    /**
+     * Adds, replaces and removes hooks, and tells the plugin about added and removed ones
+     */
+    async function updateHooks(updates: HookUpdates) {
+      if (isTerminated || !hooksChannel) {
+        throw new SocketTerminatedError();
+      }
+      const entries = Object.entries(
+        updates as Record<string, Method | null | undefined>,
+      ).filter(([, hook]) => hook !== undefined);
+      const next: Methods = { ...hooks };
+      entries.forEach(([name, hook]) => {
+        if (hook) {
+          next[name] = hook;
+        } else {
+          delete next[name];
+        }
+      });
+      const { added, removed } = diffHookNames(
+        Object.keys(hooks),
+        Object.keys(next),
+      );
+      const changesNames = added.length > 0 || removed.length > 0;
+      if (changesNames && !features.supports("hooks")) {
+        throw new Error(ErrorStrings.HookUpdatesNotSupported);
+      }
+
+      entries.forEach(([name, hook]) => {
+        if (hook) {
+          hooks[name] = hook;
+          registerHook(name);
+        } else {
+          delete hooks[name];
+        }
+      });
+      if (!changesNames) return;
+
+      await hooksChannel.sendAndWait(Object.keys(hooks));
+      // Calls the plugin made before it confirmed the list are answered, later
+      // ones cannot be made. A hook added again in the meantime keeps its channel.
+      removed
+        .filter((name) => !Object.hasOwn(hooks, name))
+        .forEach(unregisterHook);
+    }
 
     /**
      * Cleanup helper function to ensure all resources are properly released.
@@ -192,17 +702,20 @@ export function initPlugin(
         clearTimeout(timeoutId);
         timeoutId = null;
       }
-      messageSocket.terminate();
+      terminate();
       if (error && container?.parentNode) {
         container.remove();
       }
     }
 
-    // Set up listener for domReady message from plugin
-    messageSocket.createMessageChannel("domReady", onDomReady, { once: true });
+    // Set up listener for domReady messages from plugin, sent again by reloaded documents
+    messageSocket.createMessageChannel(DOM_READY_CHANNEL, (payload) =>
+      onDomReady(() => payload),
+    );
 
     if (timeout) {
       timeoutId = setTimeout(() => {
+        events.emit("timeout", { timeout });
         cleanup();
         if (container?.parentNode) {
           container.remove();
@@ -216,64 +729,197 @@ export function initPlugin(
     }
 
     /**
-     * Handles the domReady signal from the plugin.
-     * Sends initialization data and creates method proxies.
+     * Creates the async wrapper calling a plugin method
      */
-    async function onDomReady() {
+    function createRemoteMethod(type: string): RemoteMethod {
+      const remoteMethod = async (payload?: unknown, options?: CallOptions) => {
+        // Create a channel for each method call
+        const methodChannel = messageSocket.createMessageChannel<
+          unknown,
+          unknown
+        >(type);
+
+        // The socket only refuses new channels once it is terminated
+        if (!methodChannel) {
+          throw new SocketTerminatedError();
+        }
+
+        return await methodChannel.sendAndWait(payload, options);
+      };
+      return trackCalls(
+        type,
+        withRemoteSchema(type, remoteMethod, schemas.methods?.[type]),
+      );
+    }
+
+    /**
+     * Updates the methods object in place to the method list of the loaded document,
+     * so references to it and to its wrappers stay valid across reconnections
+     */
+    function updateMethods(names: string[]) {
+      Object.keys(methods)
+        .filter((name) => !names.includes(name))
+        .forEach((name) => delete methods[name]);
+      names.forEach((name) => {
+        methods[name] ??= createRemoteMethod(name);
+      });
+      methodNames = names;
+    }
+
+    const stream: RemoteStream = withStreamSchemas(
+      (name: string, payload?: unknown, options?: StreamOptions) => {
+        if (!methodNames.includes(name)) {
+          throw new Error(`${ErrorStrings.NoMessageChannel} ${name}`);
+        }
+        if (!features.supports("stream")) {
+          throw new Error(ErrorStrings.StreamsNotSupported);
+        }
+        const methodChannel = messageSocket.createMessageChannel<
+          unknown,
+          unknown
+        >(name);
+        if (!methodChannel) {
+          throw new SocketTerminatedError();
+        }
+        return methodChannel.stream(payload, options);
+      },
+      schemas.methods,
+    );
+
+    /**
+     * Handles the domReady signal from the plugin, the first one or one of a
+     * reloaded plugin document. Sends initialization data and creates method proxies.
+     *
+     * @param readPayload - Returns the payload of the signal, throws if it cannot be decoded
+     */
+    async function onDomReady(readPayload: () => unknown) {
+      const handshake = ++handshakeCount;
+      const isReconnection = plugin !== null;
+      // A reloaded document may not unpack batches, the handshake tells again
+      messageSocket.setBatching(false);
+      if (isReconnection) {
+        // The previous document never answers the calls still waiting for it
+        messageSocket.rejectPending(new PluginReloadedError());
+        // Changes made until the init message are part of it
+        state.disconnect();
+        events.emit("disconnected", undefined);
+      }
+
+      /**
+       * Rejects the initialization, or reports a failed reconnection
+       */
+      function fail(error: unknown, removeContainer: boolean) {
+        const isHandled = events.emit("error", { error });
+        if (isReconnection) {
+          if (!isHandled) {
+            console.error("Plugin reconnection failed:", error);
+          }
+          return;
+        }
+        cleanup(
+          removeContainer
+            ? error instanceof Error
+              ? error
+              : new Error(String(error))
+            : undefined,
+        );
+        reject(error);
+      }
+
       try {
+        // Plugins without versioning send an empty domReady payload
+        const localProtocol = createProtocolInfo(minProtocolVersion);
+        const remoteProtocol = readProtocolInfo(readPayload());
+        let protocol: NegotiatedProtocol;
+        try {
+          protocol = negotiateProtocol(localProtocol, remoteProtocol, "plugin");
+        } catch (error) {
+          // The plugin waits for an init message that never comes, tell it why
+          // before its iframe is removed
+          if (remoteProtocol.capabilities.includes("reject")) {
+            await messageSocket
+              .createMessageChannel(REJECT_CHANNEL)
+              ?.sendAndWait(serializeError(error), {
+                timeout: REJECTION_TIMEOUT,
+              })
+              .catch(() => {});
+          }
+          throw error;
+        }
+
+        // A plugin without the capability would get null in place of proxies,
+        // starting with the ones in the init message
+        allowProxies();
+        allowProxies = protocol.capabilities.includes("proxy")
+          ? () => {}
+          : messageSocket.use(rejectProxies(ErrorStrings.ProxiesNotSupported));
+
         // CRITICAL: Register parent callbacks BEFORE sending init
         // This ensures they're ready when plugin tries to call them
-        Object.entries(hooks).forEach(
-          ([callbackName, callbackFn]) => {
-            messageSocket.createMessageChannel(callbackName, callbackFn);
-          },
-        );
+        Object.keys(hooks).forEach(registerHook);
 
         // Send init data to plugin and wait for method list response
         const initChannel = messageSocket.createMessageChannel<
-          { data: unknown; settings: unknown; hooks: string[] },
+          {
+            data: unknown;
+            settings: unknown;
+            hooks: string[];
+            port: MessagePort;
+            protocol: ProtocolInfo;
+            stateVersions: [string, number][];
+          },
           string[]
-        >("init", () => [] as string[]);
+        >(INIT_CHANNEL);
 
         if (!initChannel) {
-          cleanup();
-          reject(new Error("Failed to create init channel"));
+          fail(new Error("Failed to create init channel"), false);
           return;
         }
 
-        const answer = await initChannel.sendAndWait({
-          data,
-          settings,
-          hooks: Object.keys(hooks),
-        });
+        // Offer the plugin a private port, the socket moves to it once the plugin uses it
+        const { port1, port2 } = new MessageChannel();
+        messageSocket.acceptPort(port1);
+
+        // The first handshake is bounded by the init timer, a reconnection by the
+        // same timeout; callTimeout never applies
+        const answer = await initChannel.sendAndWait(
+          {
+            // A reloaded plugin gets the current values of the shared state
+            data: isStateData(data) ? state.getAll() : data,
+            settings: currentSettings,
+            hooks: Object.keys(hooks),
+            port: port2,
+            protocol: localProtocol,
+            stateVersions: state.getVersions(),
+          },
+          { timeout: (isReconnection && timeout) || 0, transfer: [port2] },
+        );
+
+        // A newer domReady started another handshake with a newer document
+        if (handshake !== handshakeCount) return;
 
         // Handle the case where answer is ResultStrings.Success instead of actual data
         if (typeof answer === "string") {
-          cleanup();
-          reject(new Error("Plugin did not return method list"));
+          fail(new Error("Plugin did not return method list"), false);
           return;
         }
 
-        const methods: Record<string, Method> = {};
-
-        // Create async wrapper for each plugin method
-        answer.forEach((type: string) => {
-          methods[type] = async (payload: unknown) => {
-            // Create a channel for each method call
-            const methodChannel = messageSocket.createMessageChannel<
-              unknown,
-              unknown
-            >(type, () => {});
-
-            if (!methodChannel) {
-              throw new Error(
-                `Failed to create message channel for method: ${type}`,
-              );
-            }
-
-            return await methodChannel.sendAndWait(payload);
-          };
-        });
+        updateMethods(answer);
+        features = createProtocolFeatures(protocol);
+        if (features.supports("state") && stateChannel) {
+          state.connect((patch) => stateChannel.send(patch));
+        }
+        if (batch && features.supports("batch")) {
+          messageSocket.setBatching(batch);
+        }
+
+        if (isReconnection) {
+          events.emit("reconnected", {
+            protocolVersion: protocol.version,
+            methods: answer,
+          });
+          return;
+        }
 
         // Clear timeout on successful initialization
         if (timeoutId !== null) {
@@ -281,15 +927,55 @@ export function initPlugin(
           timeoutId = null;
         }
 
-        resolve({
+        plugin = {
           methods,
-          terminate: messageSocket.terminate.bind(messageSocket),
+          stream,
+          state,
+          updateSettings,
+          updateHooks,
+          emit,
+          subscribe: topics.on.bind(topics),
+          setPeerRouter: (router) => {
+            peerRouter = router;
+          },
+          deliverPeerMessage,
+          terminate,
+          get protocolVersion() {
+            return features.protocolVersion;
+          },
+          supports: (capability) => features.supports(capability),
+          on: events.on.bind(events),
+        };
+        if (heartbeat) {
+          stopHeartbeat = startHeartbeat(
+            messageSocket,
+            heartbeat,
+            // Plugins without the capability do not answer, e.g. after reloading an older release
+            () => features.supports("heartbeat"),
+            (missed) => events.emit("unresponsive", { missed }),
+          );
+        }
+        events.emit("ready", {
+          protocolVersion: protocol.version,
+          methods: answer,
         });
+        resolve(plugin as InitializedPlugin<C>);
       } catch (error) {
+        if (handshake !== handshakeCount) return;
         // Ensure cleanup on any error
-        cleanup(error instanceof Error ? error : new Error(String(error)));
-        reject(error);
+        fail(error, true);
       }
     }
   });
 }
+
+/**
+ * Whether a message received through the window is the domReady of a plugin
+ */
+function isDomReady(data: unknown): data is Message {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as Partial<Message>).name === DOM_READY_CHANNEL
+  );
+}
@@ -102,5 +102,86 @@
 import initFullscreenPlugin from "./initFullscreenPlugin";
 import initInlinePlugin from "./initInlinePlugin";
 import { providePlugin } from "./providePlugin";
+import {
+  PluginReloadedError,
+  ProxyReleasedError,
+  RemoteError,
+  SocketTerminatedError,
+  ProtocolVersionError,
+  TimeoutError,
+  ValidationError,
+} from "./errors";
+import { PROTOCOL_VERSION } from "./protocol";
+import { transfer } from "./transfer";
+import { proxy, releaseProxy } from "./proxy";
+import { createCodec, createJsonCodec, defineType } from "./codec";
+import PostMessageSocket from "./postMessageSocket";
+import { PluginManager, defaultPluginManager } from "./pluginManager";
+import {
+  BroadcastChannelTransport,
+  MessagePortTransport,
+  SharedWorkerTransport,
+  WindowTransport,
+  WorkerTransport,
+  createInMemoryTransportPair,
+} from "./transport";
 
 export { initFullscreenPlugin, initInlinePlugin, providePlugin };
+export {
+  PluginReloadedError,
+  ProtocolVersionError,
+  ProxyReleasedError,
+  RemoteError,
+  SocketTerminatedError,
+  TimeoutError,
+  ValidationError,
+};
+export { PROTOCOL_VERSION };
+export { transfer };
+export { proxy, releaseProxy };
+export { createCodec, createJsonCodec, defineType };
+export { PostMessageSocket };
+export { PluginManager, defaultPluginManager };
+export {
+  BroadcastChannelTransport,
+  MessagePortTransport,
+  SharedWorkerTransport,
+  WindowTransport,
+  WorkerTransport,
+  createInMemoryTransportPair,
+};
+export type {
+  AllowedOrigins,
+  BatchOptions,
+  CallContext,
+  CallOptions,
+  Capability,
+  Codec,
+  FullscreenPluginLifecycleEvents,
+  HeartbeatOptions,
+  HostedPlugin,
+  MessageEndpoint,
+  MethodSchema,
+  Middleware,
+  PeerHandler,
+  PeerRule,
+  PluginContract,
+  PluginHeartbeatOptions,
+  PluginHost,
+  PluginHostEvents,
+  PluginLifecycleEvents,
+  PluginManagerOptions,
+  PluginPeers,
+  PluginSchemas,
+  ProvidedPluginLifecycleEvents,
+  Remote,
+  Schema,
+  SharedState,
+  StateChangeEvent,
+  StateConflictPolicy,
+  StreamOptions,
+  TopicHandler,
+  Transport,
+  TypeHandler,
+  ValidationIssue,
+} from "./types/index";
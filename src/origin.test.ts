@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOriginMatcher,
+  getExactOrigin,
+  getOriginOfUrl,
+  getParentOrigin,
+} from "./origin";
+
+describe("createOriginMatcher", () => {
+  it("should match exact origins", () => {
+    const isAllowed = createOriginMatcher("https://app.example.com");
+    expect(isAllowed("https://app.example.com")).toBe(true);
+    expect(isAllowed("https://app.example.com.evil.io")).toBe(false);
+    expect(isAllowed("http://app.example.com")).toBe(false);
+  });
+
+  it("should match wildcard patterns within a host name or port", () => {
+    const isAllowed = createOriginMatcher([
+      "https://*.vendor.com",
+      "http://localhost:*",
+    ]);
+    expect(isAllowed("https://cdn.vendor.com")).toBe(true);
+    expect(isAllowed("https://eu.cdn.vendor.com")).toBe(true);
+    expect(isAllowed("http://localhost:5173")).toBe(true);
+    expect(isAllowed("https://vendor.com")).toBe(false);
+    expect(isAllowed("https://vendorXcom")).toBe(false);
+    expect(isAllowed("https://vendor.com.evil.io")).toBe(false);
+    expect(isAllowed("https://evil.io:443/.vendor.com")).toBe(false);
+  });
+
+  it("should accept any origin for a single star", () => {
+    expect(createOriginMatcher("*")("https://anything.io")).toBe(true);
+  });
+
+  it("should use predicates as they are", () => {
+    const isAllowed = createOriginMatcher((origin) =>
+      origin.endsWith(".trusted.io"),
+    );
+    expect(isAllowed("https://a.trusted.io")).toBe(true);
+    expect(isAllowed("https://trusted.io.evil")).toBe(false);
+  });
+});
+
+describe("getExactOrigin", () => {
+  it("should return the only exact origin of an allowlist", () => {
+    expect(getExactOrigin("https://a.io")).toBe("https://a.io");
+    expect(getExactOrigin(["https://a.io"])).toBe("https://a.io");
+  });
+
+  it("should return undefined for anything else", () => {
+    expect(getExactOrigin(undefined)).toBeUndefined();
+    expect(getExactOrigin(["https://a.io", "https://b.io"])).toBeUndefined();
+    expect(getExactOrigin("https://*.a.io")).toBeUndefined();
+    expect(getExactOrigin(() => true)).toBeUndefined();
+  });
+});
+
+describe("getOriginOfUrl", () => {
+  it("should return the origin of absolute and relative URLs", () => {
+    expect(getOriginOfUrl("https://plugin.io:8080/app/index.html?x=1")).toBe(
+      "https://plugin.io:8080",
+    );
+    expect(getOriginOfUrl("/plugin/index.html")).toBe(window.location.origin);
+  });
+
+  it("should return undefined for URLs without an origin", () => {
+    expect(getOriginOfUrl("about:blank")).toBeUndefined();
+    expect(getOriginOfUrl("data:text/html,<p>Hi</p>")).toBeUndefined();
+  });
+});
+
+describe("getParentOrigin", () => {
+  function createWindow(ancestorOrigins: string[] | undefined, referrer = "") {
+    return {
+      location: { ancestorOrigins },
+      document: { referrer },
+    } as unknown as Window;
+  }
+  const isAllowed = createOriginMatcher("https://*.customer.com");
+
+  it("should prefer the ancestor origins to the referrer", () => {
+    expect(
+      getParentOrigin(
+        createWindow(
+          ["https://app.customer.com", "https://top.io"],
+          "https://other.customer.com/page",
+        ),
+        isAllowed,
+      ),
+    ).toBe("https://app.customer.com");
+    expect(
+      getParentOrigin(
+        createWindow(undefined, "https://app.customer.com/page?id=1"),
+        isAllowed,
+      ),
+    ).toBe("https://app.customer.com");
+  });
+
+  it("should only return allowed origins", () => {
+    expect(
+      getParentOrigin(createWindow(["https://evil.io"]), isAllowed),
+    ).toBeUndefined();
+    expect(getParentOrigin(createWindow(undefined), isAllowed)).toBeUndefined();
+  });
+});
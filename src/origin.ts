@@ -0,0 +1,90 @@
+import type { AllowedOrigins } from "./types/index";
+
+/**
+ * @module Helpers for matching message origins
+ */
+
+/**
+ * Turns an origin allowlist into a predicate.
+ * In patterns, `*` stands for any part of a host name or port, "*" alone for any origin.
+ *
+ * @example
+ * ```typescript
+ * const isAllowed = createOriginMatcher(["https://app.example.com", "https://*.vendor.com"]);
+ * isAllowed("https://cdn.vendor.com"); // true
+ * isAllowed("https://vendor.com.evil.io"); // false
+ * ```
+ */
+export function createOriginMatcher(
+  allowedOrigins: AllowedOrigins,
+): (origin: string) => boolean {
+  if (typeof allowedOrigins === "function") {
+    return allowedOrigins;
+  }
+  const patterns = Array.isArray(allowedOrigins)
+    ? allowedOrigins
+    : [allowedOrigins];
+  const matchers = patterns.map((pattern) => {
+    if (pattern === "*") return () => true;
+    if (!pattern.includes("*")) return (origin: string) => origin === pattern;
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+      .join("[^/:]*");
+    const regExp = new RegExp(`^${source}$`);
+    return (origin: string) => regExp.test(origin);
+  });
+  return (origin) => matchers.some((matches) => matches(origin));
+}
+
+/**
+ * Returns the only origin an allowlist accepts, if it accepts exactly one.
+ */
+export function getExactOrigin(
+  allowedOrigins: AllowedOrigins | undefined,
+): string | undefined {
+  if (typeof allowedOrigins === "function" || allowedOrigins === undefined) {
+    return undefined;
+  }
+  const patterns = Array.isArray(allowedOrigins)
+    ? allowedOrigins
+    : [allowedOrigins];
+  if (patterns.length !== 1 || patterns[0].includes("*")) {
+    return undefined;
+  }
+  return patterns[0];
+}
+
+/**
+ * Returns the origin of a URL, resolved against the document's base URL.
+ * Returns undefined for invalid URLs and for URLs without an origin of their own
+ * (about:blank, data: and the like).
+ */
+export function getOriginOfUrl(url: string): string | undefined {
+  try {
+    const { origin } = new URL(url, document.baseURI);
+    return origin === "null" ? undefined : origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the origin of the parent of a window as the browser tells it, if it is
+ * allowed: the closest ancestor origin where browsers list them, else the origin of
+ * the referrer. A child cannot read the origin of a cross-origin parent otherwise.
+ */
+export function getParentOrigin(
+  window: Window,
+  isAllowedOrigin: (origin: string) => boolean,
+): string | undefined {
+  const { ancestorOrigins } = window.location;
+  const referrer = window.document.referrer;
+  const origin =
+    ancestorOrigins && ancestorOrigins.length > 0
+      ? ancestorOrigins[0]
+      : referrer
+        ? getOriginOfUrl(referrer)
+        : undefined;
+  return origin !== undefined && isAllowedOrigin(origin) ? origin : undefined;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { allowsPeerMessage, isPeerMessage, isPeerRequest } from "./peers";
+
+describe("allowsPeerMessage", () => {
+  it("should allow messages between the plugins of a rule", () => {
+    const rule = { from: "filters", to: ["chart", "table"] };
+    expect(allowsPeerMessage(rule, "filters", "chart", "filter.changed")).toBe(
+      true,
+    );
+    expect(allowsPeerMessage(rule, "filters", "table", "anything")).toBe(true);
+    expect(allowsPeerMessage(rule, "chart", "filters", "filter.changed")).toBe(
+      false,
+    );
+    expect(allowsPeerMessage(rule, "filters", "clock", "filter.changed")).toBe(
+      false,
+    );
+  });
+
+  it("should match any plugin with * and topics by pattern", () => {
+    const rule = { from: "*", to: "chart", topics: ["filter.*"] };
+    expect(allowsPeerMessage(rule, "table", "chart", "filter.changed")).toBe(
+      true,
+    );
+    expect(allowsPeerMessage(rule, "table", "chart", "selection.changed")).toBe(
+      false,
+    );
+  });
+});
+
+describe("isPeerRequest and isPeerMessage", () => {
+  it("should tell requests of plugins from delivered messages", () => {
+    const request = { to: "chart", topic: "filter.changed", payload: 1 };
+    expect(isPeerRequest(request)).toBe(true);
+    expect(isPeerMessage(request)).toBe(false);
+    expect(isPeerMessage({ ...request, from: "filters" })).toBe(true);
+    expect(isPeerRequest({ to: "chart" })).toBe(false);
+    expect(isPeerRequest(null)).toBe(false);
+  });
+});
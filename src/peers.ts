@@ -0,0 +1,64 @@
+import { matchesTopic } from "./topics";
+import type { PeerMessage, PeerRule } from "./types/index";
+
+/**
+ * @module Messages between sibling plugins, brokered by their host
+ *
+ * A plugin sends a message for another plugin to its parent on PEER_CHANNEL. The
+ * host the parent registered it with checks its routing rules and forwards the message,
+ * with the id of the sender, to the other plugin on the same channel. Plugins never
+ * learn about plugins no rule lets them reach.
+ */
+
+/**
+ * Whether a payload of PEER_CHANNEL is a message a plugin sends to another one
+ */
+export function isPeerRequest(
+  request: unknown,
+): request is Omit<PeerMessage, "from"> {
+  return (
+    typeof request === "object" &&
+    request !== null &&
+    typeof (request as Partial<PeerMessage>).to === "string" &&
+    typeof (request as Partial<PeerMessage>).topic === "string"
+  );
+}
+
+/**
+ * Whether a payload of PEER_CHANNEL is a message the host delivers to a plugin
+ */
+export function isPeerMessage(message: unknown): message is PeerMessage {
+  return (
+    isPeerRequest(message) &&
+    typeof (message as Partial<PeerMessage>).from === "string"
+  );
+}
+
+function matchesId(ids: string | string[], id: string) {
+  return (Array.isArray(ids) ? ids : [ids]).some(
+    (allowed) => allowed === "*" || allowed === id,
+  );
+}
+
+/**
+ * Whether a routing rule allows a plugin to send a message on a topic to another plugin
+ *
+ * @example
+ * ```typescript
+ * const rule = { from: "filters", to: ["chart", "table"], topics: ["filter.*"] };
+ * allowsPeerMessage(rule, "filters", "chart", "filter.changed"); // true
+ * allowsPeerMessage(rule, "chart", "filters", "filter.changed"); // false
+ * ```
+ */
+export function allowsPeerMessage(
+  { from, to, topics }: PeerRule,
+  sender: string,
+  receiver: string,
+  topic: string,
+): boolean {
+  return (
+    matchesId(from, sender) &&
+    matchesId(to, receiver) &&
+    (topics ?? ["**"]).some((pattern) => matchesTopic(pattern, topic))
+  );
+}
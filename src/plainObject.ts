@@ -0,0 +1,12 @@
+/**
+ * Whether a value is a plain object, created by a literal or Object.create(null),
+ * as opposed to arrays, class instances and other objects the structured clone
+ * treats on their own
+ */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it, vi } from "vitest";
+import { LifecycleEvents } from "./events";
+import { PluginManager } from "./pluginManager";
+import type {
+  InitializedPlugin,
+  PeerRouter,
+  PluginLifecycleEvents,
+} from "./types/index";
+
+/**
+ * Creates a stand-in for an initialized plugin, with methods answering directly
+ */
+function createPlugin(methods: Record<string, (payload: unknown) => unknown>) {
+  const events = new LifecycleEvents<PluginLifecycleEvents>();
+  const peers: { router: PeerRouter | null } = { router: null };
+  const plugin = {
+    methods: Object.fromEntries(
+      Object.entries(methods).map(([name, method]) => [
+        name,
+        async (payload: unknown) => method(payload),
+      ]),
+    ),
+    on: events.on.bind(events),
+    setPeerRouter: (router: PeerRouter | null) => {
+      peers.router = router;
+    },
+    deliverPeerMessage: vi.fn(),
+    terminate: vi.fn(() => events.emit("destroyed", undefined)),
+  } as unknown as InitializedPlugin;
+  return { plugin, events, peers };
+}
+
+function register(
+  host: PluginManager,
+  id?: string,
+  methods: Record<string, (payload: unknown) => unknown> = {},
+) {
+  const { plugin, events, peers } = createPlugin(methods);
+  const container = document.createElement("div");
+  const hosted = host.register({
+    id,
+    src: "https://test-plugin.com",
+    container,
+    plugin,
+    destroy: () => plugin.terminate(),
+  });
+  return { hosted, plugin, events, peers, container };
+}
+
+describe("PluginManager", () => {
+  it("should look up registered plugins by id and generate missing ids", () => {
+    const host = new PluginManager();
+    const { plugin } = register(host, "chart");
+    const { hosted } = register(host);
+
+    expect(host.get("chart")?.plugin).toBe(plugin);
+    expect(hosted.id).toBe("plugin-1");
+    expect(host.list().map(({ id }) => id)).toEqual(["chart", "plugin-1"]);
+    expect(() => register(host, "chart")).toThrow(
+      "A plugin is already registered with the id chart",
+    );
+  });
+
+  it("should unregister plugins once they are terminated", async () => {
+    const host = new PluginManager();
+    const { plugin } = register(host, "chart");
+    register(host, "table");
+
+    plugin.terminate();
+    expect(host.get("chart")).toBeUndefined();
+
+    await host.destroyAll();
+    expect(host.list()).toEqual([]);
+  });
+
+  it("should call a method of every plugin that has it", async () => {
+    const host = new PluginManager();
+    register(host, "chart", { refresh: (range) => `chart ${range}` });
+    register(host, "table", {
+      refresh: () => {
+        throw new Error("No data");
+      },
+    });
+    register(host, "clock");
+
+    const results = await host.broadcast("refresh", "7d");
+
+    expect([...results.keys()]).toEqual(["chart", "table"]);
+    expect(results.get("chart")).toEqual({
+      status: "fulfilled",
+      value: "chart 7d",
+    });
+    expect(results.get("table")).toMatchObject({
+      status: "rejected",
+      reason: { message: "No data" },
+    });
+  });
+
+  it("should report the events of plugins registered before and after subscribing", () => {
+    const host = new PluginManager();
+    const chart = register(host, "chart");
+    const handler = vi.fn();
+    host.on("unresponsive", handler);
+    const table = register(host, "table");
+
+    chart.events.emit("unresponsive", { missed: 3 });
+    table.events.emit("unresponsive", { missed: 4 });
+
+    expect(handler).toHaveBeenCalledWith({
+      id: "chart",
+      payload: { missed: 3 },
+    });
+    expect(handler).toHaveBeenCalledWith({
+      id: "table",
+      payload: { missed: 4 },
+    });
+  });
+
+  it("should bring the containers of plugins to the front", () => {
+    const host = new PluginManager();
+    const editor = register(host, "editor");
+    const preview = register(host, "preview");
+
+    host.bringToFront("editor");
+    host.bringToFront("preview");
+    expect(Number(preview.container.style.zIndex)).toBeGreaterThan(
+      Number(editor.container.style.zIndex),
+    );
+
+    host.bringToFront("editor");
+    expect(Number(editor.container.style.zIndex)).toBeGreaterThan(
+      Number(preview.container.style.zIndex),
+    );
+  });
+
+  it("should deliver messages between plugins as its routing rules allow", async () => {
+    const host = new PluginManager({
+      peerRules: [{ from: "filters", to: "*", topics: ["filter.*"] }],
+    });
+    const filters = register(host, "filters");
+    const chart = register(host, "chart");
+
+    await filters.peers.router!({
+      to: "chart",
+      topic: "filter.changed",
+      payload: { region: "EU" },
+    });
+    expect(chart.plugin.deliverPeerMessage).toHaveBeenCalledWith({
+      from: "filters",
+      to: "chart",
+      topic: "filter.changed",
+      payload: { region: "EU" },
+    });
+
+    // Not allowed, whether the receiver exists or not
+    expect(() =>
+      chart.peers.router!({
+        to: "filters",
+        topic: "filter.changed",
+        payload: 1,
+      }),
+    ).toThrow('No routing rule allows the message "filter.changed"');
+    expect(() =>
+      filters.peers.router!({ to: "chart", topic: "selection", payload: 1 }),
+    ).toThrow("No routing rule allows the message");
+    expect(() =>
+      filters.peers.router!({
+        to: "table",
+        topic: "filter.changed",
+        payload: 1,
+      }),
+    ).toThrow("No plugin is registered with the id table");
+
+    const removeRule = host.allowPeers({ from: "chart", to: "filters" });
+    await chart.peers.router!({
+      to: "filters",
+      topic: "selection",
+      payload: 1,
+    });
+    expect(filters.plugin.deliverPeerMessage).toHaveBeenCalledTimes(1);
+    removeRule();
+    expect(() =>
+      chart.peers.router!({ to: "filters", topic: "selection", payload: 1 }),
+    ).toThrow("No routing rule allows the message");
+  });
+});
@@ -0,0 +1,181 @@
+import { LifecycleEvents } from "./events";
+import { allowsPeerMessage } from "./peers";
+import { ErrorStrings } from "./types/index";
+import type {
+  CallOptions,
+  DefaultContract,
+  HostedPlugin,
+  PeerMessage,
+  PeerRule,
+  PluginContractShape,
+  PluginHost,
+  PluginHostEvents,
+  PluginManagerOptions,
+  PluginRegistration,
+} from "./types/index";
+
+/**
+ * @module Registry of the plugins a page hosts
+ *
+ * Every plugin created by initInlinePlugin, initFullscreenPlugin or createInitPlugin is
+ * registered with a host once it is initialized, the default one unless the `host`
+ * option names another, and unregistered once it is terminated.
+ */
+
+/**
+ * Keeps track of the plugins of a page: lookup by id, calls to every plugin, lifecycle
+ * events of every plugin and the stacking order of fullscreen plugins. Brokers the
+ * messages plugins send each other (see ProvidedPlugin.peers) as its routing rules allow,
+ * to plugins with the "peers" capability.
+ *
+ * @example
+ * ```typescript
+ * const widgets = new PluginManager({
+ *   peerRules: [{ from: "filters", to: "*", topics: ["filter.*"] }],
+ * });
+ * widgets.on("unresponsive", ({ id }) => widgets.get(id)?.destroy());
+ *
+ * await Promise.all(
+ *   dashboard.widgets.map((widget) =>
+ *     initInlinePlugin(config, { id: widget.id, src: widget.src, container: widget.element, host: widgets }),
+ *   ),
+ * );
+ *
+ * await widgets.broadcast("refresh", { range: "7d" });
+ * await widgets.destroyAll();
+ * ```
+ */
+export class PluginManager implements PluginHost {
+  /** Registered plugins, whatever their contracts */
+  private plugins: Map<string, HostedPlugin<PluginContractShape>> = new Map();
+  private events = new LifecycleEvents<PluginHostEvents>();
+  /** Events with handlers, forwarded from every plugin registered now or later */
+  private forwardedEvents: Set<keyof PluginHostEvents> = new Set();
+  private lastId = 0;
+  private topZIndex = 0;
+  private peerRules: PeerRule[];
+
+  constructor({ peerRules = [] }: PluginManagerOptions = {}) {
+    this.peerRules = [...peerRules];
+  }
+
+  register<C extends PluginContractShape = DefaultContract>({
+    id = this.createId(),
+    src,
+    container,
+    plugin,
+    destroy,
+  }: PluginRegistration<C>): HostedPlugin<C> {
+    if (this.plugins.has(id)) {
+      throw new Error(`${ErrorStrings.PluginIdTaken} ${id}`);
+    }
+    const hosted: HostedPlugin<C> = {
+      id,
+      src,
+      container,
+      plugin,
+      destroy: async () => {
+        await destroy();
+      },
+    };
+    this.plugins.set(id, hosted);
+    this.forwardedEvents.forEach((event) => this.forward(hosted, event));
+    plugin.setPeerRouter((message) => this.routePeerMessage(id, message));
+    plugin.on("destroyed", () => {
+      // The id may have been taken by another plugin since
+      if (this.plugins.get(id) === hosted) {
+        this.plugins.delete(id);
+      }
+    });
+    return hosted;
+  }
+
+  get(id: string): HostedPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  list(): HostedPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  async broadcast(method: string, payload?: unknown, options?: CallOptions) {
+    const targets = this.list().filter(
+      ({ plugin }) => typeof plugin.methods[method] === "function",
+    );
+    const results = await Promise.allSettled(
+      targets.map(({ plugin }) => plugin.methods[method](payload, options)),
+    );
+    return new Map(targets.map(({ id }, index) => [id, results[index]]));
+  }
+
+  async destroyAll() {
+    await Promise.all(this.list().map((hosted) => hosted.destroy()));
+  }
+
+  bringToFront(id: string) {
+    const hosted = this.plugins.get(id);
+    if (!hosted) return;
+    this.topZIndex++;
+    hosted.container.style.zIndex = this.topZIndex.toString();
+  }
+
+  allowPeers(rule: PeerRule) {
+    this.peerRules.push(rule);
+    return () => {
+      this.peerRules = this.peerRules.filter((peerRule) => peerRule !== rule);
+    };
+  }
+
+  on<K extends keyof PluginHostEvents>(
+    event: K,
+    handler: (event: PluginHostEvents[K]) => void,
+  ) {
+    if (!this.forwardedEvents.has(event)) {
+      this.forwardedEvents.add(event);
+      this.plugins.forEach((hosted) => this.forward(hosted, event));
+    }
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Delivers a message of a plugin to another one if a routing rule allows it.
+   * Senders no rule lets reach a plugin do not learn whether it exists.
+   */
+  private routePeerMessage(
+    from: string,
+    { to, topic, payload }: Omit<PeerMessage, "from">,
+  ) {
+    if (
+      !this.peerRules.some((rule) => allowsPeerMessage(rule, from, to, topic))
+    ) {
+      throw new Error(
+        `${ErrorStrings.PeerMessageNotAllowed} "${topic}" from ${from} to ${to}`,
+      );
+    }
+    const receiver = this.plugins.get(to);
+    if (!receiver) {
+      throw new Error(`${ErrorStrings.NoPeer} ${to}`);
+    }
+    receiver.plugin.deliverPeerMessage({ from, to, topic, payload });
+  }
+
+  private forward<C extends PluginContractShape>(
+    { id, plugin }: HostedPlugin<C>,
+    event: keyof PluginHostEvents,
+  ) {
+    plugin.on(event, (payload) =>
+      this.events.emit(event, { id, payload } as never),
+    );
+  }
+
+  private createId() {
+    let id: string;
+    do {
+      id = `plugin-${++this.lastId}`;
+    } while (this.plugins.has(id));
+    return id;
+  }
+}
+
+/** Host of the plugins created without the `host` option */
+export const defaultPluginManager = new PluginManager();
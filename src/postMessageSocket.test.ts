@@ -11,6 +11,10 @@ import {
 } from "vitest";
 
 import { ErrorStrings } from "./types/index";
+import type { SocketOptions } from "./types/index";
+import { RemoteError, SocketTerminatedError, TimeoutError } from "./errors";
+import { transfer } from "./transfer";
+import { createInMemoryTransportPair } from "./transport";
 
 import { useFixedMessageEvent } from "../test/utils/fixEvents";
 import { ResultStrings } from "./types/index";
@@ -18,9 +22,18 @@ import { ResultStrings } from "./types/index";
 // Mock console.error to avoid cluttering test output
 console.error = vi.fn();
 
-const createMessageSockets = (window: Window, iframe: Window) => {
+const createMessageSockets = (
+  window: Window,
+  iframe: Window,
+  windowSocketOptions?: SocketOptions,
+) => {
   const { addMessageEventFix, removeMessageEventFix } = useFixedMessageEvent();
-  const windowSocket = new PostMessageSocket(window, iframe);
+  const windowSocket = new PostMessageSocket(
+    window,
+    iframe,
+    undefined,
+    windowSocketOptions,
+  );
   const iframeSocket = new PostMessageSocket(iframe, window);
   addMessageEventFix(window, iframe);
   addMessageEventFix(iframe, window);
@@ -153,7 +166,7 @@ describe("postMessageSocket", () => {
     expect(answareFromIframe).toBe(ResultStrings.Success);
 
     vi.runAllTimers();
-    expect(cbIframe).toHaveBeenCalledWith("hello iframe");
+    expect(cbIframe).toHaveBeenCalledWith("hello iframe", expect.anything());
   });
 
   it("should verify windowSocket and iframeSocket can send and receive", async function () {
@@ -174,13 +187,13 @@ describe("postMessageSocket", () => {
     windowChannel?.send("iframe");
     vi.runAllTimers();
 
-    expect(cb).toHaveBeenCalledWith("iframe");
+    expect(cb).toHaveBeenCalledWith("iframe", expect.anything());
     expect(answers).toEqual(["iframe"]);
 
     iframeChannel?.send("window");
     vi.runAllTimers();
 
-    expect(cb).toHaveBeenCalledWith("window");
+    expect(cb).toHaveBeenCalledWith("window", expect.anything());
     expect(answers).toEqual(["iframe", "window"]);
   });
 
@@ -203,8 +216,8 @@ describe("postMessageSocket", () => {
 
     vi.runAllTimers();
 
-    expect(cb).toHaveBeenNthCalledWith(1, "hello world");
-    expect(cb).toHaveBeenNthCalledWith(2, "hello world");
+    expect(cb).toHaveBeenNthCalledWith(1, "hello world", expect.anything());
+    expect(cb).toHaveBeenNthCalledWith(2, "hello world", expect.anything());
     expect(cb).toHaveBeenCalledTimes(2);
 
     expect(iframeChannel?.send("hello world")).toBe(ResultStrings.Success);
@@ -236,7 +249,7 @@ describe("postMessageSocket", () => {
     const answerPromise = windowChannel?.sendAndWait(payloadFromWindow);
     vi.runAllTimers();
 
-    expect(cb).toHaveBeenCalledWith(payloadFromWindow);
+    expect(cb).toHaveBeenCalledWith(payloadFromWindow, expect.anything());
     expect(msges).toEqual([payloadFromWindow]);
 
     answerPromise?.then((answer) => {
@@ -244,6 +257,464 @@ describe("postMessageSocket", () => {
     });
   });
 
+  it("should reject sendAndWait with a TimeoutError when no answer arrives in time", async () => {
+    const { addMessageEventFix } = useFixedMessageEvent();
+    const parentWindow = pluginIframe2.contentWindow as Window;
+    const childWindow = pluginIframe.contentWindow as Window;
+    const windowSocket = new PostMessageSocket(
+      parentWindow,
+      childWindow,
+      undefined,
+      { timeout: 100 },
+    );
+    addMessageEventFix(parentWindow, childWindow);
+
+    // Nobody listens on the other side, so the request never gets answered
+    const channel = windowSocket.createMessageChannel("silent", () => {});
+    const responsePromise = channel!.sendAndWait("ping");
+    const assertion =
+      expect(responsePromise).rejects.toBeInstanceOf(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+    await expect(responsePromise).rejects.toMatchObject({
+      channel: "silent",
+      timeout: 100,
+    });
+
+    // The pending entry is removed so it cannot leak
+    expect((windowSocket as any).answerHandlers.size).toBe(0);
+    windowSocket.terminate();
+  });
+
+  it("should let a single call override the socket timeout", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+      { timeout: 50 },
+    );
+
+    iframeSocket.createMessageChannel("slow", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return "done";
+    });
+    const channel = windowSocket.createMessageChannel("slow", () => {});
+
+    const responsePromise = channel!.sendAndWait("work", { timeout: 500 });
+    await vi.advanceTimersByTimeAsync(300);
+
+    await expect(responsePromise).resolves.toBe("done");
+  });
+
+  it("should drop answers that arrive after the request timed out", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const iframeCb = vi.fn().mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return "too late";
+    });
+    const windowCb = vi.fn();
+    iframeSocket.createMessageChannel("late", iframeCb);
+    const channel = windowSocket.createMessageChannel("late", windowCb);
+
+    const responsePromise = channel!.sendAndWait("work", { timeout: 50 });
+    const assertion =
+      expect(responsePromise).rejects.toBeInstanceOf(TimeoutError);
+    await vi.advanceTimersByTimeAsync(300);
+    await assertion;
+
+    // The late answer must not be treated as a new incoming message
+    expect(iframeCb).toHaveBeenCalledTimes(1);
+    expect(windowCb).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalledWith(
+      expect.stringContaining("late"),
+    );
+  });
+
+  it("should reject locally and abort the remote callback when the signal aborts", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    let remoteSignal: AbortSignal | undefined;
+    const onRemoteAbort = vi.fn();
+    iframeSocket.createMessageChannel("export", (_payload, { signal }) => {
+      remoteSignal = signal;
+      signal.addEventListener("abort", onRemoteAbort);
+      return new Promise((resolve) => setTimeout(() => resolve("done"), 1000));
+    });
+    const channel = windowSocket.createMessageChannel("export", () => {});
+
+    const controller = new AbortController();
+    const exportPromise = channel!.sendAndWait("doc", {
+      signal: controller.signal,
+    });
+    const caught = exportPromise.catch((error) => error);
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(remoteSignal?.aborted).toBe(false);
+
+    controller.abort();
+
+    const error = await caught;
+    expect(error).toBeInstanceOf(DOMException);
+    expect(error.name).toBe("AbortError");
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(remoteSignal?.aborted).toBe(true);
+    expect(onRemoteAbort).toHaveBeenCalledTimes(1);
+    expect((windowSocket as any).answerHandlers.size).toBe(0);
+
+    // The answer of the aborted callback is never sent back
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(console.error).not.toHaveBeenCalled();
+    expect((iframeSocket as any).incomingRequests.size).toBe(0);
+  });
+
+  it("should reject with the abort reason without sending if the signal is already aborted", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const iframeCb = vi.fn();
+    iframeSocket.createMessageChannel("export", iframeCb);
+    const channel = windowSocket.createMessageChannel("export", () => {});
+
+    const reason = new Error("Panel closed");
+    await expect(
+      channel!.sendAndWait("doc", { signal: AbortSignal.abort(reason) }),
+    ).rejects.toBe(reason);
+
+    vi.runAllTimers();
+    expect(iframeCb).not.toHaveBeenCalled();
+  });
+
+  it("should abort the signal of running callbacks on timeout and terminate", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const signals: AbortSignal[] = [];
+    iframeSocket.createMessageChannel("work", (_payload, { signal }) => {
+      signals.push(signal);
+      return new Promise(() => {});
+    });
+    const channel = windowSocket.createMessageChannel("work", () => {});
+
+    // Aborted through the cancel message sent on timeout
+    channel!.sendAndWait("first", { timeout: 100 }).catch(() => {});
+    // Aborted because the receiving socket is terminated
+    channel!.sendAndWait("second").catch(() => {});
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+
+    iframeSocket.terminate();
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it("should stream the chunks yielded by an async generator callback", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    iframeSocket.createMessageChannel("count", async function* (to: number) {
+      for (let i = 1; i <= to; i++) {
+        yield i;
+      }
+    });
+    const channel = windowSocket.createMessageChannel<number, number>(
+      "count",
+      () => 0,
+    );
+
+    const received: number[] = [];
+    const consumed = (async () => {
+      for await (const chunk of channel!.stream(5)) {
+        received.push(chunk);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(100);
+    await consumed;
+
+    expect(received).toEqual([1, 2, 3, 4, 5]);
+    expect((windowSocket as any).streamConsumers.size).toBe(0);
+    expect((iframeSocket as any).streamProducers.size).toBe(0);
+  });
+
+  it("should send a plain return value as a single chunk", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    iframeSocket.createMessageChannel("list", () => ["a", "b"]);
+    const channel = windowSocket.createMessageChannel("list", () => {});
+
+    const received: unknown[] = [];
+    const consumed = (async () => {
+      for await (const chunk of channel!.stream(null)) {
+        received.push(chunk);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(100);
+    await consumed;
+
+    expect(received).toEqual([["a", "b"]]);
+  });
+
+  it("should pause the producer until the consumer acknowledges chunks", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    let produced = 0;
+    iframeSocket.createMessageChannel("numbers", function* () {
+      while (produced < 100) {
+        yield ++produced;
+      }
+    });
+    const channel = windowSocket.createMessageChannel("numbers", () => {});
+
+    const iterator = channel!.stream(null, { highWaterMark: 4 });
+    await vi.advanceTimersByTimeAsync(100);
+
+    // Nothing is consumed yet, so only the initial credit is used up
+    expect(produced).toBe(4);
+
+    // Consuming half of the high water mark acknowledges two more chunks
+    await iterator.next();
+    await iterator.next();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(produced).toBe(6);
+
+    await iterator.return!();
+  });
+
+  it("should stop the producer when the consumer breaks out of the loop", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const cleanedUp = vi.fn();
+    iframeSocket.createMessageChannel("ticks", async function* () {
+      try {
+        for (let i = 0; ; i++) {
+          yield i;
+        }
+      } finally {
+        cleanedUp();
+      }
+    });
+    const channel = windowSocket.createMessageChannel("ticks", () => {});
+
+    const received: unknown[] = [];
+    const consumed = (async () => {
+      for await (const chunk of channel!.stream(null, { highWaterMark: 2 })) {
+        received.push(chunk);
+        if (received.length === 3) break;
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(100);
+    await consumed;
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(received).toEqual([0, 1, 2]);
+    expect(cleanedUp).toHaveBeenCalledTimes(1);
+    expect((iframeSocket as any).streamProducers.size).toBe(0);
+    expect((iframeSocket as any).incomingRequests.size).toBe(0);
+  });
+
+  it("should stop the stream when the signal aborts", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    let remoteSignal: AbortSignal | undefined;
+    iframeSocket.createMessageChannel(
+      "feed",
+      async function* (_payload, { signal }) {
+        remoteSignal = signal;
+        yield "first";
+        await new Promise(() => {});
+      },
+    );
+    const channel = windowSocket.createMessageChannel("feed", () => {});
+
+    const controller = new AbortController();
+    const iterator = channel!.stream(null, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await iterator.next()).toEqual({ done: false, value: "first" });
+
+    const pending = iterator.next();
+    controller.abort();
+    const error = await pending.catch((error) => error);
+    expect(error.name).toBe("AbortError");
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(remoteSignal?.aborted).toBe(true);
+  });
+
+  it("should throw a RemoteError from the stream when the producer throws", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    iframeSocket.createMessageChannel("rows", async function* () {
+      yield 1;
+      throw Object.assign(new Error("Disk full"), { code: "ENOSPC" });
+    });
+    const channel = windowSocket.createMessageChannel("rows", () => {});
+
+    const received: unknown[] = [];
+    const consumed = (async () => {
+      for await (const chunk of channel!.stream(null)) {
+        received.push(chunk);
+      }
+    })().catch((error) => error);
+    await vi.advanceTimersByTimeAsync(100);
+    const error = await consumed;
+
+    expect(received).toEqual([1]);
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error.message).toBe("Disk full");
+    expect(error.code).toBe("ENOSPC");
+  });
+
+  it("should fail running streams when the socket is terminated", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    iframeSocket.createMessageChannel("never", () => new Promise(() => {}));
+    const channel = windowSocket.createMessageChannel("never", () => {});
+
+    const pending = channel!.stream(null).next();
+    await vi.advanceTimersByTimeAsync(10);
+    windowSocket.terminate();
+
+    await expect(pending).rejects.toBeInstanceOf(SocketTerminatedError);
+    await expect(channel!.stream(null).next()).rejects.toBeInstanceOf(
+      SocketTerminatedError,
+    );
+  });
+
+  it("should pass transfer lists of options and marked values to postMessage", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+    const toIframe = vi.spyOn(
+      pluginIframe.contentWindow as Window,
+      "postMessage",
+    );
+    const toWindow = vi.spyOn(
+      pluginIframe2.contentWindow as Window,
+      "postMessage",
+    );
+
+    const result = new ArrayBuffer(16);
+    iframeSocket.createMessageChannel("filter", () =>
+      transfer(result, [result]),
+    );
+    const channel = windowSocket.createMessageChannel("filter", () => {});
+
+    const pixels = new ArrayBuffer(16);
+    const thumbnail = new ArrayBuffer(4);
+    const responsePromise = channel!.sendAndWait(
+      { pixels: transfer(pixels, [pixels]) },
+      { transfer: [thumbnail] },
+    );
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(await responsePromise).toBe(result);
+    expect(toIframe).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "filter" }),
+      expect.any(String),
+      [thumbnail, pixels],
+    );
+    expect(toWindow).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "filter", kind: "response" }),
+      expect.any(String),
+      [result],
+    );
+  });
+
+  it("should move all traffic to a port once the other side uses it", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+    const toIframe = vi.spyOn(
+      pluginIframe.contentWindow as Window,
+      "postMessage",
+    );
+    const toWindow = vi.spyOn(
+      pluginIframe2.contentWindow as Window,
+      "postMessage",
+    );
+
+    const { port1, port2 } = new MessageChannel();
+    windowSocket.acceptPort(port1);
+    iframeSocket.usePort(port2);
+
+    windowSocket.createMessageChannel("ping", (payload) => `pong ${payload}`);
+    iframeSocket.createMessageChannel("echo", (payload) => payload);
+    const pingChannel = iframeSocket.createMessageChannel("ping", () => {});
+    const echoChannel = windowSocket.createMessageChannel("echo", () => {});
+
+    const pong = pingChannel!.sendAndWait(1);
+    await vi.waitFor(() =>
+      expect((iframeSocket as any).answerHandlers.size).toBe(0),
+    );
+    expect(await pong).toBe("pong 1");
+
+    const echo = echoChannel!.sendAndWait("hello");
+    await vi.waitFor(() =>
+      expect((windowSocket as any).answerHandlers.size).toBe(0),
+    );
+    expect(await echo).toBe("hello");
+
+    expect(toIframe).not.toHaveBeenCalled();
+    expect(toWindow).not.toHaveBeenCalled();
+
+    windowSocket.terminate();
+    iframeSocket.terminate();
+  });
+
+  it("should stay on the window if the other side never uses the accepted port", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const { port1, port2 } = new MessageChannel();
+    windowSocket.acceptPort(port1);
+
+    iframeSocket.createMessageChannel("echo", (payload) => payload);
+    const channel = windowSocket.createMessageChannel("echo", () => {});
+
+    const echo = channel!.sendAndWait("hello");
+    await vi.advanceTimersByTimeAsync(10);
+    expect(await echo).toBe("hello");
+
+    windowSocket.terminate();
+    iframeSocket.terminate();
+    port2.close();
+  });
+
   it("should have a terminate method", async () => {
     const { windowSocket, iframeSocket } = createMessageSockets(
       pluginIframe2.contentWindow as Window,
@@ -270,6 +741,74 @@ describe("postMessageSocket", () => {
     expect(cb).not.toHaveBeenCalled();
   });
 
+  it("should reject pending sendAndWait calls when the socket is terminated", async () => {
+    const { windowSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    // Nobody answers on the other side
+    const channel = windowSocket.createMessageChannel("pending", () => {});
+    const first = channel!.sendAndWait("one");
+    const second = channel!.sendAndWait("two");
+    vi.runAllTimers();
+
+    windowSocket.terminate();
+
+    await expect(first).rejects.toBeInstanceOf(SocketTerminatedError);
+    await expect(second).rejects.toThrow(ErrorStrings.SocketIsTerminated);
+    expect((windowSocket as any).answerHandlers.size).toBe(0);
+  });
+
+  it("should reject pending calls and streams on request and keep working", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    iframeSocket.createMessageChannel("never", () => new Promise(() => {}));
+    iframeSocket.createMessageChannel("echo", (payload) => payload);
+    const never = windowSocket.createMessageChannel("never", () => {});
+    const echo = windowSocket.createMessageChannel("echo", () => {});
+
+    const call = never!.sendAndWait("one");
+    const stream = never!.stream(null).next();
+    await vi.advanceTimersByTimeAsync(10);
+
+    const error = new Error("The page was replaced");
+    windowSocket.rejectPending(error);
+
+    await expect(call).rejects.toBe(error);
+    await expect(stream).rejects.toBe(error);
+    expect((windowSocket as any).answerHandlers.size).toBe(0);
+
+    const answer = echo!.sendAndWait("two");
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(answer).resolves.toBe("two");
+  });
+
+  it("should reject sendAndWait calls made after terminate", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    const iframeCb = vi.fn();
+    iframeSocket.createMessageChannel("afterTerminate", iframeCb);
+    const channel = windowSocket.createMessageChannel(
+      "afterTerminate",
+      () => {},
+    );
+
+    windowSocket.terminate();
+
+    await expect(channel!.sendAndWait("late")).rejects.toBeInstanceOf(
+      SocketTerminatedError,
+    );
+    vi.runAllTimers();
+    expect(iframeCb).not.toHaveBeenCalled();
+  });
+
   it("should not let create a channel if the socket is terminated", async () => {
     const { windowSocket } = createMessageSockets(
       pluginIframe2.contentWindow as Window,
@@ -362,6 +901,114 @@ describe("postMessageSocket", () => {
     );
   });
 
+  it("should accept messages from origins matching allowedOrigins", async () => {
+    const parentWindow = pluginIframe2.contentWindow as Window;
+    const childWindow = pluginIframe.contentWindow as Window;
+    const socket = new PostMessageSocket(parentWindow, childWindow, undefined, {
+      allowedOrigins: ["https://*.vendor.com"],
+    });
+
+    const cb = vi.fn();
+    socket.createMessageChannel("test", cb);
+
+    const dispatchFrom = (origin: string) =>
+      parentWindow.dispatchEvent(
+        new MessageEvent("message", {
+          data: {
+            name: "test",
+            id: origin,
+            payload: origin,
+            waitForResponse: false,
+          },
+          origin,
+          source: childWindow,
+        }),
+      );
+    dispatchFrom("https://cdn.vendor.com");
+    dispatchFrom("https://vendor.com.evil.io");
+    vi.runAllTimers();
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith(
+      "https://cdn.vendor.com",
+      expect.anything(),
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Origin mismatch"),
+    );
+
+    socket.terminate();
+  });
+
+  it("should send to the explicit targetOrigin", () => {
+    const childWindow = pluginIframe.contentWindow as Window;
+    const postMessage = vi
+      .spyOn(childWindow, "postMessage")
+      .mockImplementation(() => {});
+    const socket = new PostMessageSocket(
+      pluginIframe2.contentWindow as Window,
+      childWindow,
+      undefined,
+      { targetOrigin: "https://plugin.vendor.com" },
+    );
+
+    socket.createMessageChannel("test", () => {})!.send("hello");
+
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: "hello" }),
+      "https://plugin.vendor.com",
+      [],
+    );
+    socket.terminate();
+  });
+
+  it("should hold messages until an allowed origin answers if the target origin is unreadable", () => {
+    const parentWindow = pluginIframe2.contentWindow as Window;
+    const postMessage = vi.fn();
+    // A cross-origin window throws when its origin is read
+    const crossOriginWindow = {
+      postMessage,
+      get origin(): string {
+        throw new DOMException("Blocked a frame", "SecurityError");
+      },
+    } as unknown as Window;
+
+    expect(
+      () => new PostMessageSocket(parentWindow, crossOriginWindow),
+    ).toThrow(ErrorStrings.NoTargetOrigin);
+
+    const socket = new PostMessageSocket(
+      parentWindow,
+      crossOriginWindow,
+      undefined,
+      {
+        allowedOrigins: (origin) => origin.startsWith("https://"),
+      },
+    );
+    const channel = socket.createMessageChannel("test", () => {});
+
+    channel!.send("before");
+    parentWindow.dispatchEvent(
+      new MessageEvent("message", {
+        data: { name: "test", id: "1", payload: null, waitForResponse: false },
+        origin: "https://host.customer.com",
+        source: crossOriginWindow as unknown as MessageEventSource,
+      }),
+    );
+    channel!.send("after");
+
+    expect(
+      postMessage.mock.calls.map(([message, origin]) => [
+        message.payload,
+        origin,
+      ]),
+    ).toEqual([
+      ["before", "https://host.customer.com"],
+      ["after", "https://host.customer.com"],
+    ]);
+    socket.terminate();
+  });
+
   it("should handle async callbacks correctly", async () => {
     const { windowSocket, iframeSocket } = createMessageSockets(
       pluginIframe2.contentWindow as Window,
@@ -384,7 +1031,7 @@ describe("postMessageSocket", () => {
     const responsePromise = testChannel?.sendAndWait("test data");
     vi.runAllTimers();
 
-    expect(asyncCb).toHaveBeenCalledWith("test data");
+    expect(asyncCb).toHaveBeenCalledWith("test data", expect.anything());
 
     responsePromise?.then((response) => {
       expect(response).toBe("Processed: test data");
@@ -408,17 +1055,52 @@ describe("postMessageSocket", () => {
     );
 
     const responsePromise = testChannel?.sendAndWait("trigger error");
+    const assertion =
+      expect(responsePromise).rejects.toBeInstanceOf(RemoteError);
     vi.runAllTimers();
 
-    expect(errorCb).toHaveBeenCalledWith("trigger error");
+    expect(errorCb).toHaveBeenCalledWith("trigger error", expect.anything());
     expect(console.error).toHaveBeenCalledWith(
       expect.stringContaining('Error in callback for "errorTest"'),
     );
 
-    responsePromise?.then((response) => {
-      // should receive error response
-      expect(response).toEqual({ error: "Callback failed!" });
+    // should receive error response as a rejection
+    await assertion;
+    await expect(responsePromise).rejects.toThrow("Callback failed!");
+  });
+
+  it("should carry name, code, stack and custom data of remote errors", async () => {
+    const { windowSocket, iframeSocket } = createMessageSockets(
+      pluginIframe2.contentWindow as Window,
+      pluginIframe.contentWindow as Window,
+    );
+
+    class QuotaError extends Error {
+      code = "QUOTA";
+      data = { limit: 100, used: 120 };
+      constructor() {
+        super("Quota exceeded");
+        this.name = "QuotaError";
+      }
+    }
+
+    windowSocket.createMessageChannel("quota", () => {
+      throw new QuotaError();
     });
+    const testChannel = iframeSocket.createMessageChannel("quota", () => {});
+
+    const responsePromise = testChannel!.sendAndWait("save");
+    const caught = responsePromise.catch((error) => error);
+    vi.runAllTimers();
+
+    const error = await caught;
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error.name).toBe("RemoteError");
+    expect(error.remoteName).toBe("QuotaError");
+    expect(error.message).toBe("Quota exceeded");
+    expect(error.code).toBe("QUOTA");
+    expect(error.data).toEqual({ limit: 100, used: 120 });
+    expect(error.remoteStack).toContain("Quota exceeded");
   });
 
   it("should handle non-Error exceptions in callbacks", async () => {
@@ -438,14 +1120,18 @@ describe("postMessageSocket", () => {
     );
 
     const responsePromise = testChannel?.sendAndWait("trigger error");
+    const caught = responsePromise?.catch((error) => error);
     vi.runAllTimers();
 
     expect(console.error).toHaveBeenCalledWith(
       expect.stringContaining('Error in callback for "stringErrorTest"'),
     );
 
-    responsePromise?.then((response) => {
-      expect(response).toEqual({ error: "String error" });
+    const error = await caught;
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error).toMatchObject({
+      message: "String error",
+      remoteName: "Error",
     });
   });
 
@@ -504,7 +1190,7 @@ describe("postMessageSocket", () => {
     let messageHandler: any = null;
 
     // Intercept removeEventListener to capture the handler
-    parentWindow.removeEventListener = function(type, listener, options) {
+    parentWindow.removeEventListener = function (type, listener, options) {
       if (type === "message") {
         messageHandler = listener;
       }
@@ -602,7 +1288,7 @@ describe("postMessageSocket", () => {
     vi.runAllTimers();
 
     // Callback should have been called and errored
-    expect(errorCb).toHaveBeenCalledWith("trigger error");
+    expect(errorCb).toHaveBeenCalledWith("trigger error", expect.anything());
 
     // Error should be logged
     expect(console.error).toHaveBeenCalledWith(
@@ -613,3 +1299,140 @@ describe("postMessageSocket", () => {
     // This is tested implicitly - if an error response were sent, it would cause issues
   });
 });
+
+describe("PostMessageSocket listeners and middleware", () => {
+  const sockets: PostMessageSocket[] = [];
+
+  function createPair() {
+    const [first, second] = createInMemoryTransportPair();
+    const host = new PostMessageSocket(first);
+    const plugin = new PostMessageSocket(second);
+    sockets.push(host, plugin);
+    return { host, plugin };
+  }
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  it("should call every listener of a channel and answer with the first one", async () => {
+    const { host, plugin } = createPair();
+    const first = vi.fn(() => "first");
+    const second = vi.fn(() => "second");
+    plugin.createMessageChannel("selection", first);
+    plugin.createMessageChannel("selection", second);
+    const channel = host.createMessageChannel("selection");
+
+    await expect(channel!.sendAndWait([0, 4])).resolves.toBe("first");
+    expect(first).toHaveBeenCalledWith([0, 4], expect.anything());
+    expect(second).toHaveBeenCalledWith([0, 4], expect.anything());
+  });
+
+  it("should remove a single listener of a channel", async () => {
+    const { host, plugin } = createPair();
+    const first = vi.fn(() => "first");
+    const second = vi.fn(() => "second");
+    plugin.createMessageChannel("selection", first);
+    plugin.createMessageChannel("selection", second);
+    plugin.removeListener("selection", first);
+    const channel = host.createMessageChannel("selection");
+
+    await expect(channel!.sendAndWait(null)).resolves.toBe("second");
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it("should pass inbound and outbound messages through the middleware in order", async () => {
+    const { host, plugin } = createPair();
+    const seen: string[] = [];
+    host.use((message, next, { direction }) => {
+      if (!message.kind) seen.push(`${direction} ${message.name}`);
+      next();
+    });
+    host.use((message, next, { direction }) => {
+      // Wraps outgoing requests and unwraps the answers
+      if (direction === "outbound" && !message.kind) {
+        return next({ ...message, payload: { body: message.payload } });
+      }
+      if (direction === "inbound" && message.kind === "response") {
+        return next({ ...message, payload: `${message.payload}!` });
+      }
+      next();
+    });
+    const greet = vi.fn(({ body }: { body: string }) => `hello ${body}`);
+    plugin.createMessageChannel("greet", greet);
+    const channel = host.createMessageChannel("greet");
+
+    await expect(channel!.sendAndWait("plugin")).resolves.toBe("hello plugin!");
+    expect(seen).toEqual(["outbound greet"]);
+  });
+
+  it("should drop messages whose middleware does not call next", async () => {
+    const { host, plugin } = createPair();
+    const greet = vi.fn();
+    const remove = plugin.use((message, next) => {
+      if (message.name !== "blocked") next();
+    });
+    plugin.createMessageChannel("blocked", greet);
+    plugin.createMessageChannel("greet", greet);
+    const blocked = host.createMessageChannel("blocked");
+    const allowed = host.createMessageChannel("greet");
+
+    blocked!.send("first");
+    await allowed!.sendAndWait("second");
+    remove();
+    await blocked!.sendAndWait("third");
+
+    expect(greet).toHaveBeenCalledTimes(2);
+    expect(greet).not.toHaveBeenCalledWith("first", expect.anything());
+  });
+
+  it("should reject requests whose inbound middleware throws", async () => {
+    const { host, plugin } = createPair();
+    const greet = vi.fn();
+    plugin.use((message, next) => {
+      if (message.kind !== "response" && message.name === "greet") {
+        throw new Error("Unauthorized");
+      }
+      next();
+    });
+    plugin.createMessageChannel("greet", greet);
+    const channel = host.createMessageChannel("greet");
+
+    const error = await channel!.sendAndWait(null).catch((error) => error);
+
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error.message).toBe("Unauthorized");
+    expect(greet).not.toHaveBeenCalled();
+  });
+});
+
+describe("PostMessageSocket error answers", () => {
+  const sockets: PostMessageSocket[] = [];
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  it.each([false, true])(
+    "should send errors whose data cannot be cloned without it (batch: %s)",
+    async (batch) => {
+      const [first, second] = createInMemoryTransportPair();
+      const host = new PostMessageSocket(first);
+      const plugin = new PostMessageSocket(second, () => {}, { batch });
+      sockets.push(host, plugin);
+      plugin.createMessageChannel("save", () => {
+        throw Object.assign(new Error("Conflict"), {
+          code: 409,
+          data: { retry: () => {} },
+        });
+      });
+      const channel = host.createMessageChannel("save");
+
+      const error = await channel!.sendAndWait(null).catch((error) => error);
+
+      expect(error).toBeInstanceOf(RemoteError);
+      expect(error).toMatchObject({ message: "Conflict", code: 409 });
+      expect(error.data).toBeUndefined();
+    },
+  );
+});
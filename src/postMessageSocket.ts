@@ -1,30 +1,140 @@
 import type {
+  BatchOptions,
+  CallContext,
+  CallOptions,
+  Codec,
   CustomEventListener,
   EventName,
   Message,
   MessageChannel,
+  Middleware,
+  MiddlewareDirection,
+  ProxyCall,
+  ProxyRef,
   SafeResult,
+  SendOptions,
+  SerializedError,
+  SocketOptions,
+  StreamChunk,
+  StreamOptions,
   SuccessResult,
+  Transport,
 } from "./types/index";
 import { ErrorStrings, ResultStrings } from "./types/index";
+import {
+  ProxyReleasedError,
+  RemoteError,
+  SocketTerminatedError,
+  TimeoutError,
+  serializeError,
+} from "./errors";
+import { ChunkQueue, DEFAULT_HIGH_WATER_MARK, toAsyncIterator } from "./stream";
+import { takeTransferables } from "./transfer";
+import { unwrapState } from "./state";
+import { INTERNAL_CHANNEL_PREFIX, PROXY_CHANNEL_PREFIX } from "./channels";
+import {
+  callProxied,
+  extractProxies,
+  insertProxies,
+  registerRemoteProxy,
+} from "./proxy";
+import { MessagePortTransport, WindowTransport } from "./transport";
+import { MessageBatcher, getDedupeKey, isBatchMessage } from "./batch";
+import type { BatchEntry } from "./batch";
+
+/**
+ * Bookkeeping for a sendAndWait() call that is waiting for its answer
+ */
+interface PendingRequest {
+  resolve: (message: Message) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Bookkeeping for a stream() call that is consuming chunks
+ */
+interface StreamConsumer {
+  push: (message: Message) => void;
+  end: (message: Message) => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * Flow control state of a stream this socket is producing.
+ * `credit` is the number of chunks the consumer is ready to receive.
+ */
+interface StreamProducer {
+  credit: number;
+  wake: (() => void) | null;
+}
+
+/**
+ * Copy of an error envelope without its data, sent if the data cannot be cloned
+ */
+function withoutErrorData(error: SerializedError): SerializedError {
+  const copy = { ...error };
+  delete copy.data;
+  return copy;
+}
+
+/**
+ * Rejects with the error createError() returns unless the promise settles within
+ * timeout milliseconds, 0 waits forever
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  createError: () => Error,
+): Promise<T> {
+  if (timeout <= 0) return promise;
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(createError()), timeout);
+    promise.then(resolve, reject).finally(() => clearTimeout(timeoutId));
+  });
+}
+
+/**
+ * Tells transports apart from windows in the constructor's arguments
+ */
+function isTransport(value: unknown): value is Transport {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Transport).subscribe === "function"
+  );
+}
 
 /**
  * PostMessageSocket provides secure, bidirectional communication between two window instances
  * using the postMessage API. It supports both fire-and-forget messaging and request-response patterns.
+ * Through a {@link Transport} it works the same way with workers, shared workers,
+ * message ports, broadcast channels and in-memory pairs.
  *
  * ## Features
  * - Type-safe message channels with request/response patterns
  * - Origin validation for security
  * - Automatic async callback handling
  * - Error handling with custom error callbacks
- * - Once-listeners for one-time event handling
+ * - Errors thrown by remote callbacks reject sendAndWait() with a RemoteError
+ * - Several listeners per channel, and once-listeners for one-time event handling
+ * - Middleware seeing every inbound and outbound message, see use()
+ * - Per-call and per-socket timeouts for sendAndWait()
+ * - Cancellation of sendAndWait() with an AbortSignal, forwarded to the remote callback
+ * - Streaming responses from (async) generator callbacks with back-pressure
+ * - Transferable objects (ArrayBuffer, MessagePort, ...) moved instead of cloned
+ * - Pluggable codecs keeping class instances and custom types intact
+ * - Functions and objects passed by reference with proxy(), released once unused
+ * - Moving all traffic to a private MessagePort, away from the shared window listener
+ * - Pluggable transports (Window, Worker, SharedWorker, MessagePort, BroadcastChannel, in-memory)
  * - Unique message ID generation for correlation
- * - Clean resource management with terminate()
+ * - Clean resource management with terminate(), which rejects pending requests
  *
  * ## Security
  * - Validates message source window to prevent unauthorized communication
  * - Validates message origin to prevent cross-origin attacks
  * - Origin is captured at construction time and enforced for all messages
+ * - `allowedOrigins` accepts exact origins, wildcard patterns or a predicate, and
+ *   `targetOrigin` sets the origin messages are sent to explicitly
  *
  * ## Lifecycle
  * 1. Create socket instances in both windows (parent and child)
@@ -55,6 +165,104 @@ import { ErrorStrings, ResultStrings } from "./types/index";
  * childSocket.terminate();
  * ```
  *
+ * @example Workers
+ * ```typescript
+ * // In the page
+ * const worker = new Worker("worker.js");
+ * const socket = new PostMessageSocket(new WorkerTransport(worker));
+ * const channel = socket.createMessageChannel("resize", () => {});
+ * const thumbnail = await channel.sendAndWait(bitmap, { transfer: [bitmap] });
+ *
+ * // In worker.js
+ * const socket = new PostMessageSocket(new WorkerTransport(self));
+ * socket.createMessageChannel("resize", (bitmap) => resize(bitmap, 200));
+ * ```
+ *
+ * @example Request Timeouts
+ * ```typescript
+ * // Every sendAndWait() on this socket gives up after 5 seconds...
+ * const socket = new PostMessageSocket(window, iframe.contentWindow, undefined, {
+ *   timeout: 5000,
+ * });
+ * const channel = socket.createMessageChannel("export", () => {});
+ *
+ * // ...unless the call asks for something else
+ * try {
+ *   await channel.sendAndWait(document, { timeout: 60000 });
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) console.warn("Export did not finish");
+ * }
+ * ```
+ *
+ * @example Cancellation
+ * ```typescript
+ * // In window A: the callback gets a signal that aborts when the caller gives up
+ * socket.createMessageChannel("upload", async (file, { signal }) => {
+ *   return await fetch("/upload", { method: "POST", body: file, signal });
+ * });
+ *
+ * // In window B
+ * const controller = new AbortController();
+ * const upload = channel.sendAndWait(file, { signal: controller.signal });
+ * cancelButton.onclick = () => controller.abort(); // upload rejects with AbortError
+ * ```
+ *
+ * @example Streaming
+ * ```typescript
+ * // In window A: the callback is an async generator
+ * socket.createMessageChannel("complete", async function* (prompt: string) {
+ *   for await (const token of model.generate(prompt)) {
+ *     yield token;
+ *   }
+ * });
+ *
+ * // In window B: chunks arrive as an async iterable
+ * const channel = socket.createMessageChannel("complete", () => {});
+ * for await (const token of channel.stream("Once upon a time")) {
+ *   output.textContent += token;
+ * }
+ * ```
+ *
+ * @example Transferables
+ * ```typescript
+ * const channel = socket.createMessageChannel("process", () => {});
+ * const buffer = new ArrayBuffer(1024 * 1024);
+ * // The buffer is moved to the other window and detached here
+ * await channel.sendAndWait(buffer, { transfer: [buffer] });
+ * // or mark the value itself
+ * await channel.sendAndWait({ buffer: transfer(buffer, [buffer]) });
+ * ```
+ *
+ * @example Codecs
+ * ```typescript
+ * // The same codec on both sides restores Money instances from the payloads
+ * const codec = createCodec([
+ *   defineType({
+ *     name: "Money",
+ *     is: (value): value is Money => value instanceof Money,
+ *     encode: (money) => ({ amount: money.amount, currency: money.currency }),
+ *     decode: ({ amount, currency }) => new Money(amount, currency),
+ *   }),
+ * ]);
+ * const socket = new PostMessageSocket(window, iframe.contentWindow, undefined, {
+ *   codec,
+ * });
+ * ```
+ *
+ * @example Remote Proxies
+ * ```typescript
+ * // In window A: the callback runs here, whenever window B calls its proxy
+ * await channel.sendAndWait({
+ *   file,
+ *   onProgress: proxy((percent: number) => (progressBar.value = percent)),
+ * });
+ *
+ * // In window B
+ * socket.createMessageChannel("upload", async ({ file, onProgress }) => {
+ *   await onProgress(50);
+ * });
+ * ```
+ *
  * @example One-time Event Listener
  * ```typescript
  * socket.createMessageChannel("init", (data) => {
@@ -67,19 +275,51 @@ export default class PostMessageSocket {
   private messageCounter = 0;
   private isTerminated = false;
   private errorCallback: (error: string) => void;
-  private window: Window;
-  private targetWindow: Window;
-  private targetOrigin: string;
+  /** Transport all traffic goes through */
+  private transport: Transport;
+  private unsubscribe: () => void;
+  /** Transport offered to the other side, used as soon as a message arrives through it */
+  private acceptedTransport: Transport | null = null;
+  private unsubscribeAccepted: (() => void) | null = null;
+  private defaultTimeout: number;
+  /** Converts payloads, they are sent as they are without one */
+  private codec: Codec | null;
+  /** Listeners by channel name, in the order they were added */
   private customEventListeners: Map<
     EventName,
-    CustomEventListener<unknown, unknown>
+    CustomEventListener<unknown, unknown>[]
   > = new Map();
+  /** Steps every inbound and outbound message passes, in the order they were added */
+  private middleware: Middleware[] = [];
   private onMessageFn = this.onMessage.bind(this);
-  private answerHandlers: Map<string, (m: Message) => void> = new Map();
+  private answerHandlers: Map<string, PendingRequest> = new Map();
+  /** Abort controllers of incoming requests whose callback is still running */
+  private incomingRequests: Map<string, AbortController> = new Map();
+  /** Streams requested by this socket, by request id */
+  private streamConsumers: Map<string, StreamConsumer> = new Map();
+  /** Streams requested by the other window, by request id */
+  private streamProducers: Map<string, StreamProducer> = new Map();
+  /** Channels of the values this socket sent with proxy() */
+  private exposedProxies: Set<EventName> = new Set();
+  /** Collects outgoing messages while batching is on, see setBatching() */
+  private batcher: MessageBatcher | null = null;
+  /** Channels whose identical requests share one answer while batching is on */
+  private dedupedChannels: Set<EventName> = new Set();
+  /** Answers of requests that identical ones can share, by dedupe key */
+  private inFlightRequests: Map<
+    string,
+    { id: string; answer: Promise<unknown> }
+  > = new Map();
+  /** Releases remote proxies once they are garbage collected */
+  private remoteProxies = new FinalizationRegistry<EventName>((name) =>
+    this.sendRelease(name),
+  );
 
   /**
-   * Creates a new PostMessageSocket for bidirectional communication between windows.
-   * The target origin is captured at construction time and enforced for all messages.
+   * Creates a new PostMessageSocket for bidirectional communication between windows,
+   * or through any other transport.
+   * With windows, the target origin is captured at construction time and enforced for all messages,
+   * unless the options set `targetOrigin` or `allowedOrigins` (see OriginOptions).
    *
    * @example
    * ```typescript
@@ -87,26 +327,105 @@ export default class PostMessageSocket {
    * const socket = new PostMessageSocket(
    *   window,
    *   iframe.contentWindow,
-   *   (error) => console.error('Socket error:', error)
+   *   (error) => console.error('Socket error:', error),
+   *   { timeout: 10000 }
    * );
+   *
+   * // In a plugin hosted on another domain than its parent
+   * const socket = new PostMessageSocket(window, window.parent, undefined, {
+   *   allowedOrigins: ["https://app.example.com", "https://*.example.com"],
+   * });
+   *
+   * // Through a transport
+   * const socket = new PostMessageSocket(new WorkerTransport(worker), undefined, {
+   *   timeout: 10000,
+   * });
    * ```
    */
+  constructor(
+    transport: Transport,
+    errorCallback?: (error: string) => void,
+    options?: SocketOptions,
+  );
   constructor(
     window: Window,
     targetWindow: Window,
-    errorCallback: (error: string) => void = (error) => console.error(error),
+    errorCallback?: (error: string) => void,
+    options?: SocketOptions,
+  );
+  constructor(
+    windowOrTransport: Window | Transport,
+    targetWindowOrErrorCallback?: Window | ((error: string) => void),
+    errorCallbackOrOptions?: ((error: string) => void) | SocketOptions,
+    windowOptions?: SocketOptions,
   ) {
-    this.window = window;
-    this.targetWindow = targetWindow;
-    this.targetOrigin = targetWindow.origin;
-    this.errorCallback = errorCallback;
-    this.window.addEventListener("message", this.onMessageFn);
+    let options: SocketOptions | undefined;
+    if (isTransport(windowOrTransport)) {
+      this.transport = windowOrTransport;
+      this.errorCallback = targetWindowOrErrorCallback as (
+        error: string,
+      ) => void;
+      options = errorCallbackOrOptions as SocketOptions | undefined;
+    } else {
+      options = windowOptions;
+      this.transport = new WindowTransport(
+        windowOrTransport,
+        targetWindowOrErrorCallback as Window,
+        {
+          onError: (error) => this.errorCallback(error),
+          allowedOrigins: options?.allowedOrigins,
+          targetOrigin: options?.targetOrigin,
+        },
+      );
+      this.errorCallback = errorCallbackOrOptions as (error: string) => void;
+    }
+    this.errorCallback ??= (error) => console.error(error);
+    this.defaultTimeout = options?.timeout ?? 0;
+    this.codec = options?.codec ?? null;
+    this.unsubscribe = this.transport.subscribe(this.onMessageFn);
+    if (options?.batch) this.setBatching(options.batch);
+  }
+
+  /**
+   * Turns batching on or off. While it is on, the messages sent within a microtask
+   * (or a frame, see BatchOptions) leave in one envelope, and identical sendAndWait()
+   * calls on the channels listed in `dedupe` share the answer of the request still
+   * waiting for it. Turning it off sends the collected messages right away.
+   * Only turn it on once the other side is known to unpack envelopes (protocol
+   * capability "batch"), and note that send() errors are then reported through the
+   * error callback instead of being thrown.
+   *
+   * @example
+   * ```typescript
+   * socket.setBatching({ flush: "frame", dedupe: ["getCellValue"] });
+   *
+   * // Leaves in one message and gets one answer
+   * const values = await Promise.all(
+   *   cells.map((cell) => channel.sendAndWait(cell)),
+   * );
+   * ```
+   */
+  setBatching(options: boolean | BatchOptions) {
+    this.batcher?.flush();
+    this.batcher = null;
+    this.dedupedChannels = new Set();
+    if (!options || this.isTerminated) return;
+    const { flush, dedupe = [] } = options === true ? {} : options;
+    this.batcher = new MessageBatcher(
+      (entries) => this.sendBatch(entries),
+      flush,
+    );
+    this.dedupedChannels = new Set(
+      dedupe.filter((name) => !name.startsWith(INTERNAL_CHANNEL_PREFIX)),
+    );
   }
 
   /**
    * Creates a message channel for typed, bidirectional communication.
    * Both windows must create a channel with the same name to communicate.
    * Callbacks can be sync or async - return value is sent back if sender used sendAndWait().
+   * Every callback added for a name is called, in the order they were added; the first
+   * one answers requests. Without a callback, the channel only sends.
    *
    * @example Fire-and-forget messaging
    * ```typescript
@@ -129,6 +448,29 @@ export default class PostMessageSocket {
    * console.log(sum); // 10
    * ```
    *
+   * @example Streaming
+   * ```typescript
+   * // In window A
+   * socket.createMessageChannel("tail", async function* (file: string) {
+   *   yield* readLines(file);
+   * });
+   *
+   * // In window B
+   * const channel = socket.createMessageChannel("tail", () => {});
+   * for await (const line of channel.stream("app.log", { highWaterMark: 100 })) {
+   *   console.log(line);
+   * }
+   * ```
+   *
+   * @example Several listeners
+   * ```typescript
+   * socket.createMessageChannel("selection", (range) => toolbar.update(range));
+   * socket.createMessageChannel("selection", (range) => statusBar.update(range));
+   *
+   * // Only sending, e.g. in the window calling "calculate"
+   * const channel = socket.createMessageChannel("calculate");
+   * ```
+   *
    * @example One-time initialization
    * ```typescript
    * socket.createMessageChannel("ready", (data) => {
@@ -138,7 +480,7 @@ export default class PostMessageSocket {
    */
   createMessageChannel<T, U>(
     name: string,
-    callback: CustomEventListener<T, U>["callback"],
+    callback?: CustomEventListener<T, U>["callback"],
     options: { once: boolean } = { once: false },
   ): MessageChannel<T, U> | null {
     if (this.isTerminated) {
@@ -146,86 +488,738 @@ export default class PostMessageSocket {
       return null;
     }
 
+    const messageChannel = this.createChannel<T, U>(name);
+    if (callback) {
+      const listeners = this.customEventListeners.get(name) ?? [];
+      listeners.push({
+        callback,
+        options,
+        messageChannel,
+      } as CustomEventListener<unknown, unknown>);
+      this.customEventListeners.set(name, listeners);
+    }
+
+    return messageChannel;
+  }
+
+  /**
+   * Adds a step to the middleware chain every message passes, inbound ones after their
+   * payload is decoded and outbound ones before it is encoded. Steps run in the order
+   * they were added, in both directions. Returns a function removing the step.
+   *
+   * @example Logging
+   * ```typescript
+   * socket.use((message, next, { direction }) => {
+   *   console.debug(direction, message.name, message.payload);
+   *   next();
+   * });
+   * ```
+   *
+   * @example Authentication
+   * ```typescript
+   * socket.use((message, next, { direction }) => {
+   *   if (direction === "outbound") {
+   *     return next({ ...message, payload: { token, body: message.payload } });
+   *   }
+   *   next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware) {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((step) => step !== middleware);
+    };
+  }
+
+  /**
+   * Passes a message through the middleware chain and hands it to `last` if every
+   * step called `next`
+   */
+  private runMiddleware(
+    message: Message,
+    direction: MiddlewareDirection,
+    last: (message: Message) => void,
+  ) {
+    // Removing a step while a message passes does not skip the ones after it
+    const chain = [...this.middleware];
+    const step = (index: number, current: Message) => {
+      const middleware = chain[index];
+      if (!middleware) {
+        last(current);
+        return;
+      }
+      middleware(current, (next = current) => step(index + 1, next), {
+        direction,
+      });
+    };
+    step(0, message);
+  }
+
+  /**
+   * Creates the sending side of a message channel without listening on it.
+   */
+  private createChannel<T, U>(name: EventName): MessageChannel<T, U> {
     const sendPostMessage = (opts: {
       payload: T;
       waitForResponse?: boolean;
       msgId?: string;
+      transfer?: Transferable[];
     }): string => {
-      const { payload, waitForResponse, msgId } = opts;
-      // Use provided message ID for responses, or generate new ID for new messages
+      const { payload, waitForResponse, msgId, transfer } = opts;
+      // Use provided message ID (responses, pre-registered requests) or generate a new one
       const id = msgId ? msgId : this.getNextMsgId();
-      this.targetWindow.postMessage(
+      this.postMessage(
         {
           id,
           name,
           payload,
-          waitForResponse,
+          waitForResponse: Boolean(waitForResponse),
         },
-        this.targetOrigin, // Enforces origin security
+        transfer,
       );
       return id;
     };
 
-    const send = (
-      payload: T,
-      opts?: {
-        msgId?: string;
-      },
-    ): ResultStrings.Success => {
-      const { msgId } = opts || {};
+    const send = (payload: T, opts?: SendOptions): ResultStrings.Success => {
+      const { msgId, transfer } = opts || {};
       sendPostMessage({
         payload,
         waitForResponse: false,
         msgId,
+        transfer,
       });
       return ResultStrings.Success;
     };
 
-    const sendAndWait = async (payload: T): Promise<SuccessResult<U>> => {
-      const id = sendPostMessage({
-        payload,
-        waitForResponse: true,
+    const sendAndWait = async (
+      payload: T,
+      opts?: CallOptions,
+    ): Promise<SuccessResult<U>> => {
+      const { timeout = this.defaultTimeout, signal, transfer } = opts || {};
+      if (this.isTerminated) {
+        throw new SocketTerminatedError();
+      }
+      // Don't bother the other window with an already cancelled request
+      signal?.throwIfAborted();
+      const key =
+        this.dedupedChannels.has(name) && !signal && !transfer
+          ? getDedupeKey(name, payload)
+          : null;
+      if (key !== null) {
+        const inFlight = this.inFlightRequests.get(key);
+        if (inFlight) {
+          // Every caller waits as long as its own timeout allows
+          return (await withTimeout(
+            inFlight.answer,
+            timeout,
+            () => new TimeoutError(name, inFlight.id, timeout),
+          )) as SuccessResult<U>;
+        }
+      }
+      const id = this.getNextMsgId();
+      // Register the handler first, the answer may arrive before postMessage returns
+      const answer = this.handleAnswerMessage(name, id, {
+        timeout,
+        signal,
       });
+      if (key !== null) {
+        this.inFlightRequests.set(key, { id, answer });
+        const forget = () => this.inFlightRequests.delete(key);
+        answer.then(forget, forget);
+      }
+      try {
+        sendPostMessage({
+          payload,
+          waitForResponse: true,
+          msgId: id,
+          transfer,
+        });
+      } catch (error) {
+        // e.g. DataCloneError, the request never left this window
+        this.answerHandlers.get(id)?.reject(error as Error);
+      }
       // Wait for the response to arrive and be handled in onMessage
-      const result = (await this.handleAnswerMessage(id)) as Promise<
-        SuccessResult<U>
-      >;
+      const result = (await answer) as SuccessResult<U>;
       return result;
     };
 
-    this.customEventListeners.set(name, {
-      callback,
-      options,
-      messageChannel: {
-        send,
-        sendAndWait,
-      },
-    } as CustomEventListener<unknown, unknown>);
+    const stream = (
+      payload: T,
+      opts?: StreamOptions,
+    ): AsyncIterableIterator<StreamChunk<U>> =>
+      this.requestStream<StreamChunk<U>>(name, payload, opts);
 
     return {
       send,
       sendAndWait,
+      stream,
     };
   }
 
+  /**
+   * Moves all traffic to a private MessagePort whose other end belongs to the target window.
+   * Messages are sent and received through the port only, so they are invisible to other
+   * message listeners of the window and need no source and origin checks.
+   *
+   * @example
+   * ```typescript
+   * // In window B, after receiving port2 from window A
+   * socket.usePort(port2);
+   * ```
+   */
+  usePort(port: MessagePort) {
+    this.useTransport(new MessagePortTransport(port));
+  }
+
+  /**
+   * Listens on a MessagePort whose other end was sent to the target window, in addition
+   * to the window. The socket switches to the port (see usePort()) once the first
+   * message arrives through it, and stays on the window if the other side never uses it.
+   *
+   * @example
+   * ```typescript
+   * // In window A
+   * const { port1, port2 } = new MessageChannel();
+   * socket.acceptPort(port1);
+   * channel.send({ port: port2 }, { transfer: [port2] });
+   * ```
+   */
+  acceptPort(port: MessagePort) {
+    this.acceptTransport(new MessagePortTransport(port));
+  }
+
+  /**
+   * Moves all traffic to another transport and closes the current one.
+   */
+  useTransport(transport: Transport) {
+    if (this.isTerminated) {
+      transport.close();
+      return;
+    }
+    if (this.acceptedTransport !== transport) {
+      this.closeAcceptedTransport();
+    } else {
+      this.unsubscribeAccepted?.();
+      this.acceptedTransport = null;
+      this.unsubscribeAccepted = null;
+    }
+    if (transport === this.transport) return;
+    // The collected messages were meant for the current transport
+    this.batcher?.flush();
+    this.unsubscribe();
+    this.transport.close();
+    this.transport = transport;
+    this.unsubscribe = transport.subscribe(this.onMessageFn);
+  }
+
+  /**
+   * Listens on another transport in addition to the current one, and moves all traffic
+   * to it (see useTransport()) once the first message arrives through it.
+   */
+  acceptTransport(transport: Transport) {
+    if (this.isTerminated) {
+      transport.close();
+      return;
+    }
+    this.closeAcceptedTransport();
+    this.acceptedTransport = transport;
+    this.unsubscribeAccepted = transport.subscribe((data) => {
+      // The other side started using the transport we offered
+      this.useTransport(transport);
+      this.onMessage(data);
+    });
+  }
+
+  private closeAcceptedTransport() {
+    this.unsubscribeAccepted?.();
+    this.acceptedTransport?.close();
+    this.acceptedTransport = null;
+    this.unsubscribeAccepted = null;
+  }
+
+  /**
+   * Sends a message through the transport, with its payload encoded by the codec.
+   * Transfers the objects of `transfer` and of the payload values marked with transfer(),
+   * and exposes the values marked with proxy() on channels of their own. Live objects
+   * of shared states are sent as copies of their values.
+   */
+  private postMessage(message: Message, transfer: Transferable[] = []) {
+    this.runMiddleware(message, "outbound", (message) =>
+      this.sendThroughTransport(message, transfer),
+    );
+  }
+
+  /**
+   * Sends a message that passed the middleware through the transport
+   */
+  private sendThroughTransport(message: Message, transfer: Transferable[]) {
+    const transferables = [
+      ...new Set([...transfer, ...takeTransferables(message.payload)]),
+    ];
+    const { payload: extracted, proxies } = extractProxies(
+      unwrapState(message.payload),
+      (value) => this.exposeProxy(value),
+    );
+    try {
+      const payload = this.codec ? this.codec.encode(extracted) : extracted;
+      const encoded = {
+        ...message,
+        payload,
+        ...(proxies.length > 0 && { proxies }),
+      };
+      if (this.batcher) {
+        this.batcher.add({ message: encoded, transfer: transferables });
+      } else {
+        this.transport.send(encoded, transferables);
+      }
+    } catch (error) {
+      // The other window never heard of the proxies
+      proxies.forEach(({ name }) => this.releaseExposedProxy(name));
+      throw error;
+    }
+  }
+
+  /**
+   * Sends collected messages in one envelope. If the envelope cannot be sent, the
+   * messages are sent one by one so a single failing message fails alone.
+   */
+  private sendBatch(entries: BatchEntry[]) {
+    if (entries.length === 1) {
+      this.sendBatchEntry(entries[0]);
+      return;
+    }
+    try {
+      this.transport.send(
+        {
+          id: this.getNextMsgId(),
+          name: "batch",
+          payload: entries.map(({ message }) => message),
+          waitForResponse: false,
+          kind: "batch",
+        },
+        [...new Set(entries.flatMap(({ transfer }) => transfer))],
+      );
+    } catch {
+      entries.forEach((entry) => this.sendBatchEntry(entry));
+    }
+  }
+
+  /**
+   * Sends a collected message on its own, failing the request or stream it starts
+   * if it cannot be sent, as sending it right away would have
+   */
+  private sendBatchEntry({ message, transfer }: BatchEntry) {
+    try {
+      this.transport.send(message, transfer);
+    } catch (error) {
+      const { id, name, kind, proxies } = message;
+      proxies?.forEach((proxy) => this.releaseExposedProxy(proxy.name));
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.errorCallback(`Error sending "${name}": ${errorMessage}`);
+      if (kind === "stream") {
+        this.streamConsumers.get(id)?.fail(error as Error);
+      } else if (kind === "response" && !message.error) {
+        // e.g. a result that cannot be cloned, the requester still gets an answer
+        this.sendErrorAnswer(name, id, error);
+      } else if (kind === "response" && message.error?.data !== undefined) {
+        this.sendBatchEntry({
+          message: { ...message, error: withoutErrorData(message.error) },
+          transfer: [],
+        });
+      } else {
+        this.answerHandlers.get(id)?.reject(error as Error);
+      }
+    }
+  }
+
+  /**
+   * Listens for calls of a value sent with proxy() on a channel of its own.
+   */
+  private exposeProxy(value: object): Omit<ProxyRef, "path"> {
+    const name = `${PROXY_CHANNEL_PREFIX}${this.getNextMsgId()}`;
+    this.exposedProxies.add(name);
+    this.createMessageChannel<ProxyCall, unknown>(name, (call) =>
+      callProxied(value, call),
+    );
+    return { name, type: typeof value === "function" ? "function" : "object" };
+  }
+
+  /**
+   * Forgets a value sent with proxy() once the other window released its proxy.
+   * Other channels cannot be removed this way.
+   */
+  private releaseExposedProxy(name: EventName) {
+    if (this.exposedProxies.delete(name)) {
+      this.removeListener(name);
+    }
+  }
+
+  /**
+   * Creates the proxy of a value the other window sent with proxy(). Its calls are
+   * sent on the value's channel and resolve with the answers.
+   */
+  private createRemoteProxy({ name, type }: ProxyRef): object {
+    const { sendAndWait } = this.createChannel<ProxyCall, unknown>(name);
+    let isReleased = false;
+
+    const call = async (method: string | undefined, args: unknown[]) => {
+      if (isReleased) {
+        throw new ProxyReleasedError(name);
+      }
+      return sendAndWait({ method, args });
+    };
+
+    const remote =
+      type === "function"
+        ? (...args: unknown[]) => call(undefined, args)
+        : new Proxy(
+            {},
+            {
+              get: (_, property) =>
+                // Without a "then" method, proxies are not mistaken for promises
+                typeof property === "string" && property !== "then"
+                  ? (...args: unknown[]) => call(property, args)
+                  : undefined,
+            },
+          );
+
+    registerRemoteProxy(remote, () => {
+      if (isReleased) return;
+      isReleased = true;
+      this.remoteProxies.unregister(remote);
+      this.sendRelease(name);
+    });
+    this.remoteProxies.register(remote, name, remote);
+    return remote;
+  }
+
+  /**
+   * Tells the other window that the proxy of a value it sent is no longer used.
+   */
+  private sendRelease(name: EventName) {
+    if (this.isTerminated) return;
+    this.postMessage({
+      id: this.getNextMsgId(),
+      name,
+      payload: null,
+      waitForResponse: false,
+      kind: "release",
+    });
+  }
+
+  /**
+   * Reports a message that could not be handled, because the codec could not decode its
+   * payload or a middleware threw, to whoever waits for it: the sender of a request,
+   * or the caller waiting for an answer or a chunk.
+   */
+  private failMessage(
+    { id, name, kind, waitForResponse }: Message,
+    error: unknown,
+    reason: string,
+  ) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    this.errorCallback(`${reason} "${name}": ${errorMessage}`);
+    if (kind === "chunk") {
+      this.streamConsumers.get(id)?.fail(error as Error);
+      this.sendCancel(name, id);
+    } else if (kind === "response" || this.answerHandlers.has(id)) {
+      this.answerHandlers.get(id)?.reject(error as Error);
+    } else if (kind === "stream") {
+      this.sendStreamEnd(name, id, error);
+    } else if (waitForResponse) {
+      this.sendErrorAnswer(name, id, error);
+    }
+  }
+
+  /**
+   * Sends the answer of a sendAndWait() request back to the requesting window.
+   */
+  private sendAnswer(name: EventName, id: string, payload: unknown) {
+    this.postMessage({
+      id, // Reuse same ID so sender can correlate response
+      name,
+      payload,
+      waitForResponse: false,
+      kind: "response",
+    });
+  }
+
+  /**
+   * Answers a sendAndWait() request with an error envelope instead of a payload.
+   * The requesting side rejects its promise with a RemoteError. If the error's data
+   * cannot be cloned, the error is sent without it.
+   */
+  private sendErrorAnswer(name: EventName, id: string, error: unknown) {
+    const serialized = serializeError(error);
+    const send = (envelope: SerializedError) =>
+      this.postMessage({
+        id,
+        name,
+        payload: null,
+        waitForResponse: false,
+        kind: "response",
+        error: envelope,
+      });
+    try {
+      send(serialized);
+    } catch (sendError) {
+      if (serialized.data === undefined) throw sendError;
+      send(withoutErrorData(serialized));
+    }
+  }
+
+  /**
+   * Sends a stream request and returns the async iterator its chunks are pushed into.
+   * The consumer grants the producer `highWaterMark` chunks up front and acknowledges
+   * consumed chunks in batches, so a slow consumer slows the producer down.
+   */
+  private requestStream<C>(
+    name: EventName,
+    payload: unknown,
+    {
+      signal,
+      highWaterMark = DEFAULT_HIGH_WATER_MARK,
+      transfer,
+    }: StreamOptions = {},
+  ): ChunkQueue<C> {
+    const id = this.getNextMsgId();
+    const ackEvery = Math.max(1, Math.ceil(highWaterMark / 2));
+    let consumed = 0;
+
+    const cleanup = () => {
+      this.streamConsumers.delete(id);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const queue = new ChunkQueue<C>({
+      onPull: () => {
+        if (!this.streamConsumers.has(id)) return;
+        consumed++;
+        if (consumed >= ackEvery) {
+          this.sendAck(name, id, consumed);
+          consumed = 0;
+        }
+      },
+      onReturn: () => {
+        // The consumer stopped early, the producer can stop too
+        if (!this.streamConsumers.has(id)) return;
+        cleanup();
+        this.sendCancel(name, id);
+      },
+    });
+
+    const onAbort = () => {
+      cleanup();
+      this.sendCancel(name, id);
+      queue.fail(signal?.reason);
+    };
+
+    if (this.isTerminated) {
+      queue.fail(new SocketTerminatedError());
+      return queue;
+    }
+    if (signal?.aborted) {
+      queue.fail(signal.reason);
+      return queue;
+    }
+
+    this.streamConsumers.set(id, {
+      push: (message) => queue.push(message.payload as C),
+      end: (message) => {
+        cleanup();
+        if (message.error) {
+          queue.fail(new RemoteError(message.error));
+        } else {
+          queue.end();
+        }
+      },
+      fail: (error) => {
+        cleanup();
+        queue.fail(error);
+      },
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      this.postMessage(
+        {
+          id,
+          name,
+          payload,
+          waitForResponse: true,
+          kind: "stream",
+        },
+        transfer,
+      );
+      this.sendAck(name, id, highWaterMark);
+    } catch (error) {
+      // e.g. DataCloneError, the request never left this window
+      this.streamConsumers.get(id)?.fail(error as Error);
+    }
+    return queue;
+  }
+
+  /**
+   * Lets the producer of a stream send `count` more chunks.
+   */
+  private sendAck(name: EventName, id: string, count: number) {
+    this.postMessage({
+      id,
+      name,
+      payload: count,
+      waitForResponse: false,
+      kind: "ack",
+    });
+  }
+
+  /**
+   * Finishes a stream requested by the other window, optionally with an error.
+   */
+  private sendStreamEnd(name: EventName, id: string, error?: unknown) {
+    this.postMessage({
+      id,
+      name,
+      payload: null,
+      waitForResponse: false,
+      kind: "end",
+      ...(error !== undefined && { error: serializeError(error) }),
+    });
+  }
+
+  /**
+   * Sends the items of a callback's return value as chunks of a stream.
+   * Waits for acknowledgements whenever the consumer's credit is used up,
+   * and stops early when the consumer cancels.
+   */
+  private async pipeStream(
+    name: EventName,
+    id: string,
+    result: unknown,
+    signal: AbortSignal,
+  ) {
+    const producer = this.streamProducers.get(id);
+    if (!producer) return;
+    const iterator = toAsyncIterator(result);
+
+    const waitForCredit = () =>
+      new Promise<void>((resolve) => {
+        if (producer.credit > 0 || signal.aborted) return resolve();
+        producer.wake = () => {
+          producer.wake = null;
+          signal.removeEventListener("abort", wake);
+          resolve();
+        };
+        const wake = producer.wake;
+        signal.addEventListener("abort", wake, { once: true });
+      });
+
+    try {
+      while (!signal.aborted) {
+        await waitForCredit();
+        if (signal.aborted) break;
+        const { done, value } = await iterator.next();
+        if (done || signal.aborted) break;
+        producer.credit--;
+        this.postMessage({
+          id,
+          name,
+          payload: value,
+          waitForResponse: false,
+          kind: "chunk",
+        });
+      }
+      if (!signal.aborted) {
+        this.sendStreamEnd(name, id);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.errorCallback(`Error in stream for "${name}": ${errorMessage}`);
+        this.sendStreamEnd(name, id, error);
+      }
+    } finally {
+      // Let generators run their finally blocks when the consumer gave up
+      if (signal.aborted) {
+        await iterator.return?.();
+      }
+    }
+  }
+
+  /**
+   * Tells the other window that nobody waits for the answer of a request anymore,
+   * so it can abort the signal passed to the callback handling it.
+   */
+  private sendCancel(name: EventName, id: string) {
+    this.postMessage({
+      id,
+      name,
+      payload: null,
+      waitForResponse: false,
+      kind: "cancel",
+    });
+  }
+
   /**
    * Creates a promise that resolves when a response with matching ID arrives.
    * Used for request-response pattern in sendAndWait().
+   * If timeout is a positive number, the promise rejects with a TimeoutError
+   * once the time is up. If the signal aborts, it rejects with the signal's reason.
+   * In both cases the pending entry is dropped and the other window is notified.
    */
-  private handleAnswerMessage(id: string) {
-    return new Promise((resolve) => {
-      const resolveMessage = async (message: Message) => {
-        // Clean up the handler after receiving response
-        this.answerHandlers.delete(message.id);
-        resolve(message.payload);
+  private handleAnswerMessage(
+    name: EventName,
+    id: string,
+    { timeout, signal }: { timeout: number; signal?: AbortSignal },
+  ) {
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = () => {
+        // Clean up the handler after receiving response or giving up
+        this.answerHandlers.delete(id);
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+          timeoutId = null;
+        }
+        signal?.removeEventListener("abort", onAbort);
       };
+
+      const giveUp = (error: unknown) => {
+        settle();
+        this.sendCancel(name, id);
+        reject(error);
+      };
+
+      const onAbort = () => giveUp(signal?.reason);
+
+      if (timeout > 0) {
+        timeoutId = setTimeout(
+          () => giveUp(new TimeoutError(name, id, timeout)),
+          timeout,
+        );
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
       // Register handler to be invoked by onMessage when response arrives
-      this.answerHandlers.set(id, resolveMessage);
+      this.answerHandlers.set(id, {
+        resolve: (message: Message) => {
+          settle();
+          resolve(message.payload);
+        },
+        reject: (error: Error) => {
+          settle();
+          reject(error);
+        },
+      });
     });
   }
 
   /**
-   * Removes a message channel listener by name.
+   * Removes the listeners of a message channel, or only the given one of them.
    * After removal, messages sent to this channel will trigger an error callback.
    * Note: Once-listeners are automatically removed after first invocation.
    *
@@ -237,10 +1231,27 @@ export default class PostMessageSocket {
    *
    * // Later, remove the listener
    * socket.removeListener("temp");
+   *
+   * // Remove one of several listeners
+   * socket.removeListener("selection", onSelection);
    * ```
    */
-  removeListener(eventName: string) {
-    this.customEventListeners.delete(eventName);
+  removeListener(
+    eventName: string,
+    callback?: CustomEventListener<never, unknown>["callback"],
+  ) {
+    if (!callback) {
+      this.customEventListeners.delete(eventName);
+      return;
+    }
+    const listeners = (this.customEventListeners.get(eventName) ?? []).filter(
+      (listener) => listener.callback !== callback,
+    );
+    if (listeners.length > 0) {
+      this.customEventListeners.set(eventName, listeners);
+    } else {
+      this.customEventListeners.delete(eventName);
+    }
   }
 
   /**
@@ -278,89 +1289,194 @@ export default class PostMessageSocket {
   }
 
   /**
-   * Main message handler that processes all incoming postMessage events.
+   * Main message handler that processes all messages arriving through the transport.
    * Handles both regular messages and responses to previous sendAndWait() calls.
    */
-  private async onMessage(event: MessageEvent) {
+  private onMessage(data: unknown) {
     if (this.isTerminated) {
       this.errorCallback(ErrorStrings.SocketIsTerminated);
       return;
     }
-    // Security validation: Verify message source and origin
-    // Silently ignore messages from other windows (expected when multiple plugins exist)
-    if (event.source !== this.targetWindow) {
-      // Return silently - could be other plugins or unrelated messages
+
+    const [message, error] = this.parseData(data);
+
+    if (error) {
+      this.errorCallback(error.message);
       return;
     }
 
-    // Prevent this event from bubbling to other listeners
-    event.stopImmediatePropagation();
+    if (isBatchMessage(message)) {
+      message.payload.forEach((packed) => this.onMessage(packed));
+      return;
+    }
 
-    // Validate the origin matches the expected target origin (set at construction)
-    if (event.origin !== this.targetOrigin) {
-      this.errorCallback(
-        `${ErrorStrings.WrongMessagePayload}: Origin mismatch. Expected ${this.targetOrigin}, got ${event.origin}`,
+    let payload = message.payload;
+    if (this.codec) {
+      try {
+        payload = this.codec.decode(payload);
+      } catch (decodeError) {
+        this.failMessage(message, decodeError, "Error decoding the payload of");
+        return;
+      }
+      message.payload = payload;
+    }
+    if (Array.isArray(message.proxies)) {
+      payload = insertProxies(payload, message.proxies, (ref) =>
+        this.createRemoteProxy(ref),
       );
+      message.payload = payload;
+    }
+
+    try {
+      this.runMiddleware(message, "inbound", (message) => {
+        void this.handleMessage(message);
+      });
+    } catch (middlewareError) {
+      this.failMessage(message, middlewareError, "Error in middleware for");
+    }
+  }
+
+  /**
+   * Handles a message that passed the middleware: control messages of requests and
+   * streams, answers to our requests, and requests for the channel listeners.
+   */
+  private async handleMessage(message: Message) {
+    const { id, waitForResponse, name, kind, payload } = message;
+
+    // The other window gave up waiting for one of our answers
+    if (kind === "cancel") {
+      this.incomingRequests.get(id)?.abort();
       return;
     }
 
-    const [message, error] = this.parseData(event.data);
+    // The other window no longer uses the proxy of a value we sent
+    if (kind === "release") {
+      this.releaseExposedProxy(name);
+      return;
+    }
 
-    if (error) {
-      this.errorCallback(error.message);
+    // The consumer of one of our streams is ready for more chunks
+    if (kind === "ack") {
+      const producer = this.streamProducers.get(id);
+      if (producer) {
+        producer.credit += Number(payload) || 0;
+        producer.wake?.();
+      }
       return;
     }
-    const { id, waitForResponse, name, payload } = message;
+
+    // Chunks and the end of a stream we requested
+    if (kind === "chunk" || kind === "end") {
+      // Frames arriving after the consumer stopped are dropped
+      const consumer = this.streamConsumers.get(id);
+      if (!consumer) return;
+      return kind === "chunk" ? consumer.push(message) : consumer.end(message);
+    }
 
     // Check if this is a response to a previous sendAndWait() call
-    const isAnswer = this.answerHandlers.has(id);
+    const isAnswer = kind === "response" || this.answerHandlers.has(id);
 
     if (isAnswer) {
       // Resolve the waiting promise with the response payload
-      const resolveFn = this.answerHandlers.get(id);
-      if (!resolveFn) return;
-      return resolveFn(message);
+      // Answers arriving after their request timed out are dropped
+      const pending = this.answerHandlers.get(id);
+      if (!pending) return;
+      if (message.error) {
+        return pending.reject(new RemoteError(message.error));
+      }
+      return pending.resolve(message);
     }
 
-    // This is a new incoming message, find the registered listener
-    const listener = this.customEventListeners.get(name);
-    if (!listener) {
+    // This is a new incoming message, find the registered listeners
+    const listeners = this.customEventListeners.get(name);
+    if (!listeners || listeners.length === 0) {
       this.errorCallback(`${ErrorStrings.NoMessageChannel} ${name}`);
       return;
     }
 
-    const {
-      callback: cb,
-      options: { once },
-    } = listener;
-
     // Remove once-listeners after first invocation
-    if (once) {
-      this.removeListener(name);
+    listeners
+      .filter(({ options }) => options.once)
+      .forEach(({ callback }) => this.removeListener(name, callback));
+
+    // Give the callback a signal the sender can abort through a cancel message
+    const controller = new AbortController();
+    if (waitForResponse) {
+      this.incomingRequests.set(id, controller);
+    }
+    // Acks for a stream can arrive while the callback is still running
+    const isStream = kind === "stream";
+    if (isStream) {
+      this.streamProducers.set(id, { credit: 0, wake: null });
     }
 
     try {
-      // Execute the callback (handles both sync and async callbacks)
-      const result = await cb(payload);
+      // Every listener is called, the first one answers the request
+      const [first, ...others] = listeners;
+      const context = { id, signal: controller.signal };
+      let pending: unknown;
+      try {
+        pending = first.callback(payload, context);
+      } finally {
+        // The others are called even if the first one throws
+        others.forEach((listener) =>
+          this.notifyListener(name, listener, payload, context),
+        );
+      }
+      // Wait for the callback (handles both sync and async callbacks)
+      const result = await pending;
+
+      if (isStream) {
+        await this.pipeStream(name, id, result, controller.signal);
+        return result;
+      }
 
       // If sender used sendAndWait(), send the result back
-      if (waitForResponse) {
+      // unless it already gave up waiting for it
+      if (waitForResponse && !controller.signal.aborted) {
         // Send back the result to the waiting sender
-        listener.messageChannel.send(result, {
-          msgId: id, // Reuse same ID so sender can correlate response
-        });
+        this.sendAnswer(name, id, result);
       }
 
       return result;
     } catch (error) {
+      // Callbacks are expected to throw once their request is cancelled
+      if (controller.signal.aborted) {
+        return;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       this.errorCallback(`Error in callback for "${name}": ${errorMessage}`);
 
       // Send error response if caller is waiting
-      if (waitForResponse) {
-        listener.messageChannel.send({ error: errorMessage }, { msgId: id });
+      if (isStream) {
+        this.sendStreamEnd(name, id, error);
+      } else if (waitForResponse) {
+        this.sendErrorAnswer(name, id, error);
       }
+    } finally {
+      this.incomingRequests.delete(id);
+      this.streamProducers.delete(id);
+    }
+  }
+
+  /**
+   * Calls a listener that does not answer the request, reporting its errors
+   */
+  private async notifyListener(
+    name: EventName,
+    listener: CustomEventListener<unknown, unknown>,
+    payload: unknown,
+    context: CallContext,
+  ) {
+    try {
+      await listener.callback(payload, context);
+    } catch (error) {
+      if (context.signal.aborted) return;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.errorCallback(`Error in callback for "${name}": ${errorMessage}`);
     }
   }
 
@@ -377,15 +1493,54 @@ export default class PostMessageSocket {
       .slice(2, 9)}-${Date.now().toString(36)}`;
   }
 
+  /**
+   * Rejects every sendAndWait() call still waiting for its answer and fails every
+   * stream still being consumed, with the given error. The socket keeps working, for
+   * when the other window's document was replaced and will never answer them.
+   *
+   * @example
+   * ```typescript
+   * // The iframe navigated, calls made to the previous page are lost
+   * iframe.addEventListener("load", () =>
+   *   socket.rejectPending(new Error("The page was replaced")),
+   * );
+   * ```
+   */
+  rejectPending(error: Error) {
+    // Rejecting removes the entry, so iterate over a snapshot
+    [...this.answerHandlers.values()].forEach((pending) =>
+      pending.reject(error),
+    );
+    this.answerHandlers.clear();
+    [...this.streamConsumers.values()].forEach((consumer) =>
+      consumer.fail(error),
+    );
+    this.streamConsumers.clear();
+  }
+
   /**
    * Terminates the socket connection and cleans up all resources.
    * Removes event listeners, clears message channels, and prevents further communication.
+   * Every sendAndWait() still waiting for its answer and every stream still being consumed
+   * fails with a SocketTerminatedError, and the signal of every callback still handling
+   * a request is aborted.
    * Always call this method when you're done using the socket to prevent memory leaks.
    */
   terminate() {
+    // Messages sent before terminating still leave
+    this.batcher?.flush();
+    this.batcher = null;
     this.isTerminated = true;
-    this.window.removeEventListener("message", this.onMessageFn);
+    this.unsubscribe();
+    this.transport.close();
+    this.closeAcceptedTransport();
     this.customEventListeners.clear();
-    this.answerHandlers.clear();
+    this.exposedProxies.clear();
+    this.rejectPending(new SocketTerminatedError());
+
+    this.incomingRequests.forEach((controller) => controller.abort());
+    this.incomingRequests.clear();
+    this.streamProducers.clear();
+    this.inFlightRequests.clear();
   }
 }
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { ProtocolVersionError } from "./errors";
+import {
+  CAPABILITIES,
+  PROTOCOL_VERSION,
+  createProtocolFeatures,
+  createProtocolInfo,
+  negotiateProtocol,
+  readProtocolInfo,
+} from "./protocol";
+
+const legacy = { version: 0, minVersion: 0, capabilities: [] };
+
+describe("createProtocolInfo", () => {
+  it("should announce the version and capabilities of this release", () => {
+    expect(createProtocolInfo()).toEqual({
+      version: PROTOCOL_VERSION,
+      minVersion: 0,
+      capabilities: CAPABILITIES,
+    });
+    expect(createProtocolInfo(1).minVersion).toBe(1);
+  });
+});
+
+describe("readProtocolInfo", () => {
+  it("should read the announcement of the other side", () => {
+    expect(
+      readProtocolInfo({
+        protocol: { version: 3, minVersion: 2, capabilities: ["stream"] },
+      }),
+    ).toEqual({ version: 3, minVersion: 2, capabilities: ["stream"] });
+  });
+
+  it("should treat payloads without a valid announcement as version 0", () => {
+    expect(readProtocolInfo(undefined)).toEqual(legacy);
+    expect(readProtocolInfo({})).toEqual(legacy);
+    expect(readProtocolInfo({ protocol: "1" })).toEqual(legacy);
+    expect(readProtocolInfo({ protocol: { version: "1" } })).toEqual(legacy);
+  });
+
+  it("should default missing fields and drop invalid capabilities", () => {
+    expect(readProtocolInfo({ protocol: { version: 2 } })).toEqual({
+      version: 2,
+      minVersion: 0,
+      capabilities: [],
+    });
+    expect(
+      readProtocolInfo({
+        protocol: { version: 2, capabilities: ["stream", 1, null] },
+      }).capabilities,
+    ).toEqual(["stream"]);
+  });
+});
+
+describe("negotiateProtocol", () => {
+  it("should agree on the lower version and the shared capabilities", () => {
+    expect(
+      negotiateProtocol(
+        { version: 2, minVersion: 0, capabilities: ["port", "stream"] },
+        { version: 1, minVersion: 0, capabilities: ["stream", "cancel"] },
+        "plugin",
+      ),
+    ).toEqual({ version: 1, capabilities: ["stream"] });
+  });
+
+  it("should accept sides without versioning by default", () => {
+    expect(negotiateProtocol(createProtocolInfo(), legacy, "host")).toEqual({
+      version: 0,
+      capabilities: [],
+    });
+  });
+
+  it("should reject an other side older than the required version", () => {
+    const error = (() => {
+      try {
+        negotiateProtocol(createProtocolInfo(1), legacy, "plugin");
+      } catch (error) {
+        return error;
+      }
+    })() as ProtocolVersionError;
+
+    expect(error).toBeInstanceOf(ProtocolVersionError);
+    expect(error.code).toBe("INCOMPATIBLE_PROTOCOL");
+    expect(error.data).toEqual({ localVersion: 1, remoteVersion: 0 });
+    expect(error.message).toBe(
+      "Incompatible protocol version: the plugin speaks version 0, at least 1 is required",
+    );
+  });
+
+  it("should reject an other side requiring a newer version", () => {
+    expect(() =>
+      negotiateProtocol(
+        createProtocolInfo(),
+        { version: 5, minVersion: PROTOCOL_VERSION + 1, capabilities: [] },
+        "host",
+      ),
+    ).toThrow(
+      `Incompatible protocol version: the host requires version ${PROTOCOL_VERSION + 1} or newer, this side speaks ${PROTOCOL_VERSION}`,
+    );
+  });
+});
+
+describe("createProtocolFeatures", () => {
+  it("should detect the negotiated capabilities", () => {
+    const features = createProtocolFeatures({
+      version: 1,
+      capabilities: ["stream"],
+    });
+
+    expect(features.protocolVersion).toBe(1);
+    expect(features.supports("stream")).toBe(true);
+    expect(features.supports("port")).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { ProtocolVersionError } from "./errors";
+import type {
+  Capability,
+  NegotiatedProtocol,
+  ProtocolFeatures,
+  ProtocolInfo,
+} from "./types/index";
+
+/**
+ * @module Protocol version negotiation of the handshake
+ *
+ * ## Compatibility Matrix
+ *
+ * | Version | Handshake                                                            |
+ * | ------- | -------------------------------------------------------------------- |
+ * | 0       | releases before versioning, no version or capabilities are exchanged |
+ * | 1       | version and capabilities in domReady and init, private port offered  |
+ *
+ * Both sides speak the lower of their two versions. Each side can require a minimum
+ * version of the other (`minProtocolVersion`); by default every version is accepted,
+ * so plugins and hosts of older releases keep working.
+ */
+
+/** Protocol version spoken by this release */
+export const PROTOCOL_VERSION = 1;
+
+/** Capabilities of this release */
+export const CAPABILITIES: Capability[] = [
+  "port",
+  "stream",
+  "cancel",
+  "heartbeat",
+  "proxy",
+  "state",
+  "settings",
+  "hooks",
+  "events",
+  "batch",
+  "peers",
+  "reject",
+];
+
+/** What a side of a release without versioning is assumed to announce */
+const LEGACY_PROTOCOL: ProtocolInfo = {
+  version: 0,
+  minVersion: 0,
+  capabilities: [],
+};
+
+/**
+ * Creates what this side announces in the handshake.
+ */
+export function createProtocolInfo(minVersion = 0): ProtocolInfo {
+  return {
+    version: PROTOCOL_VERSION,
+    minVersion,
+    capabilities: [...CAPABILITIES],
+  };
+}
+
+/**
+ * Reads what the other side announced. A payload without a valid announcement
+ * comes from a release without versioning.
+ */
+export function readProtocolInfo(payload: unknown): ProtocolInfo {
+  if (!payload || typeof payload !== "object" || !("protocol" in payload)) {
+    return LEGACY_PROTOCOL;
+  }
+  const { protocol } = payload;
+  if (
+    !protocol ||
+    typeof protocol !== "object" ||
+    !("version" in protocol) ||
+    typeof protocol.version !== "number"
+  ) {
+    return LEGACY_PROTOCOL;
+  }
+  const { version } = protocol;
+  const minVersion =
+    "minVersion" in protocol && typeof protocol.minVersion === "number"
+      ? protocol.minVersion
+      : 0;
+  const capabilities =
+    "capabilities" in protocol && Array.isArray(protocol.capabilities)
+      ? protocol.capabilities.filter(
+          (capability): capability is Capability =>
+            typeof capability === "string",
+        )
+      : [];
+  return { version, minVersion, capabilities };
+}
+
+/**
+ * Agrees on the protocol version and capabilities of both sides.
+ *
+ * @param local - What this side announced
+ * @param remote - What the other side announced
+ * @param remoteName - Name of the other side used in the error message ("plugin" or "host")
+ * @throws {ProtocolVersionError} If either side requires a newer version than the other speaks
+ */
+export function negotiateProtocol(
+  local: ProtocolInfo,
+  remote: ProtocolInfo,
+  remoteName: "plugin" | "host",
+): NegotiatedProtocol {
+  if (remote.version < local.minVersion) {
+    throw new ProtocolVersionError(
+      local.version,
+      remote.version,
+      `the ${remoteName} speaks version ${remote.version}, at least ${local.minVersion} is required`,
+    );
+  }
+  if (local.version < remote.minVersion) {
+    throw new ProtocolVersionError(
+      local.version,
+      remote.version,
+      `the ${remoteName} requires version ${remote.minVersion} or newer, this side speaks ${local.version}`,
+    );
+  }
+  return {
+    version: Math.min(local.version, remote.version),
+    capabilities: local.capabilities.filter((capability) =>
+      remote.capabilities.includes(capability),
+    ),
+  };
+}
+
+/**
+ * Creates the feature detection exposed on initialized plugins.
+ */
+export function createProtocolFeatures({
+  version,
+  capabilities,
+}: NegotiatedProtocol): ProtocolFeatures {
+  return {
+    protocolVersion: version,
+    supports: (capability) => capabilities.includes(capability),
+  };
+}
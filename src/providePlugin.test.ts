@@ -1,5 +1,13 @@
 import { providePlugin } from "./providePlugin";
 import PostMessageSocket from "./postMessageSocket";
+import {
+	EVENT_CHANNEL,
+	HOOKS_CHANNEL,
+	PEER_CHANNEL,
+	REJECT_CHANNEL,
+	SETTINGS_CHANNEL,
+	STATE_CHANNEL,
+} from "./channels";
 import {
 	describe,
 	expect,
@@ -12,6 +20,17 @@ import {
 } from "vitest";
 
 import { useFixedMessageEvent } from "../test/utils/fixEvents";
+import {
+	ProtocolVersionError,
+	RemoteError,
+	SocketTerminatedError,
+	TimeoutError,
+	ValidationError,
+	serializeError,
+} from "./errors";
+import { createProtocolInfo } from "./protocol";
+import { proxy } from "./proxy";
+import { ErrorStrings } from "./types/index";
 
 // Not using the real console.error to avoid cluttering the test output
 console.error = vi.fn();
@@ -125,7 +144,10 @@ describe("providePlugin", () => {
 
 		await vi.advanceTimersByTimeAsync(10);
 
-		expect(domReadyCb).toHaveBeenCalled();
+		expect(domReadyCb).toHaveBeenCalledWith(
+			{ protocol: createProtocolInfo() },
+			expect.anything(),
+		);
 	});
 
 	it("should register methods as message channels", async () => {
@@ -185,7 +207,7 @@ describe("providePlugin", () => {
 		await vi.advanceTimersByTimeAsync(10);
 
 		await expect(resultPromise).resolves.toBe("method result");
-		expect(testMethod).toHaveBeenCalledWith("test payload");
+		expect(testMethod).toHaveBeenCalledWith("test payload", expect.anything());
 	});
 
 	it("should automatically add error hook if not provided", async () => {
@@ -398,10 +420,13 @@ describe("providePlugin", () => {
 			settings: {},
 			hooks: ["error"], // Array of names!
 		});
+		const initError = initPromise.catch((error) => error);
 
 		await vi.advanceTimersByTimeAsync(100);
 
-		await initPromise;
+		// The parent learns about the failed validation too
+		expect(await initError).toBeInstanceOf(RemoteError);
+		expect((await initError).message).toBe("Missing required data");
 
 		await expect(pluginPromise).rejects.toThrow("Missing required data");
 		expect(console.error).toHaveBeenCalledWith(
@@ -410,6 +435,498 @@ describe("providePlugin", () => {
 		);
 	});
 
+	it("should negotiate the protocol with the parent", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: ["stream", "pubsub"] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		expect(plugin.protocolVersion).toBe(1);
+		expect(plugin.supports("stream")).toBe(true);
+		// Both sides must support a capability
+		expect(plugin.supports("port")).toBe(false);
+		expect(plugin.supports("pubsub")).toBe(false);
+	});
+
+	it("should share the data with the parent as live state", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const onPatch = vi.fn();
+		const stateChannel = parentSocket.createMessageChannel(STATE_CHANNEL, onPatch);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: { title: "Draft" },
+			settings: {},
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: ["state"] },
+			stateVersions: [["title", 2]],
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+		const onChange = vi.fn();
+		plugin.state.subscribe(onChange);
+
+		(plugin.data as { title: string }).title = "Final";
+		await vi.advanceTimersByTimeAsync(10);
+		expect(onPatch).toHaveBeenCalledWith(
+			{ entries: [{ key: "title", value: "Final", version: 3 }] },
+			expect.anything(),
+		);
+
+		stateChannel.send({
+			entries: [{ key: "title", value: "From parent", version: 4 }],
+		});
+		await vi.advanceTimersByTimeAsync(10);
+		expect(plugin.data).toEqual({ title: "From parent" });
+		expect(onChange).toHaveBeenLastCalledWith(
+			expect.objectContaining({ key: "title", source: "remote" }),
+		);
+	});
+
+	it("should validate settings updates and report accepted ones", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const settingsChannel = parentSocket.createMessageChannel(
+			SETTINGS_CHANNEL,
+			() => {},
+		);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const validator = vi.fn(({ settings }) => {
+			if (settings.theme === "neon") throw new Error("Unknown theme");
+		});
+		const pluginPromise = providePlugin(
+			{ validator },
+			pluginWindow,
+			parentWindow,
+		);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: { noteId: "1" },
+			settings: { theme: "light" },
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: [] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+		const onSettingsChange = vi.fn();
+		plugin.onSettingsChange(onSettingsChange);
+
+		const accepted = settingsChannel.sendAndWait({ theme: "dark" });
+		await vi.advanceTimersByTimeAsync(10);
+		await accepted;
+		expect(validator).toHaveBeenLastCalledWith({
+			data: { noteId: "1" },
+			settings: { theme: "dark" },
+		});
+		expect(plugin.settings).toEqual({ theme: "dark" });
+		expect(onSettingsChange).toHaveBeenCalledWith(
+			{ theme: "dark" },
+			{ theme: "light" },
+		);
+
+		const rejected = settingsChannel.sendAndWait({ theme: "neon" });
+		rejected.catch(() => {});
+		await vi.advanceTimersByTimeAsync(10);
+		await expect(rejected).rejects.toThrow("Unknown theme");
+		expect(plugin.settings).toEqual({ theme: "dark" });
+		expect(onSettingsChange).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not mistake methods named like internal channels for them", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const settings = vi.fn(() => "saved");
+		const validator = vi.fn();
+		const pluginPromise = providePlugin(
+			{ methods: { settings }, validator },
+			pluginWindow,
+			parentWindow,
+		);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: { theme: "light" },
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: [] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		const methodChannel = parentSocket.createMessageChannel("settings");
+		const result = methodChannel.sendAndWait({ theme: "neon" });
+		await vi.advanceTimersByTimeAsync(10);
+
+		await expect(result).resolves.toBe("saved");
+		expect(settings).toHaveBeenCalledWith({ theme: "neon" }, expect.anything());
+		expect(validator).toHaveBeenCalledTimes(1);
+		expect(plugin.settings).toEqual({ theme: "light" });
+	});
+
+	it("should update the hooks object when the parent changes its hooks", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("onSave", () => "saved");
+		parentSocket.createMessageChannel("onShare", () => "shared");
+		const hooksChannel = parentSocket.createMessageChannel(HOOKS_CHANNEL, () => {});
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const onHooksChanged = vi.fn();
+		const pluginPromise = providePlugin(
+			{ listeners: { hooksChanged: onHooksChanged } },
+			pluginWindow,
+			parentWindow,
+		);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["onSave"],
+			protocol: { version: 1, minVersion: 0, capabilities: ["hooks"] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+		const { onSave } = plugin.hooks;
+
+		const update = hooksChannel.sendAndWait(["onShare"]);
+		await vi.advanceTimersByTimeAsync(10);
+		await update;
+
+		expect(Object.keys(plugin.hooks)).toEqual(["onShare"]);
+		expect(onHooksChanged).toHaveBeenCalledWith({
+			hooks: ["onShare"],
+			added: ["onShare"],
+			removed: ["onSave"],
+		});
+		const shared = plugin.hooks.onShare();
+		await vi.advanceTimersByTimeAsync(10);
+		await expect(shared).resolves.toBe("shared");
+		await expect(onSave()).rejects.toThrow("onSave");
+	});
+
+	it("should exchange fire-and-forget events with the parent", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const onEvent = vi.fn();
+		const eventChannel = parentSocket.createMessageChannel(EVENT_CHANNEL, onEvent);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: ["events"] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+		const onTheme = vi.fn();
+		plugin.subscribe("theme.**", onTheme);
+
+		plugin.emit("selection.changed", { from: 0, to: 4 });
+		eventChannel.send({ topic: "theme.colors.accent", payload: "red" });
+		eventChannel.send({ topic: "locale", payload: "de" });
+		await vi.advanceTimersByTimeAsync(10);
+
+		expect(onEvent).toHaveBeenCalledWith(
+			{ topic: "selection.changed", payload: { from: 0, to: 4 } },
+			expect.anything(),
+		);
+		expect(onTheme).toHaveBeenCalledTimes(1);
+		expect(onTheme).toHaveBeenCalledWith("red", "theme.colors.accent");
+	});
+
+	it("should not emit events to parents that do not support them", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		const onEvent = vi.fn();
+		parentSocket.createMessageChannel(EVENT_CHANNEL, onEvent);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: [],
+			protocol: { version: 1, minVersion: 0, capabilities: [] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		expect(() => plugin.emit("selection.changed", { from: 0, to: 4 })).toThrow(
+			ErrorStrings.HostEventsNotSupported,
+		);
+		await vi.advanceTimersByTimeAsync(10);
+		expect(onEvent).not.toHaveBeenCalled();
+	});
+
+	it("should not stream from or send proxies to parents that do not support them", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		const search = vi.fn(() => []);
+		parentSocket.createMessageChannel("search", search);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["search"],
+			protocol: { version: 1, minVersion: 0, capabilities: [] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		expect(() => plugin.stream("search", { query: "cats" })).toThrow(
+			ErrorStrings.HostStreamsNotSupported,
+		);
+		await expect(
+			plugin.hooks.search({ query: "cats", onResult: proxy(() => {}) }),
+		).rejects.toThrow(ErrorStrings.HostProxiesNotSupported);
+		await vi.advanceTimersByTimeAsync(10);
+		expect(search).not.toHaveBeenCalled();
+	});
+
+	it("should exchange messages with other plugins through the parent", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const route = vi.fn((request: unknown) => {
+			if ((request as { to: string }).to !== "chart") {
+				throw new Error("No routing rule allows the message");
+			}
+		});
+		const peerChannel = parentSocket.createMessageChannel(PEER_CHANNEL, route);
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin({}, pluginWindow, parentWindow);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["error"],
+			protocol: { version: 1, minVersion: 0, capabilities: ["peers"] },
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+		const onFilter = vi.fn();
+		plugin.peers.on("filter.*", onFilter);
+
+		const sent = plugin.peers.send("chart", "selection.changed", [0, 4]);
+		const rejected = plugin.peers.send("table", "selection.changed");
+		rejected.catch(() => {});
+		peerChannel.send({
+			from: "filters",
+			to: "editor",
+			topic: "filter.changed",
+			payload: { region: "EU" },
+		});
+		await vi.advanceTimersByTimeAsync(10);
+
+		await expect(sent).resolves.toBeUndefined();
+		expect(route).toHaveBeenCalledWith(
+			{ to: "chart", topic: "selection.changed", payload: [0, 4] },
+			expect.anything(),
+		);
+		await expect(rejected).rejects.toThrow(
+			"No routing rule allows the message",
+		);
+		expect(onFilter).toHaveBeenCalledWith(
+			{ region: "EU" },
+			"filter.changed",
+			"filters",
+		);
+	});
+
+	it("should reject parents older than minProtocolVersion", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		const pluginPromise = providePlugin(
+			{ minProtocolVersion: 1 },
+			pluginWindow,
+			parentWindow,
+		);
+		const pluginError = pluginPromise.catch((error) => error);
+		await vi.advanceTimersByTimeAsync(10);
+
+		// A parent without versioning announces no protocol
+		const initError = initChannel
+			.sendAndWait({ data: {}, settings: {}, hooks: ["error"] })
+			.catch((error) => error);
+		await vi.advanceTimersByTimeAsync(100);
+
+		const remoteError = await initError;
+		expect(remoteError).toBeInstanceOf(RemoteError);
+		expect(remoteError.remoteName).toBe("ProtocolVersionError");
+		expect(remoteError.code).toBe("INCOMPATIBLE_PROTOCOL");
+		expect(remoteError.data).toEqual({ localVersion: 1, remoteVersion: 0 });
+		expect((await pluginError).message).toBe(
+			"Incompatible protocol version: the host speaks version 0, at least 1 is required",
+		);
+	});
+
+	it("should reject the plugin when the parent rejects its protocol version", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		const rejectChannel = parentSocket.createMessageChannel(REJECT_CHANNEL);
+
+		const onError = vi.fn();
+		const pluginPromise = providePlugin(
+			{ listeners: { error: onError } },
+			pluginWindow,
+			parentWindow,
+		);
+		const pluginError = pluginPromise.catch((error) => error);
+		await vi.advanceTimersByTimeAsync(10);
+
+		rejectChannel.send(
+			serializeError(
+				new ProtocolVersionError(2, 1, "the plugin speaks version 1"),
+			),
+		);
+		await vi.advanceTimersByTimeAsync(10);
+
+		const error = await pluginError;
+		expect(error).toBeInstanceOf(RemoteError);
+		expect(error.remoteName).toBe("ProtocolVersionError");
+		expect(error.message).toBe(
+			"Incompatible protocol version: the plugin speaks version 1",
+		);
+		expect(onError).toHaveBeenCalledWith({ error });
+	});
+
 	it("should create hook functions that call parent hooks", async () => {
 		const parentWindow = window;
 		const pluginWindow = pluginIframe.contentWindow as Window;
@@ -464,7 +981,86 @@ describe("providePlugin", () => {
 		await vi.advanceTimersByTimeAsync(10);
 
 		await expect(saveResult).resolves.toBe("saved successfully");
-		expect(onSaveHook).toHaveBeenCalledWith({ content: "test content" });
+		expect(onSaveHook).toHaveBeenCalledWith({ content: "test content" }, expect.anything());
+	});
+
+	it("should reject calls that do not match the method and hook schemas", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		const onSaveHook = vi.fn().mockReturnValue("saved");
+		parentSocket.createMessageChannel("onSave", onSaveHook);
+		parentSocket.createMessageChannel("error", vi.fn());
+
+		const initChannel = parentSocket.createMessageChannel("init", () => []);
+
+		// Zod-style schema accepting non-empty strings
+		const text = {
+			parse: (value: unknown) => {
+				if (typeof value !== "string" || !value) {
+					throw Object.assign(new Error("Invalid text"), {
+						issues: [{ message: "Expected a non-empty string", path: [] }],
+					});
+				}
+				return value.trim();
+			},
+		};
+		const rename = vi.fn((name: unknown) => `renamed to ${name}`);
+
+		const pluginPromise = providePlugin(
+			{
+				hooks: ["onSave"],
+				methods: { rename },
+				schemas: {
+					methods: { rename: { payload: text } },
+					hooks: { onSave: { payload: (value: unknown) => text.parse(value) } },
+				},
+			},
+			pluginWindow,
+			parentWindow,
+		);
+
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["onSave", "error"],
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		// The parent gets the plugin's validation error as a RemoteError
+		const renameChannel = parentSocket.createMessageChannel("rename", () => {});
+		const invalidRename = renameChannel.sendAndWait(42).catch((e) => e);
+		await vi.advanceTimersByTimeAsync(10);
+		const remoteError = await invalidRename;
+		expect(remoteError).toBeInstanceOf(RemoteError);
+		expect(remoteError.remoteName).toBe("ValidationError");
+		expect(remoteError.code).toBe("VALIDATION_ERROR");
+		expect(remoteError.data).toEqual({
+			channel: "rename",
+			target: "payload",
+			issues: [{ message: "Expected a non-empty string", path: [] }],
+		});
+		expect(rename).not.toHaveBeenCalled();
+
+		// Valid payloads reach the method parsed
+		const validRename = renameChannel.sendAndWait("  notes ");
+		await vi.advanceTimersByTimeAsync(10);
+		await expect(validRename).resolves.toBe("renamed to notes");
+
+		// Invalid hook payloads are rejected before they are sent
+		await expect(plugin.hooks.onSave("")).rejects.toBeInstanceOf(ValidationError);
+		expect(onSaveHook).not.toHaveBeenCalled();
 	});
 
 	it("should have a working terminate method", async () => {
@@ -517,6 +1113,184 @@ describe("providePlugin", () => {
 		expect(() => plugin.terminate()).not.toThrow();
 	});
 
+	it("should reject pending hook calls when terminated", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		// The parent never answers this hook
+		parentSocket.createMessageChannel("onSave", () => new Promise(() => {}));
+		parentSocket.createMessageChannel("error", vi.fn());
+
+		const initChannel = parentSocket.createMessageChannel("init", () => {
+			return [];
+		});
+
+		const pluginPromise = providePlugin(
+			{
+				hooks: ["onSave"],
+				methods: {},
+			},
+			pluginWindow,
+			parentWindow,
+		);
+
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["onSave", "error"],
+		});
+
+		await vi.advanceTimersByTimeAsync(100);
+
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		const pending = plugin.hooks.onSave({ content: "draft" });
+		await vi.advanceTimersByTimeAsync(10);
+		plugin.terminate();
+
+		await expect(pending).rejects.toBeInstanceOf(SocketTerminatedError);
+		await expect(plugin.hooks.onSave({})).rejects.toBeInstanceOf(
+			SocketTerminatedError,
+		);
+	});
+
+	it("should report the handshake, method calls, hook timeouts and termination", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		// The parent never answers this hook
+		parentSocket.createMessageChannel("onSave", () => new Promise(() => {}));
+		parentSocket.createMessageChannel("error", vi.fn());
+
+		const initChannel = parentSocket.createMessageChannel("init", () => {
+			return [];
+		});
+
+		const ready = vi.fn();
+		const pluginPromise = providePlugin(
+			{
+				hooks: ["onSave"],
+				methods: { getData: (payload) => payload },
+				callTimeout: 1000,
+				listeners: { ready },
+			},
+			pluginWindow,
+			parentWindow,
+		);
+
+		await vi.advanceTimersByTimeAsync(10);
+
+		const initPromise = initChannel.sendAndWait({
+			data: {},
+			settings: {},
+			hooks: ["onSave", "error"],
+		});
+
+		await vi.advanceTimersByTimeAsync(100);
+
+		await initPromise;
+		const plugin = await pluginPromise;
+
+		expect(ready).toHaveBeenCalledWith({
+			protocolVersion: 0,
+			hooks: ["onSave", "error"],
+		});
+
+		const started = vi.fn();
+		const finished = vi.fn();
+		const timeout = vi.fn();
+		const destroyed = vi.fn();
+		plugin.on("methodCallStarted", started);
+		plugin.on("methodCallFinished", finished);
+		plugin.on("timeout", timeout);
+		plugin.on("destroyed", destroyed);
+
+		// The parent calls a method of the plugin
+		const getData = parentSocket
+			.createMessageChannel("getData", () => {})!
+			.sendAndWait("payload");
+		await vi.advanceTimersByTimeAsync(10);
+		await getData;
+
+		expect(started).toHaveBeenCalledWith({
+			id: 1,
+			method: "getData",
+			payload: "payload",
+		});
+		expect(finished).toHaveBeenCalledWith({
+			id: 1,
+			method: "getData",
+			duration: expect.any(Number),
+		});
+
+		const save = plugin.hooks.onSave({}).catch((error) => error);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(await save).toBeInstanceOf(TimeoutError);
+		expect(timeout).toHaveBeenCalledWith({ timeout: 1000, method: "onSave" });
+
+		plugin.terminate();
+		expect(destroyed).toHaveBeenCalledTimes(1);
+	});
+
+	it("should report a rejected initialization as an error event", async () => {
+		const parentWindow = window;
+		const pluginWindow = pluginIframe.contentWindow as Window;
+
+		addMessageEventFix(parentWindow, pluginWindow);
+		addMessageEventFix(pluginWindow, parentWindow);
+
+		const parentSocket = new PostMessageSocket(parentWindow, pluginWindow);
+		createdSockets.add(parentSocket);
+
+		parentSocket.createMessageChannel("domReady", () => {});
+		parentSocket.createMessageChannel("error", vi.fn());
+		const initChannel = parentSocket.createMessageChannel("init", () => {
+			return [];
+		});
+
+		const validationError = new Error("Missing required data");
+		const error = vi.fn();
+		const pluginPromise = providePlugin(
+			{
+				validator: () => {
+					throw validationError;
+				},
+				listeners: { error },
+			},
+			pluginWindow,
+			parentWindow,
+		);
+		pluginPromise.catch(() => {});
+
+		await vi.advanceTimersByTimeAsync(10);
+
+		initChannel
+			.sendAndWait({ data: {}, settings: {}, hooks: ["error"] })
+			.catch(() => {});
+		await vi.advanceTimersByTimeAsync(100);
+
+		await expect(pluginPromise).rejects.toBe(validationError);
+		expect(error).toHaveBeenCalledWith({ error: validationError });
+	});
+
 	it("should work when called without options", async () => {
 		const parentWindow = window;
 		const pluginWindow = pluginIframe.contentWindow as Window;
@@ -1,5 +1,56 @@
 import PostMessageSocket from "./postMessageSocket";
-import type { Method, Methods, ProvidedPlugin } from "./types/index";
+import { LifecycleEvents, createCallTracker } from "./events";
+import { StateStore, isStateData } from "./state";
+import { diffHookNames, isHookNames } from "./hooks";
+import { TopicEvents, isTopicEvent } from "./topics";
+import { isPeerMessage } from "./peers";
+import { rejectProxies } from "./proxy";
+import {
+  DOM_READY_CHANNEL,
+  EVENT_CHANNEL,
+  HEARTBEAT_CHANNEL,
+  HOOKS_CHANNEL,
+  INIT_CHANNEL,
+  PEER_CHANNEL,
+  REJECT_CHANNEL,
+  SETTINGS_CHANNEL,
+  STATE_CHANNEL,
+} from "./channels";
+import { RemoteError, SocketTerminatedError, TimeoutError } from "./errors";
+import { withRemoteSchema, withSchema, withStreamSchemas } from "./schema";
+import {
+  createProtocolFeatures,
+  createProtocolInfo,
+  negotiateProtocol,
+  readProtocolInfo,
+} from "./protocol";
+import { ErrorStrings } from "./types/index";
+import type {
+  BatchOptions,
+  Codec,
+  ContractData,
+  ContractHooks,
+  ContractMethods,
+  ContractSettings,
+  DefaultContract,
+  LifecycleListeners,
+  MethodImplementations,
+  Methods,
+  OriginOptions,
+  PeerMessage,
+  PluginContractShape,
+  PluginPeers,
+  PluginSchemas,
+  ProtocolInfo,
+  ProvidedPlugin,
+  ProvidedPluginLifecycleEvents,
+  RemoteMethod,
+  RemoteStream,
+  SerializedError,
+  StatePatch,
+  TopicEmitter,
+  TopicEvent,
+} from "./types/index";
 
 /**
  * Registers a plugin with the parent window using postMessage RPC communication.
@@ -11,9 +62,9 @@ import type { Method, Methods, ProvidedPlugin } from "./types/index";
  * ## Plugin Registration Flow
  *
  * 1. Plugin iframe loads and calls providePlugin()
- * 2. Plugin signals readiness via "domReady" message
- * 3. Parent sends "init" message with data, settings, and callback names
- * 4. Plugin receives initialization data and resolves the promise
+ * 2. Plugin signals readiness via "domReady" message, announcing its protocol version and capabilities
+ * 3. Parent sends "init" message with data, settings, callback names, its protocol and a private MessagePort
+ * 4. Plugin moves all further traffic to the port, receives initialization data and resolves the promise
  * 5. Plugin can now call parent hooks and handle parent method calls
  *
  * ## Basic Usage
@@ -111,9 +162,215 @@ import type { Method, Methods, ProvidedPlugin } from "./types/index";
  * };
  * ```
  *
+ * ## Typed Contracts
+ *
+ * Pass the contract the parent uses to type hook names, method implementations,
+ * `data` and `settings` (see {@link PluginContract}):
+ *
+ * ```typescript
+ * const { hooks, data } = await providePlugin<NoteEditor>({
+ *   hooks: ['onSave'],
+ *   methods: {
+ *     getNote: () => editor.note,          // must return a Note
+ *     setReadOnly: (readOnly) => editor.lock(readOnly), // readOnly: boolean
+ *   },
+ * });
+ * const { savedAt } = await hooks.onSave(editor.note);
+ * ```
+ *
+ * ## Schema Validation
+ *
+ * Payloads from the parent are not checked unless you pass schemas (Zod-style objects
+ * with a `parse` method, or parse functions). Invalid calls are rejected with a
+ * ValidationError before they reach your methods or the parent:
+ *
+ * ```typescript
+ * await providePlugin({
+ *   hooks: ['onSave'],
+ *   methods: { setNote: (note) => editor.load(note) },
+ *   schemas: {
+ *     methods: { setNote: { payload: NoteSchema } },
+ *     hooks: { onSave: { payload: NoteSchema, result: SaveResultSchema } },
+ *   },
+ * });
+ * ```
+ *
+ * ## Cross-Origin Parents
+ *
+ * The origin of a parent on another domain cannot be read, so list the origins
+ * the plugin may be embedded by:
+ *
+ * ```typescript
+ * await providePlugin({
+ *   methods,
+ *   allowedOrigins: ['https://app.customer.com', 'https://*.customer.com'],
+ * });
+ * ```
+ *
+ * ## Cancellation
+ *
+ * Every method receives a context as its second argument. Its `signal` aborts when the
+ * parent cancels the call (AbortSignal or timeout) or the plugin is terminated:
+ *
+ * ```typescript
+ * await providePlugin({
+ *   methods: {
+ *     exportPdf: async (doc, { signal }) => {
+ *       const response = await fetch('/render', { method: 'POST', body: doc, signal });
+ *       return await response.blob();
+ *     }
+ *   }
+ * });
+ * ```
+ *
+ * ## Streaming
+ *
+ * A method implemented as an (async) generator streams its chunks to the parent,
+ * which consumes them with `plugin.stream(name, payload)`. Hooks can be streamed the
+ * same way with the `stream` function returned here:
+ *
+ * ```typescript
+ * const { stream } = await providePlugin({
+ *   hooks: ['search'],
+ *   methods: {
+ *     exportRows: async function* ({ format }) {
+ *       for (const row of rows) {
+ *         yield formatRow(row, format);
+ *       }
+ *     }
+ *   }
+ * });
+ *
+ * for await (const result of stream('search', { query: 'cats' })) {
+ *   renderResult(result);
+ * }
+ * ```
+ *
+ * ## Shared State
+ *
+ * If the parent passes a plain object as data, `data` is the live object of the state
+ * shared with the parent: it always has the current values, and assigning or deleting
+ * its keys sends the change to the parent. `state` subscribes to changes of either side:
+ *
+ * ```typescript
+ * const { data, state } = await providePlugin<NoteEditor>({ methods });
+ *
+ * state.subscribe(({ key, source }) => {
+ *   if (key === 'note' && source === 'remote') editor.load(data.note);
+ * });
+ * titleInput.oninput = () => {
+ *   data.note = { ...data.note, title: titleInput.value };
+ * };
+ * ```
+ *
+ * Parents of releases without the "state" capability pass data that is not kept in sync.
+ *
+ * ## Settings Updates
+ *
+ * The parent can change the settings of the running plugin with `updateSettings()`.
+ * Each update runs through the validator again, a throw rejects the parent's update and
+ * keeps the previous settings. `settings` always returns the current settings:
+ *
+ * ```typescript
+ * const plugin = await providePlugin<NoteEditor>({ methods });
+ *
+ * applyTheme(plugin.settings.theme);
+ * plugin.onSettingsChange((settings, previousSettings) => {
+ *   if (settings.theme !== previousSettings.theme) applyTheme(settings.theme);
+ * });
+ * ```
+ *
+ * Read `settings` from the plugin object, a destructured value keeps the initial settings.
+ *
+ * ## Dynamic Hooks
+ *
+ * The parent can add and remove hooks with `updateHooks()`. The `hooks` object is updated
+ * in place and a "hooksChanged" event reports the change. Calling a removed hook through
+ * an old reference throws:
+ *
+ * ```typescript
+ * const { hooks, on } = await providePlugin({ methods });
+ *
+ * on('hooksChanged', () => {
+ *   shareButton.hidden = !hooks.onShare;
+ * });
+ * ```
+ *
+ * ## Events
+ *
+ * `emit(topic, payload)` sends an event to the parent without waiting for an answer, and
+ * `subscribe(pattern, handler)` handles the parent's events (`*` stands for one topic
+ * segment, `**` for any number of them). Nothing is queued, events on topics nobody
+ * subscribed to yet are dropped. Emitting to a parent of a release without the "events"
+ * capability throws:
+ *
+ * ```typescript
+ * const { emit, subscribe } = await providePlugin({ methods });
+ *
+ * subscribe('theme.**', (payload, topic) => applyThemeChange(topic, payload));
+ * editor.onSelectionChange((selection) => emit('selection.changed', selection));
+ * ```
+ *
+ * ## Peers
+ *
+ * `peers.send(pluginId, topic, payload)` sends a message to another plugin of the parent's
+ * plugin manager, which delivers it only if one of its routing rules allows it; the promise
+ * rejects with a RemoteError otherwise. `peers.on(pattern, handler)` handles the messages
+ * of other plugins, with the id of the sender. Parents of releases without the "peers"
+ * capability reject every message:
+ *
+ * ```typescript
+ * // Filter widget
+ * filterForm.onchange = () => peers.send('chart', 'filter.changed', filterForm.value);
+ *
+ * // Chart widget
+ * peers.on('filter.*', (filter, topic, from) => chart.applyFilter(filter));
+ * ```
+ *
+ * ## Transferables
+ *
+ * Return values and hook payloads are structured-cloned. Mark large binary data with
+ * `transfer()` (or pass a `transfer` list in the hook call's options) to move it instead:
+ *
+ * ```typescript
+ * const { hooks } = await providePlugin({
+ *   hooks: ['onExport'],
+ *   methods: {
+ *     render: async ({ width, height }) => {
+ *       const bitmap = await renderToBitmap(width, height);
+ *       return transfer(bitmap, [bitmap]);
+ *     }
+ *   }
+ * });
+ *
+ * const buffer = await exportImage();
+ * await hooks.onExport(buffer, { transfer: [buffer] });
+ * ```
+ *
  * ## Error Handling
  *
- * The library automatically adds an "error" hook if not present. Use it to report errors:
+ * If a method throws, the parent's call rejects with a RemoteError that carries the
+ * error's name, message, stack and optional `code` and `data` properties. Likewise,
+ * a hook that throws in the parent rejects the plugin's hook call with a RemoteError:
+ *
+ * ```typescript
+ * const { hooks } = await providePlugin({
+ *   hooks: ['onSave'],
+ *   methods: {
+ *     load: async (id) => {
+ *       throw Object.assign(new Error('Not found'), { code: 'NOT_FOUND', data: { id } });
+ *     }
+ *   }
+ * });
+ *
+ * try {
+ *   await hooks.onSave(content);
+ * } catch (error) {
+ *   if (error instanceof RemoteError) console.warn(error.code, error.message);
+ * }
+ * ```
+ *
+ * The library also automatically adds an "error" hook if not present. Use it to report errors:
  *
  * ```typescript
  * const { hooks } = await providePlugin({
@@ -138,35 +395,88 @@ import type { Method, Methods, ProvidedPlugin } from "./types/index";
  * @param options - Plugin configuration options
  * @param options.hooks - Array of parent callback names that this plugin accepts and can invoke
  * @param options.methods - Map of method names to async functions the parent can call
- * @param options.validator - Optional function to validate received data and settings from parent
+ * @param options.validator - Optional function to validate received data and settings from parent,
+ *   run again for every settings update
+ * @param options.callTimeout - Optional default timeout in milliseconds for every hook call
+ * @param options.schemas - Optional schemas validating the payloads and results of methods and hooks.
+ *   Invalid calls are rejected with a ValidationError before they reach the implementation.
+ * @param options.minProtocolVersion - Optional oldest protocol version of the parent to accept.
+ *   An older parent's initialization rejects with a RemoteError with code "INCOMPATIBLE_PROTOCOL".
+ * @param options.codec - Optional codec converting payloads, the parent must use a matching one
+ * @param options.batch - Optional batching of the hook calls made in quick succession, used if the
+ *   parent supports it. Identical hook calls still waiting for their answer share it.
+ * @param options.listeners - Optional handlers of lifecycle events, see ProvidedPluginLifecycleEvents
+ * @param options.allowedOrigins - Optional origins (exact, wildcard patterns or a predicate) the
+ *   parent's messages are accepted from. Required when the parent is on another origin.
+ * @param options.targetOrigin - Optional origin messages are sent to. Defaults to the only
+ *   origin of allowedOrigins, or to the parent's origin the browser tells if it is allowed.
  *
  * @param currentWindow - The plugin's window object (defaults to window)
  * @param targetWindow - The parent window object (defaults to window.parent)
  *
  * @returns Promise resolving to plugin interface containing:
- *   - `data`: Initial data sent by parent
- *   - `settings`: Configuration settings sent by parent
- *   - `hooks`: Functions to invoke parent callbacks
+ *   - `data`: Data sent by parent, the live object of `state` if it is a plain object
+ *   - `state`: State shared with the parent
+ *   - `settings`: Current configuration settings sent by parent
+ *   - `onSettingsChange`: Function to add a handler of settings updates
+ *   - `hooks`: Functions to invoke parent callbacks, updated when the parent adds or removes hooks
+ *   - `stream`: Function to iterate over the chunks a parent callback streams back
+ *   - `protocolVersion` and `supports`: The negotiated protocol version and feature detection
+ *   - `on`: Function to add a handler for a lifecycle event
+ *   - `emit` and `subscribe`: Functions to send and handle fire-and-forget events by topic
+ *   - `peers`: Functions to send messages to and handle messages of other plugins
  *   - `terminate`: Function to cleanup and close communication
  *
- * @throws {Error} If validator function throws or if initialization fails
+ * @throws {Error} If validator function throws or if initialization fails.
+ *   A validator error is also sent to the parent, whose initialization rejects with a RemoteError.
  *
  * @see {@link initFullscreenPlugin} for parent-side fullscreen plugin initialization
  * @see {@link initInlinePlugin} for parent-side inline plugin initialization
  * @see ProvidedPlugin
  */
-export function providePlugin(
+export function providePlugin<C extends PluginContractShape = DefaultContract>(
   options?: {
-    hooks?: string[];
-    methods?: Methods;
-    validator?: (args: { data?: unknown; settings?: unknown }) => void;
-  },
+    hooks?: (keyof ContractHooks<C> & string)[];
+    methods?: MethodImplementations<ContractMethods<C>>;
+    validator?: (args: {
+      data?: ContractData<C>;
+      settings?: ContractSettings<C>;
+    }) => void;
+    callTimeout?: number;
+    schemas?: PluginSchemas;
+    minProtocolVersion?: number;
+    codec?: Codec;
+    batch?: boolean | BatchOptions;
+    listeners?: LifecycleListeners<ProvidedPluginLifecycleEvents>;
+  } & OriginOptions,
   currentWindow: Window = window,
   targetWindow: Window = window.parent,
-): Promise<ProvidedPlugin> {
+): Promise<ProvidedPlugin<C>> {
   // Create a new PostMessageSocket instance for the current window and target window
-  const { hooks = [], methods = {}, validator } = options || {};
-  const messageSocket = new PostMessageSocket(currentWindow, targetWindow);
+  const {
+    validator,
+    callTimeout,
+    schemas = {},
+    minProtocolVersion,
+    codec,
+    batch,
+    allowedOrigins,
+    targetOrigin,
+    listeners,
+  } = options || {};
+  const localProtocol = createProtocolInfo(minProtocolVersion);
+  // The contract only types the API, at runtime these are plain names and methods
+  const hooks: string[] = options?.hooks ?? [];
+  const methods = (options?.methods ?? {}) as Methods;
+  const messageSocket = new PostMessageSocket(
+    currentWindow,
+    targetWindow,
+    undefined,
+    { timeout: callTimeout, codec, allowedOrigins, targetOrigin },
+  );
+  const events = new LifecycleEvents<ProvidedPluginLifecycleEvents>();
+  events.addListeners(listeners);
+  const trackCalls = createCallTracker(events);
 
   if (!hooks.includes("error")) {
     hooks.push("error");
@@ -174,70 +484,272 @@ export function providePlugin(
 
   // Create a messageChannel for each method to allow communication
   Object.entries(methods).forEach(([name, cb]) => {
-    messageSocket.createMessageChannel(name, cb);
+    messageSocket.createMessageChannel(
+      name,
+      trackCalls(name, withSchema(name, cb, schemas.methods?.[name])),
+    );
   });
+  // Answer the parent's heartbeats, a hung plugin misses them
+  messageSocket.createMessageChannel(HEARTBEAT_CHANNEL, () => {});
+  const topics = new TopicEvents();
+  // The socket was just created, so it returns the channels
+  const eventChannel = messageSocket.createMessageChannel<TopicEvent, void>(
+    EVENT_CHANNEL,
+    (event) => {
+      if (isTopicEvent(event)) {
+        topics.dispatch(event.topic, event.payload);
+      }
+    },
+  )!;
+  // Messages of other plugins arrive with the id of their sender
+  const peerTopics = new TopicEvents<[from: string]>();
+  const peerChannel = messageSocket.createMessageChannel<
+    Omit<PeerMessage, "from">,
+    void
+  >(PEER_CHANNEL, (message) => {
+    if (isPeerMessage(message)) {
+      peerTopics.dispatch(message.topic, message.payload, message.from);
+    }
+  })!;
 
   return new Promise((resolve, reject) => {
     function onInit(options?: {
       data: unknown;
       settings: unknown;
       hooks: string[];
+      port?: MessagePort;
+      protocol?: ProtocolInfo;
+      stateVersions?: [string, number][];
     }) {
-      const { data, settings, hooks = [] } = options || {};
+      const { data, settings, hooks = [], port, stateVersions } = options || {};
 
-      //  Initialize the parent callbacks with the provided functions
-      // Parent sends an array of callback names, and we create channels for each
-      const parentCallbackFunctions = hooks.reduce(
-        (acc: Record<string, Method>, callbackName: string) => {
-          // Create a message channel for this callback name
-          // The parent has the actual callback implementation
-          const messageChannel = messageSocket.createMessageChannel(
+      // Move all traffic, starting with this answer, to the parent's private port
+      if (port) {
+        messageSocket.usePort(port);
+      }
+
+      // Names of the parent's current hooks, changed by its updateHooks()
+      let hookNames: string[] = hooks;
+
+      /**
+       * Adds the function calling a parent callback to the hooks object
+       */
+      function addHook(callbackName: string) {
+        // Create a message channel for this callback name, without a listener:
+        // the parent has the actual callback implementation
+        const messageChannel = messageSocket.createMessageChannel(callbackName);
+        // Plugin calls sendAndWait to invoke parent's callback
+        if (messageChannel) {
+          const hook = withRemoteSchema(
             callbackName,
-            () => {}, // Dummy callback - not used on plugin side
+            messageChannel.sendAndWait,
+            schemas.hooks?.[callbackName],
           );
-          // Plugin calls sendAndWait to invoke parent's callback
-          if (messageChannel) {
-            acc[callbackName] = messageChannel.sendAndWait;
-          }
-          return acc;
-        },
-        {},
-      );
+          parentCallbackFunctions[callbackName] = async (payload, options) => {
+            // References to a hook the parent removed stay callable
+            if (!hookNames.includes(callbackName)) {
+              throw new Error(
+                `${ErrorStrings.NoMessageChannel} ${callbackName}`,
+              );
+            }
+            try {
+              return await hook(payload, options);
+            } catch (error) {
+              if (error instanceof TimeoutError) {
+                events.emit("timeout", {
+                  timeout: error.timeout,
+                  method: callbackName,
+                });
+              }
+              throw error;
+            }
+          };
+        }
+      }
+
+      //  Initialize the parent callbacks with the provided functions
+      // Parent sends an array of callback names, and we create channels for each
+      const parentCallbackFunctions: Record<string, RemoteMethod> = {};
+      hooks.forEach(addHook);
 
       try {
+        // Hosts without versioning send no protocol in the init message
+        const protocol = negotiateProtocol(
+          localProtocol,
+          readProtocolInfo(options),
+          "host",
+        );
+
         if (validator) {
-          validator({ data, settings });
+          validator({
+            data: data as ContractData<C>,
+            settings: settings as ContractSettings<C>,
+          });
         }
 
+        const features = createProtocolFeatures(protocol);
+        // A parent without the capability would get null in place of proxies
+        if (!features.supports("proxy")) {
+          messageSocket.use(
+            rejectProxies(ErrorStrings.HostProxiesNotSupported),
+          );
+        }
+        // Parents without the capability never send or expect state patches
+        const sharesState = isStateData(data) && features.supports("state");
+        const state = new StateStore(
+          "plugin",
+          isStateData(data) ? data : {},
+          Array.isArray(stateVersions) ? stateVersions : [],
+        );
+        const stateChannel = messageSocket.createMessageChannel<
+          StatePatch,
+          void
+        >(STATE_CHANNEL, (patch) => state.receive(patch));
+        if (sharesState && stateChannel) {
+          state.connect((patch) => stateChannel.send(patch));
+        }
+
+        // Updated by the parent's updateSettings(), after the validator accepted them
+        let currentSettings = settings;
+        messageSocket.createMessageChannel(
+          SETTINGS_CHANNEL,
+          (next: unknown) => {
+            if (validator) {
+              validator({
+                data: (sharesState ? state.data : data) as ContractData<C>,
+                settings: next as ContractSettings<C>,
+              });
+            }
+            const previousSettings = currentSettings;
+            currentSettings = next;
+            events.emit("settingsChanged", {
+              settings: next,
+              previousSettings,
+            });
+          },
+        );
+
+        // Hooks the parent added or removed, the hooks object is updated in place
+        messageSocket.createMessageChannel(HOOKS_CHANNEL, (names: unknown) => {
+          if (!isHookNames(names)) {
+            throw new TypeError("Expected a list of hook names");
+          }
+          const { added, removed } = diffHookNames(hookNames, names);
+          hookNames = names;
+          removed.forEach((name) => delete parentCallbackFunctions[name]);
+          added.forEach(addHook);
+          events.emit("hooksChanged", { hooks: names, added, removed });
+        });
+
+        let isTerminated = false;
+        const emit: TopicEmitter = (topic, payload, options) => {
+          if (isTerminated) {
+            throw new SocketTerminatedError();
+          }
+          // Parents without the capability have no channel to receive events on
+          if (!features.supports("events")) {
+            throw new Error(ErrorStrings.HostEventsNotSupported);
+          }
+          eventChannel.send({ topic, payload }, options);
+        };
+        const peers: PluginPeers = {
+          send: async (pluginId, topic, payload) => {
+            if (isTerminated) {
+              throw new SocketTerminatedError();
+            }
+            if (!features.supports("peers")) {
+              throw new Error(ErrorStrings.HostPeersNotSupported);
+            }
+            await peerChannel.sendAndWait({ to: pluginId, topic, payload });
+          },
+          on: peerTopics.on.bind(peerTopics),
+        };
         const terminate = () => {
+          state.destroy();
+          topics.clear();
+          peerTopics.clear();
           messageSocket.terminate();
+          if (!isTerminated) {
+            isTerminated = true;
+            events.emit("destroyed", undefined);
+            events.clear();
+          }
         };
 
-        resolve({
-          data,
-          settings,
+        const stream: RemoteStream = withStreamSchemas(
+          (name, payload, options) => {
+            if (!hookNames.includes(name)) {
+              throw new Error(`${ErrorStrings.NoMessageChannel} ${name}`);
+            }
+            if (!features.supports("stream")) {
+              throw new Error(ErrorStrings.HostStreamsNotSupported);
+            }
+            const messageChannel = messageSocket.createMessageChannel(name);
+            if (!messageChannel) {
+              throw new SocketTerminatedError();
+            }
+            return messageChannel.stream(payload, options);
+          },
+          schemas.hooks,
+        );
+
+        const plugin: ProvidedPlugin = {
+          data: sharesState ? state.data : data,
+          get settings() {
+            return currentSettings;
+          },
           hooks: parentCallbackFunctions,
+          stream,
+          state,
           terminate,
-        });
+          on: events.on.bind(events),
+          emit,
+          subscribe: topics.on.bind(topics),
+          peers,
+          onSettingsChange: (listener) =>
+            events.on("settingsChanged", ({ settings, previousSettings }) =>
+              listener(settings, previousSettings),
+            ),
+          ...features,
+        };
+        if (batch && features.supports("batch")) {
+          messageSocket.setBatching(batch);
+        }
+        events.emit("ready", { protocolVersion: protocol.version, hooks });
+        resolve(plugin as ProvidedPlugin<C>);
 
         // IMPORTANT: Return the list of method names to the parent
         // so it can create wrapper functions for each method
         return Object.keys(methods);
       } catch (error: unknown) {
         console.error("Plugin validation failed:", error);
-        // If the validator throws an error, we reject the promise
+        events.emit("error", { error });
+        // If the validator or the protocol check throws an error, we reject the promise
         reject(error);
-        messageSocket.terminate();
+        // Terminate once the error answer is on its way to the parent,
+        // a terminated socket would swallow it
+        setTimeout(() => messageSocket.terminate(), 0);
+        throw error;
       }
     }
-    messageSocket.createMessageChannel("init", onInit, { once: true });
-    // Signal to parent that plugin is ready
-    const readyChannel = messageSocket.createMessageChannel(
-      "domReady",
-      () => {},
+    messageSocket.createMessageChannel(INIT_CHANNEL, onInit, { once: true });
+    // Sent instead of the init message if the parent does not accept this plugin
+    messageSocket.createMessageChannel(
+      REJECT_CHANNEL,
+      (error: SerializedError) => {
+        const rejection = new RemoteError(error);
+        console.error("Plugin was rejected by the parent:", rejection);
+        events.emit("error", { error: rejection });
+        reject(rejection);
+        // Terminate once the parent got the answer, a terminated socket would swallow it
+        setTimeout(() => messageSocket.terminate(), 0);
+      },
+      { once: true },
     );
+    // Signal to parent that plugin is ready
+    const readyChannel = messageSocket.createMessageChannel(DOM_READY_CHANNEL);
     if (readyChannel) {
-      readyChannel.send({});
+      readyChannel.send({ protocol: localProtocol });
     }
   });
 }
@@ -0,0 +1,231 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  callProxied,
+  extractProxies,
+  insertProxies,
+  proxy,
+  releaseProxy,
+} from "./proxy";
+import PostMessageSocket from "./postMessageSocket";
+import { createInMemoryTransportPair } from "./transport";
+import { ProxyReleasedError, RemoteError } from "./errors";
+import type { ProxyRef, Remote } from "./types/index";
+
+describe("extractProxies", () => {
+  const expose = (value: object) =>
+    ({
+      name: `proxy:${typeof value}`,
+      type: typeof value === "function" ? "function" : "object",
+    }) as const;
+
+  it("should replace marked values by null and list their paths", () => {
+    const onProgress = proxy(() => {});
+    const counter = proxy({ increment: () => 1 });
+    const payload = { format: "pdf", callbacks: [onProgress], counter };
+
+    const extracted = extractProxies(payload, expose);
+
+    expect(extracted.payload).toEqual({
+      format: "pdf",
+      callbacks: [null],
+      counter: null,
+    });
+    expect(extracted.proxies).toEqual([
+      { path: ["callbacks", 0], name: "proxy:function", type: "function" },
+      { path: ["counter"], name: "proxy:object", type: "object" },
+    ]);
+    // The original payload is left untouched
+    expect(payload.callbacks[0]).toBe(onProgress);
+    expect(payload.counter).toBe(counter);
+  });
+
+  it("should proxy a marked payload itself", () => {
+    const extracted = extractProxies(
+      proxy(() => {}),
+      expose,
+    );
+    expect(extracted.payload).toBeNull();
+    expect(extracted.proxies).toEqual([
+      { path: [], name: "proxy:function", type: "function" },
+    ]);
+  });
+
+  it("should leave payloads without marked values as they are", () => {
+    const payload = { list: [1, 2], nested: { text: "a" } };
+    const extracted = extractProxies(payload, expose);
+    expect(extracted.payload).toBe(payload);
+    expect(extracted.proxies).toEqual([]);
+  });
+});
+
+describe("insertProxies", () => {
+  const createRemote = (ref: ProxyRef) => ({ remote: ref.name });
+
+  it("should put remote proxies where the values were", () => {
+    const payload = insertProxies(
+      { callbacks: [null], counter: null },
+      [
+        { path: ["callbacks", 0], name: "a", type: "function" },
+        { path: ["counter"], name: "b", type: "object" },
+      ],
+      createRemote,
+    );
+    expect(payload).toEqual({
+      callbacks: [{ remote: "a" }],
+      counter: { remote: "b" },
+    });
+  });
+
+  it("should ignore paths that do not lead to a property of the payload", () => {
+    const payload = insertProxies(
+      { a: null },
+      [
+        { path: ["missing", "deep"], name: "a", type: "function" },
+        { path: ["__proto__"], name: "b", type: "function" },
+      ],
+      createRemote,
+    );
+    expect(payload).toEqual({ a: null });
+    expect(Object.getPrototypeOf(payload)).toBe(Object.prototype);
+  });
+});
+
+describe("callProxied", () => {
+  it("should call functions and methods", () => {
+    const counter = {
+      count: 1,
+      add(amount: number) {
+        return (this.count += amount);
+      },
+    };
+    expect(callProxied((a: number, b: number) => a + b, { args: [1, 2] })).toBe(
+      3,
+    );
+    expect(callProxied(counter, { method: "add", args: [2] })).toBe(3);
+  });
+
+  it("should refuse to call properties that are not methods", () => {
+    const counter = { count: 1 };
+    expect(() => callProxied(counter, { method: "count", args: [] })).toThrow(
+      TypeError,
+    );
+    expect(() =>
+      callProxied(counter, { method: "hasOwnProperty", args: ["count"] }),
+    ).toThrow(TypeError);
+    expect(() => callProxied(counter, { args: [] })).toThrow(TypeError);
+  });
+});
+
+describe("PostMessageSocket with proxies", () => {
+  const sockets: PostMessageSocket[] = [];
+
+  function createPair() {
+    const [first, second] = createInMemoryTransportPair();
+    const host = new PostMessageSocket(first);
+    const plugin = new PostMessageSocket(second);
+    sockets.push(host, plugin);
+    return { host, plugin };
+  }
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  it("should call a proxied callback passed as an argument", async () => {
+    const { host, plugin } = createPair();
+    plugin.createMessageChannel(
+      "export",
+      async ({ onProgress }: { onProgress: (percent: number) => string }) => {
+        const answer = await onProgress(50);
+        return `progress said ${answer}`;
+      },
+    );
+    const channel = host.createMessageChannel("export", () => {});
+    const onProgress = vi.fn((percent: number) => `${percent}%`);
+
+    const result = await channel!.sendAndWait({
+      onProgress: proxy(onProgress),
+    });
+
+    expect(onProgress).toHaveBeenCalledWith(50);
+    expect(result).toBe("progress said 50%");
+  });
+
+  it("should call the methods of a proxied return value", async () => {
+    const { host, plugin } = createPair();
+    const counter = {
+      count: 0,
+      increment(amount: number) {
+        return (this.count += amount);
+      },
+    };
+    plugin.createMessageChannel("getCounter", () => proxy(counter));
+    const channel = host.createMessageChannel<void, unknown>(
+      "getCounter",
+      () => {},
+    );
+
+    const remote = (await channel!.sendAndWait(undefined)) as Remote<
+      typeof counter
+    >;
+
+    await expect(remote.increment(2)).resolves.toBe(2);
+    expect(counter.count).toBe(2);
+  });
+
+  it("should reject calls whose proxied function throws", async () => {
+    const { host, plugin } = createPair();
+    plugin.createMessageChannel(
+      "run",
+      ({ task }: { task: () => Promise<void> }) => task(),
+    );
+    const channel = host.createMessageChannel("run", () => {});
+
+    const error = await channel!
+      .sendAndWait({
+        task: proxy(() => {
+          throw new Error("Task failed");
+        }),
+      })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(RemoteError);
+    expect(error.message).toBe("Task failed");
+  });
+
+  it("should forget the proxied value once the proxy is released", async () => {
+    const { host, plugin } = createPair();
+    let received: (() => Promise<number>) | null = null;
+    plugin.createMessageChannel(
+      "watch",
+      ({ onChange }: { onChange: () => Promise<number> }) => {
+        received = onChange;
+      },
+    );
+    const channel = host.createMessageChannel("watch", () => {});
+    const onChange = vi.fn(() => 1);
+
+    await channel!.sendAndWait({ onChange: proxy(onChange) });
+    await expect(received!()).resolves.toBe(1);
+
+    const removeListener = vi.spyOn(host, "removeListener");
+    releaseProxy(received);
+    await vi.waitFor(() => expect(removeListener).toHaveBeenCalled());
+
+    await expect(received!()).rejects.toBeInstanceOf(ProxyReleasedError);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not let the other window remove channels other than proxies", async () => {
+    const { host, plugin } = createPair();
+    const greet = vi.fn(() => "hello");
+    host.createMessageChannel("greet", greet);
+    const channel = plugin.createMessageChannel("greet", () => {});
+
+    (plugin as unknown as { sendRelease: (name: string) => void }).sendRelease(
+      "greet",
+    );
+
+    await expect(channel!.sendAndWait(undefined)).resolves.toBe("hello");
+  });
+});
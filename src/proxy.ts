@@ -0,0 +1,234 @@
+import { isPlainObject } from "./plainObject";
+import type { Middleware, ProxyCall, ProxyRef } from "./types/index";
+
+/**
+ * @module Remote proxies of functions and objects sent over PostMessageSocket
+ *
+ * A value marked with proxy() is not cloned. The sending socket registers a message
+ * channel calling it, and the receiving socket puts a proxy sending calls on that
+ * channel in its place. The channel is removed once the other window released the
+ * proxy, either with releaseProxy() or when the proxy got garbage collected.
+ */
+
+/** Values marked with proxy(), they are proxied every time they are sent */
+const proxyMarks = new WeakSet<object>();
+
+/** Release functions of the remote proxies created by sockets */
+const remoteProxies = new WeakMap<object, () => void>();
+
+/**
+ * Marks a function or object to be passed by reference instead of being
+ * structured-cloned. The other window receives a proxy whose calls run in this
+ * window and resolve with the return value. Works for payloads, return values and
+ * stream chunks, where the marked value is the payload itself or nested in arrays
+ * and plain objects. Arguments and return values of proxy calls can be proxied again.
+ *
+ * The proxy of an object exposes its methods only. The other window can release the
+ * proxy with releaseProxy(), otherwise it is released when it is garbage collected.
+ * Plugins and parents refuse to send it to a side of a release without the "proxy"
+ * capability.
+ *
+ * @example
+ * ```typescript
+ * import { proxy } from '@micskeil/postmessage-rpc';
+ *
+ * // Parent side: no "onProgress" hook needed
+ * await plugin.methods.exportNote({
+ *   format: 'pdf',
+ *   onProgress: proxy((percent) => progressBar.value = percent),
+ * });
+ *
+ * // Plugin side: the callback is async now
+ * methods: {
+ *   exportNote: async ({ format, onProgress }) => {
+ *     await onProgress(50);
+ *   }
+ * }
+ * ```
+ */
+export function proxy<T extends object>(value: T): T {
+  proxyMarks.add(value);
+  return value;
+}
+
+/**
+ * Releases a remote proxy, so the other window can forget the proxied value.
+ * Calls of a released proxy reject with a ProxyReleasedError. Does nothing for
+ * values that are not remote proxies or are already released.
+ *
+ * @example
+ * ```typescript
+ * methods: {
+ *   watch: ({ onChange }) => {
+ *     const unsubscribe = store.subscribe((state) => onChange(state));
+ *     return proxy(() => {
+ *       unsubscribe();
+ *       releaseProxy(onChange);
+ *     });
+ *   }
+ * }
+ * ```
+ */
+export function releaseProxy(remote: unknown) {
+  if (typeof remote !== "function" && (typeof remote !== "object" || !remote)) {
+    return;
+  }
+  remoteProxies.get(remote)?.();
+}
+
+/**
+ * Registers the function releasing a remote proxy created by a socket.
+ */
+export function registerRemoteProxy(remote: object, release: () => void) {
+  remoteProxies.set(remote, release);
+}
+
+/**
+ * Replaces the values marked with proxy() by null and lists where they were.
+ * The payload is not modified, arrays and plain objects on the way to a marked
+ * value are copied instead.
+ *
+ * @param expose - Registers a marked value and returns the channel it is called on
+ */
+export function extractProxies(
+  payload: unknown,
+  expose: (value: object) => Omit<ProxyRef, "path">,
+): { payload: unknown; proxies: ProxyRef[] } {
+  const proxies: ProxyRef[] = [];
+  const seen = new Set<object>();
+
+  function extract(value: unknown, path: ProxyRef["path"]): unknown {
+    if (typeof value === "function" && proxyMarks.has(value)) {
+      proxies.push({ path, ...expose(value) });
+      return null;
+    }
+    if (typeof value !== "object" || value === null || seen.has(value)) {
+      return value;
+    }
+    if (proxyMarks.has(value)) {
+      proxies.push({ path, ...expose(value) });
+      return null;
+    }
+    seen.add(value);
+    if (Array.isArray(value)) {
+      let copy: unknown[] | null = null;
+      value.forEach((item, index) => {
+        const extracted = extract(item, [...path, index]);
+        if (extracted !== item) {
+          copy ??= [...value];
+          copy[index] = extracted;
+        }
+      });
+      return copy ?? value;
+    }
+    if (isPlainObject(value)) {
+      let copy: Record<string, unknown> | null = null;
+      Object.entries(value).forEach(([key, item]) => {
+        const extracted = extract(item, [...path, key]);
+        if (extracted !== item) {
+          copy ??= { ...value };
+          copy[key] = extracted;
+        }
+      });
+      return copy ?? value;
+    }
+    return value;
+  }
+
+  return { payload: extract(payload, []), proxies };
+}
+
+/**
+ * Tells whether a payload holds values marked with proxy() where extractProxies()
+ * looks for them
+ */
+export function containsProxies(payload: unknown): boolean {
+  const seen = new Set<object>();
+
+  function contains(value: unknown): boolean {
+    if (typeof value === "function") return proxyMarks.has(value);
+    if (typeof value !== "object" || value === null || seen.has(value)) {
+      return false;
+    }
+    if (proxyMarks.has(value)) return true;
+    seen.add(value);
+    if (Array.isArray(value)) return value.some(contains);
+    return isPlainObject(value) && Object.values(value).some(contains);
+  }
+
+  return contains(payload);
+}
+
+/**
+ * Creates a middleware refusing to send values marked with proxy(), for a socket
+ * whose other side does not restore them and would get null in their place.
+ *
+ * @param errorMessage - Message of the error thrown to the sender
+ */
+export function rejectProxies(errorMessage: string): Middleware {
+  return (message, next, { direction }) => {
+    if (direction === "outbound" && containsProxies(message.payload)) {
+      throw new Error(errorMessage);
+    }
+    next();
+  };
+}
+
+/**
+ * Puts remote proxies in place of the values listed in a message's `proxies`.
+ * Entries whose path does not lead to a property of the payload are ignored.
+ *
+ * @param createRemote - Creates the proxy sending calls on the listed channel
+ */
+export function insertProxies(
+  payload: unknown,
+  proxies: ProxyRef[],
+  createRemote: (ref: ProxyRef) => object,
+): unknown {
+  let result = payload;
+  proxies.forEach((ref) => {
+    if (!Array.isArray(ref.path) || ref.path.length === 0) {
+      result = createRemote(ref);
+      return;
+    }
+    let parent: unknown = result;
+    for (const key of ref.path.slice(0, -1)) {
+      if (!isContainer(parent) || !Object.hasOwn(parent, key)) return;
+      parent = parent[key];
+    }
+    const key = ref.path[ref.path.length - 1];
+    if (!isContainer(parent) || !Object.hasOwn(parent, key)) return;
+    parent[key] = createRemote(ref);
+  });
+  return result;
+}
+
+function isContainer(
+  value: unknown,
+): value is Record<string | number, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Runs a call received by the channel of a proxied value.
+ *
+ * @throws {TypeError} If the called method is not a method of the value
+ */
+export function callProxied(value: object, { method, args }: ProxyCall) {
+  const callArgs = Array.isArray(args) ? args : [];
+  if (method === undefined) {
+    if (typeof value !== "function") {
+      throw new TypeError("The proxied object is not a function");
+    }
+    return value(...callArgs);
+  }
+  // Don't let the other window call hasOwnProperty, __defineGetter__ and the like
+  const member =
+    method in Object.prototype
+      ? undefined
+      : (value as Record<string, unknown>)[method];
+  if (typeof member !== "function") {
+    throw new TypeError(`"${method}" is not a method of the proxied object`);
+  }
+  return member.apply(value, callArgs);
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import { ValidationError } from "./errors";
+import {
+  parseWithSchema,
+  withRemoteSchema,
+  withSchema,
+  withStreamSchemas,
+} from "./schema";
+import type { RemoteStream } from "./types/index";
+
+const context = { id: "1", signal: new AbortController().signal };
+
+// Zod-style schema of positive numbers, doubling them to show the parsed value is used
+const positive = {
+  parse: (value: unknown) => {
+    if (typeof value !== "number" || value <= 0) {
+      throw Object.assign(new Error("Invalid number"), {
+        issues: [{ message: "Expected a positive number", path: [] }],
+      });
+    }
+    return value * 2;
+  },
+};
+
+const collect = async (iterable: AsyncIterable<unknown>) => {
+  const items: unknown[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe("parseWithSchema", () => {
+  it("should return the parsed value of parse-style schemas and parse functions", async () => {
+    await expect(
+      parseWithSchema(positive, 2, "double", "payload"),
+    ).resolves.toBe(4);
+    await expect(
+      parseWithSchema((value) => String(value), 2, "format", "payload"),
+    ).resolves.toBe("2");
+    await expect(
+      parseWithSchema({ parse: async () => "async" }, 2, "load", "result"),
+    ).resolves.toBe("async");
+  });
+
+  it("should throw a ValidationError with Zod-style issues", async () => {
+    const error = await parseWithSchema(
+      {
+        parse: () => {
+          throw Object.assign(new Error("ZodError"), {
+            issues: [
+              {
+                message: "Required",
+                path: ["user", "name"],
+                code: "invalid_type",
+              },
+              { message: "Too small", path: ["tags", 0] },
+            ],
+          });
+        },
+      },
+      {},
+      "save",
+      "payload",
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.code).toBe("VALIDATION_ERROR");
+    expect(error.channel).toBe("save");
+    expect(error.target).toBe("payload");
+    expect(error.issues).toEqual([
+      { message: "Required", path: ["user", "name"] },
+      { message: "Too small", path: ["tags", 0] },
+    ]);
+    expect(error.message).toBe(
+      'Validation failed: invalid payload of "save" (user.name: Required; tags.0: Too small)',
+    );
+  });
+
+  it("should reduce Valibot-style path items to their keys", async () => {
+    const error = await parseWithSchema(
+      () => {
+        throw Object.assign(new Error("ValiError"), {
+          issues: [
+            {
+              message: "Invalid type",
+              path: [{ type: "object", key: "note", value: {} }, { key: "id" }],
+              schema: { parse: () => {} },
+            },
+          ],
+        });
+      },
+      {},
+      "save",
+      "result",
+    ).catch((e) => e);
+
+    expect(error.issues).toEqual([
+      { message: "Invalid type", path: ["note", "id"] },
+    ]);
+    // Issues must survive postMessage
+    expect(structuredClone(error.data)).toEqual(error.data);
+  });
+
+  it("should use the message of errors without issues", async () => {
+    const error = await parseWithSchema(
+      () => {
+        throw new TypeError("Not a note");
+      },
+      1,
+      "save",
+      "payload",
+    ).catch((e) => e);
+
+    expect(error.issues).toEqual([{ message: "Not a note", path: [] }]);
+  });
+});
+
+describe("withSchema", () => {
+  it("should return the implementation itself without schemas", () => {
+    const implementation = vi.fn();
+    expect(withSchema("double", implementation)).toBe(implementation);
+    expect(withSchema("double", implementation, {})).toBe(implementation);
+  });
+
+  it("should reject invalid payloads before the implementation runs", async () => {
+    const implementation = vi.fn((payload: unknown) => payload);
+    const method = withSchema("double", implementation, { payload: positive });
+
+    await expect(method(-1, context)).rejects.toBeInstanceOf(ValidationError);
+    expect(implementation).not.toHaveBeenCalled();
+
+    await expect(method(3, context)).resolves.toBe(6);
+    expect(implementation).toHaveBeenCalledWith(6, context);
+  });
+
+  it("should reject invalid results", async () => {
+    const method = withSchema("count", async () => 0, { result: positive });
+
+    const error = await Promise.resolve(method(undefined, context)).catch(
+      (e) => e,
+    );
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.target).toBe("result");
+  });
+
+  it("should validate every chunk of streamed results", async () => {
+    const method = withSchema(
+      "numbers",
+      function* () {
+        yield 1;
+        yield 2;
+        yield -3;
+      },
+      { result: positive },
+    );
+
+    const chunks: unknown[] = [];
+    const iterable = (await method(
+      undefined,
+      context,
+    )) as AsyncIterable<unknown>;
+    const error = await (async () => {
+      for await (const chunk of iterable) chunks.push(chunk);
+    })().catch((e) => e);
+
+    expect(chunks).toEqual([2, 4]);
+    expect(error).toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("withRemoteSchema", () => {
+  it("should not send invalid payloads", async () => {
+    const remoteMethod = vi.fn(async (payload?: unknown) => payload);
+    const method = withRemoteSchema("double", remoteMethod, {
+      payload: positive,
+    });
+
+    await expect(method(0)).rejects.toBeInstanceOf(ValidationError);
+    expect(remoteMethod).not.toHaveBeenCalled();
+
+    await expect(method(1, { timeout: 100 })).resolves.toBe(2);
+    expect(remoteMethod).toHaveBeenCalledWith(2, { timeout: 100 });
+  });
+
+  it("should reject invalid results", async () => {
+    const method = withRemoteSchema("count", async () => "many", {
+      result: positive,
+    });
+
+    await expect(method()).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("withStreamSchemas", () => {
+  it("should validate the payload and every chunk of streams with schemas", async () => {
+    const stream = vi.fn(async function* (_name: string, payload?: unknown) {
+      yield payload;
+      yield "oops";
+    });
+    const validated = withStreamSchemas(stream as unknown as RemoteStream, {
+      numbers: { payload: positive, result: positive },
+    });
+
+    await expect(collect(validated("numbers", -1))).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+    expect(stream).not.toHaveBeenCalled();
+
+    const chunks: unknown[] = [];
+    const error = await (async () => {
+      for await (const chunk of validated("numbers", 1)) chunks.push(chunk);
+    })().catch((e) => e);
+    // The payload is doubled before sending and the chunk again on receipt
+    expect(chunks).toEqual([4]);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.target).toBe("result");
+  });
+
+  it("should pass streams without schemas through", () => {
+    const iterator = (async function* () {})();
+    const stream = vi.fn(() => iterator);
+    const validated = withStreamSchemas(stream as unknown as RemoteStream);
+
+    expect(validated("anything", 1)).toBe(iterator);
+    expect(stream).toHaveBeenCalledWith("anything", 1, undefined);
+  });
+});
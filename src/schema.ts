@@ -0,0 +1,157 @@
+import { ValidationError } from "./errors";
+import { isChunkSource } from "./stream";
+import type {
+  Method,
+  MethodSchema,
+  RemoteMethod,
+  RemoteStream,
+  Schema,
+  ValidationIssue,
+} from "./types/index";
+
+/**
+ * @module Runtime validation of method and hook payloads and results with schemas
+ */
+
+/**
+ * Runs a value through a schema and returns the parsed value.
+ *
+ * @throws {ValidationError} With the issues reported by the schema if it throws
+ */
+export async function parseWithSchema(
+  schema: Schema,
+  value: unknown,
+  channel: string,
+  target: "payload" | "result",
+): Promise<unknown> {
+  try {
+    return typeof schema === "function"
+      ? await schema(value)
+      : await schema.parse(value);
+  } catch (error) {
+    throw new ValidationError(channel, target, toIssues(error));
+  }
+}
+
+/**
+ * Wraps the implementation of a method or hook, so invalid payloads are rejected
+ * before it runs and invalid results before they are sent back.
+ * Returns the implementation itself if there is nothing to validate.
+ */
+export function withSchema(
+  name: string,
+  implementation: Method,
+  schema?: MethodSchema,
+): Method {
+  if (!schema?.payload && !schema?.result) {
+    return implementation;
+  }
+  const { payload: payloadSchema, result: resultSchema } = schema;
+  return async (payload, context) => {
+    const parsedPayload = payloadSchema
+      ? await parseWithSchema(payloadSchema, payload, name, "payload")
+      : payload;
+    const result = await implementation(parsedPayload, context);
+    if (!resultSchema) {
+      return result;
+    }
+    if (isChunkSource(result)) {
+      return parseChunks(result, resultSchema, name);
+    }
+    return parseWithSchema(resultSchema, result, name, "result");
+  };
+}
+
+/**
+ * Wraps the proxy of a method or hook living in the other window, so invalid payloads
+ * are rejected before they are sent and invalid results before the caller receives them.
+ * Returns the proxy itself if there is nothing to validate.
+ */
+export function withRemoteSchema(
+  name: string,
+  remoteMethod: RemoteMethod,
+  schema?: MethodSchema,
+): RemoteMethod {
+  if (!schema?.payload && !schema?.result) {
+    return remoteMethod;
+  }
+  const { payload: payloadSchema, result: resultSchema } = schema;
+  return async (payload, options) => {
+    const parsedPayload = payloadSchema
+      ? await parseWithSchema(payloadSchema, payload, name, "payload")
+      : payload;
+    const result = await remoteMethod(parsedPayload, options);
+    return resultSchema
+      ? parseWithSchema(resultSchema, result, name, "result")
+      : result;
+  };
+}
+
+/**
+ * Wraps the stream function of one side, validating the payload of streams with a
+ * schema before the request is sent and every chunk before the consumer receives it.
+ */
+export function withStreamSchemas(
+  stream: RemoteStream,
+  schemas: Record<string, MethodSchema> = {},
+): RemoteStream {
+  return (name, payload, options) => {
+    const schema = schemas[name];
+    if (!schema?.payload && !schema?.result) {
+      return stream(name, payload, options);
+    }
+    const { payload: payloadSchema, result: resultSchema } = schema;
+    return (async function* () {
+      const parsedPayload = payloadSchema
+        ? await parseWithSchema(payloadSchema, payload, name, "payload")
+        : payload;
+      const chunks = stream(name, parsedPayload, options);
+      yield* resultSchema ? parseChunks(chunks, resultSchema, name) : chunks;
+    })();
+  };
+}
+
+/**
+ * Validates every chunk of a stream, ending it with a ValidationError at the first invalid one
+ */
+async function* parseChunks(
+  chunks: AsyncIterable<unknown> | Iterable<unknown>,
+  schema: Schema,
+  name: string,
+): AsyncGenerator<unknown> {
+  for await (const chunk of chunks) {
+    yield await parseWithSchema(schema, chunk, name, "result");
+  }
+}
+
+/**
+ * Reduces whatever a schema threw to issues that survive structured cloning.
+ * Zod and Valibot errors list their issues, with paths of keys or of path items.
+ */
+function toIssues(error: unknown): ValidationIssue[] {
+  const issues =
+    error && typeof error === "object" && "issues" in error
+      ? error.issues
+      : undefined;
+  if (!Array.isArray(issues) || !issues.length) {
+    return [
+      {
+        message: error instanceof Error ? error.message : String(error),
+        path: [],
+      },
+    ];
+  }
+  return issues.map((issue) => ({
+    message: String(issue?.message ?? "Invalid value"),
+    path: Array.isArray(issue?.path)
+      ? issue.path
+          .map((item: unknown) =>
+            item && typeof item === "object" && "key" in item ? item.key : item,
+          )
+          .filter(
+            (key: unknown): key is string | number =>
+              typeof key === "string" || typeof key === "number",
+          )
+      : [],
+  }));
+}
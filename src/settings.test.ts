@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { mergeSettings } from "./settings";
+
+describe("mergeSettings", () => {
+  it("should merge object settings shallowly", () => {
+    expect(
+      mergeSettings(
+        { theme: "light", locale: "en", colors: { accent: "blue" } },
+        { theme: "dark", colors: { text: "white" } },
+      ),
+    ).toEqual({ theme: "dark", locale: "en", colors: { text: "white" } });
+  });
+
+  it("should replace settings that are not plain objects", () => {
+    expect(mergeSettings("light", "dark")).toBe("dark");
+    expect(mergeSettings(["a"], ["b"])).toEqual(["b"]);
+    expect(mergeSettings(undefined, { theme: "dark" })).toEqual({
+      theme: "dark",
+    });
+  });
+});
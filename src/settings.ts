@@ -0,0 +1,26 @@
+import { isPlainObject } from "./plainObject";
+
+/**
+ * @module Settings updates pushed to running plugins
+ *
+ * The parent sends the complete new settings on SETTINGS_CHANNEL and commits them
+ * once the plugin accepted them, so a plugin whose validator rejects an update keeps
+ * the settings both sides agree on.
+ */
+
+/**
+ * Applies a partial update to the current settings. Object settings are merged
+ * shallowly, any other update replaces the settings.
+ *
+ * @example
+ * ```typescript
+ * mergeSettings({ theme: "light", locale: "en" }, { theme: "dark" });
+ * // { theme: "dark", locale: "en" }
+ * ```
+ */
+export function mergeSettings(current: unknown, update: unknown): unknown {
+  if (isPlainObject(current) && isPlainObject(update)) {
+    return { ...current, ...update };
+  }
+  return update;
+}
@@ -0,0 +1,269 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { STATE_CHANNEL } from "./channels";
+import { StateStore, isEqual } from "./state";
+import PostMessageSocket from "./postMessageSocket";
+import { createInMemoryTransportPair } from "./transport";
+import type { StatePatch } from "./types/index";
+
+/**
+ * Connects two stores through queues, so crossing writes can be simulated
+ */
+function link(host: StateStore, plugin: StateStore) {
+  const toPlugin: StatePatch[] = [];
+  const toHost: StatePatch[] = [];
+  host.getVersions();
+  host.connect((patch) => toPlugin.push(patch));
+  plugin.connect((patch) => toHost.push(patch));
+  const deliverToPlugin = () =>
+    toPlugin.splice(0).forEach((patch) => plugin.receive(patch));
+  const deliverToHost = () =>
+    toHost.splice(0).forEach((patch) => host.receive(patch));
+  return {
+    deliverAll() {
+      // The host gets the crossing writes first
+      while (toPlugin.length > 0 || toHost.length > 0) {
+        deliverToHost();
+        deliverToPlugin();
+      }
+    },
+  };
+}
+
+describe("isEqual", () => {
+  it("should compare plain data structurally", () => {
+    expect(isEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isEqual(new Date(1), new Date(1))).toBe(true);
+    expect(isEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(isEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+    expect(isEqual(NaN, NaN)).toBe(true);
+  });
+});
+
+describe("StateStore", () => {
+  it("should read, write and delete keys", () => {
+    const state = new StateStore("host", { title: "Draft" });
+
+    state.set("color", "red");
+    state.update({ title: "Final" });
+    state.delete("color");
+
+    expect(state.get("title")).toBe("Final");
+    expect(state.get("color")).toBeUndefined();
+    expect(state.getAll()).toEqual({ title: "Final" });
+  });
+
+  it("should read and write through the live object", () => {
+    const state = new StateStore("plugin", { title: "Draft" });
+    const listener = vi.fn();
+    state.subscribe(listener);
+
+    state.data.title = "Final";
+    delete state.data.title;
+
+    expect(state.data).toEqual({});
+    expect(listener).toHaveBeenNthCalledWith(1, {
+      key: "title",
+      value: "Final",
+      previousValue: "Draft",
+      deleted: false,
+      source: "local",
+    });
+    expect(listener).toHaveBeenNthCalledWith(2, {
+      key: "title",
+      value: undefined,
+      previousValue: "Final",
+      deleted: true,
+      source: "local",
+    });
+  });
+
+  it("should send changed keys only", () => {
+    const host = new StateStore("host", { note: { title: "a" }, count: 1 });
+    const send = vi.fn();
+    host.connect(send);
+
+    host.update({ note: { title: "a" }, count: 2 });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith({
+      entries: [{ key: "count", value: 2, version: 1 }],
+    });
+  });
+
+  it("should synchronize the writes of both sides", () => {
+    const host = new StateStore("host", { title: "Draft" });
+    const plugin = new StateStore("plugin", { title: "Draft" });
+    const hostListener = vi.fn();
+    host.subscribe(hostListener);
+    const { deliverAll } = link(host, plugin);
+
+    plugin.set("title", "Final");
+    host.set("color", "red");
+    deliverAll();
+
+    expect(host.getAll()).toEqual({ title: "Final", color: "red" });
+    expect(plugin.getAll()).toEqual({ title: "Final", color: "red" });
+    expect(hostListener).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "title", source: "remote" }),
+    );
+  });
+
+  it("should keep the plugin's write of a conflict by default", () => {
+    const host = new StateStore("host", { title: "Draft" });
+    const plugin = new StateStore("plugin", { title: "Draft" });
+    const { deliverAll } = link(host, plugin);
+
+    host.set("title", "By host");
+    plugin.set("title", "By plugin");
+    deliverAll();
+
+    expect(host.get("title")).toBe("By plugin");
+    expect(plugin.get("title")).toBe("By plugin");
+  });
+
+  it("should undo the plugin's write of a conflict if the host wins", () => {
+    const host = new StateStore("host", { title: "Draft" }, [], "host-wins");
+    const plugin = new StateStore("plugin", { title: "Draft" });
+    const { deliverAll } = link(host, plugin);
+
+    host.set("title", "By host");
+    plugin.set("title", "By plugin");
+    deliverAll();
+
+    expect(host.get("title")).toBe("By host");
+    expect(plugin.get("title")).toBe("By host");
+  });
+
+  it("should resolve conflicts with a function", () => {
+    const resolve = vi.fn(
+      ({ hostValue, pluginValue }) => `${hostValue} + ${pluginValue}`,
+    );
+    const host = new StateStore("host", { title: "Draft" }, [], resolve);
+    const plugin = new StateStore("plugin", { title: "Draft" });
+    const { deliverAll } = link(host, plugin);
+
+    host.set("title", "a");
+    plugin.set("title", "b");
+    deliverAll();
+
+    expect(resolve).toHaveBeenCalledWith({
+      key: "title",
+      hostValue: "a",
+      pluginValue: "b",
+    });
+    expect(host.get("title")).toBe("a + b");
+    expect(plugin.get("title")).toBe("a + b");
+  });
+
+  it("should not mistake consecutive plugin writes for conflicts", () => {
+    const resolve = vi.fn();
+    const host = new StateStore("host", { count: 0 }, [], resolve);
+    const plugin = new StateStore("plugin", { count: 0 });
+    const { deliverAll } = link(host, plugin);
+
+    plugin.set("count", 1);
+    plugin.set("count", 2);
+    deliverAll();
+
+    expect(resolve).not.toHaveBeenCalled();
+    expect(host.get("count")).toBe(2);
+    expect(plugin.get("count")).toBe(2);
+  });
+
+  it("should send the host's writes made after the init message once connected", () => {
+    const host = new StateStore("host", { title: "Draft" });
+    // Sent with the init message
+    host.set("color", "red");
+    host.getVersions();
+    host.set("title", "Final");
+
+    const send = vi.fn();
+    host.connect(send);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith({
+      entries: [{ key: "title", value: "Final", version: 1 }],
+    });
+  });
+
+  it("should ignore malformed patches", () => {
+    const state = new StateStore("host", { title: "Draft" });
+    state.receive({ entries: [{ key: 1, version: 1 }] } as never);
+    state.receive(null as never);
+    expect(state.getAll()).toEqual({ title: "Draft" });
+  });
+
+  it("should keep keys like __proto__ as plain keys", () => {
+    const state = new StateStore("host");
+    state.set("__proto__", { polluted: true });
+    expect(Object.getPrototypeOf(state.getAll())).toBe(Object.prototype);
+    expect(state.get("__proto__")).toEqual({ polluted: true });
+  });
+});
+
+describe("StateStore over PostMessageSocket", () => {
+  const sockets: PostMessageSocket[] = [];
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  it("should exchange patches on the state channel", async () => {
+    const [first, second] = createInMemoryTransportPair();
+    const hostSocket = new PostMessageSocket(first);
+    const pluginSocket = new PostMessageSocket(second);
+    sockets.push(hostSocket, pluginSocket);
+    const host = new StateStore("host", { title: "Draft" });
+    const plugin = new StateStore("plugin", host.getAll(), host.getVersions());
+
+    const hostChannel = hostSocket.createMessageChannel<StatePatch, void>(
+      STATE_CHANNEL,
+      (patch) => host.receive(patch),
+    );
+    const pluginChannel = pluginSocket.createMessageChannel<StatePatch, void>(
+      STATE_CHANNEL,
+      (patch) => plugin.receive(patch),
+    );
+    host.connect((patch) => hostChannel!.send(patch));
+    plugin.connect((patch) => pluginChannel!.send(patch));
+
+    plugin.data.title = "Final";
+    await vi.waitFor(() => expect(host.get("title")).toBe("Final"));
+
+    host.set("color", "red");
+    await vi.waitFor(() => expect(plugin.data).toEqual(host.getAll()));
+  });
+
+  it("should send copies of the live object in payloads and answers", async () => {
+    const [first, second] = createInMemoryTransportPair();
+    const hostSocket = new PostMessageSocket(first);
+    const pluginSocket = new PostMessageSocket(second);
+    sockets.push(hostSocket, pluginSocket);
+    const plugin = new StateStore("plugin", { title: "Draft" });
+
+    const onSave = vi.fn();
+    hostSocket.createMessageChannel("onSave", onSave);
+    pluginSocket.createMessageChannel("getNote", () => plugin.data);
+    const hookChannel = pluginSocket.createMessageChannel("onSave");
+    const methodChannel = hostSocket.createMessageChannel("getNote");
+
+    await hookChannel!.sendAndWait({ note: plugin.data, at: [plugin.data] });
+    expect(onSave).toHaveBeenCalledWith(
+      { note: { title: "Draft" }, at: [{ title: "Draft" }] },
+      expect.anything(),
+    );
+    await expect(methodChannel!.sendAndWait(undefined)).resolves.toEqual({
+      title: "Draft",
+    });
+
+    // Repeated and circular references to objects holding the live object
+    const shared = { state: plugin.data };
+    const payload: Record<string, unknown> = { first: shared, second: shared };
+    payload.self = payload;
+    await hookChannel!.sendAndWait(payload);
+    const [received] = onSave.mock.calls[1];
+    expect(received.first).toEqual({ state: { title: "Draft" } });
+    expect(received.second).toBe(received.first);
+    expect(received.self).toBe(received);
+  });
+});
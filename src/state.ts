@@ -0,0 +1,401 @@
+import { isPlainObject } from "./plainObject";
+import type {
+  SharedState,
+  StateChangeEvent,
+  StateConflictPolicy,
+  StateEntry,
+  StatePatch,
+} from "./types/index";
+
+/**
+ * @module State shared between the parent and the plugin over PostMessageSocket
+ *
+ * Every key has a version counting its writes. A side writing a key bumps its version
+ * and sends the entry on STATE_CHANNEL. The parent is the authority: a plugin
+ * write based on the parent's latest version is accepted, otherwise it crossed a
+ * parent write and the conflict policy decides. The plugin takes every parent entry
+ * at least as new as its own, so both sides end up with the same values.
+ */
+
+/** Copies of the values behind the live objects of the stores, by live object */
+const liveObjects = new WeakMap<object, () => object>();
+
+/**
+ * Whether initialization data becomes the shared state, only plain objects do
+ */
+export function isStateData(data: unknown): data is Record<string, unknown> {
+  return isPlainObject(data);
+}
+
+/**
+ * Replaces the live objects of shared states in a payload by copies of their values.
+ * Live objects are proxies, which the structured clone rejects. The payload is not
+ * modified, arrays and plain objects a live object can be reached from are copied
+ * instead, once each, so repeated and circular references stay intact.
+ */
+export function unwrapState(payload: unknown): unknown {
+  // Arrays and plain objects referencing each one, to find those leading to live objects
+  const referencedBy = new Map<object, object[]>();
+  const toCopy: object[] = [];
+
+  function visit(value: unknown, parent: object | null) {
+    if (typeof value !== "object" || value === null) return;
+    if (liveObjects.has(value)) {
+      if (parent) toCopy.push(parent);
+      return;
+    }
+    if (!Array.isArray(value) && !isPlainObject(value)) return;
+    const parents = referencedBy.get(value);
+    if (parent) parents?.push(parent);
+    if (parents) return;
+    referencedBy.set(value, parent ? [parent] : []);
+    Object.values(value).forEach((item) => visit(item, value));
+  }
+
+  visit(payload, null);
+  const needsCopy = new Set<object>();
+  while (toCopy.length > 0) {
+    const value = toCopy.pop()!;
+    if (needsCopy.has(value)) continue;
+    needsCopy.add(value);
+    toCopy.push(...referencedBy.get(value)!);
+  }
+
+  // Registered before their items are unwrapped, for references back to them
+  const copies = new Map<object, unknown>();
+
+  function unwrap(value: unknown): unknown {
+    if (typeof value !== "object" || value === null) return value;
+    const getValues = liveObjects.get(value);
+    if (getValues) return getValues();
+    if (!needsCopy.has(value)) return value;
+    if (copies.has(value)) return copies.get(value);
+    if (Array.isArray(value)) {
+      const copy = [...value];
+      copies.set(value, copy);
+      copy.forEach((item, index) => {
+        copy[index] = unwrap(item);
+      });
+      return copy;
+    }
+    const copy: Record<string, unknown> = { ...value };
+    copies.set(value, copy);
+    Object.entries(copy).forEach(([key, item]) => {
+      // An own __proto__ key of the copy is a plain key, assigning it is safe
+      copy[key] = unwrap(item);
+    });
+    return copy;
+  }
+
+  return unwrap(payload);
+}
+
+/**
+ * Compares values structurally, like the structured clone would see them
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqual(item, b[index]))
+    );
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.prototype) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+}
+
+/**
+ * Shared state of one side. The owner connects it to the other side once the
+ * handshake is done and feeds it the patches arriving on STATE_CHANNEL.
+ *
+ * @example
+ * ```typescript
+ * const state = new StateStore("host", { noteId: "1" });
+ * const channel = socket.createMessageChannel(STATE_CHANNEL, (patch) =>
+ *   state.receive(patch),
+ * );
+ * state.connect((patch) => channel.send(patch));
+ * ```
+ */
+export class StateStore<T extends object = Record<string, unknown>>
+  implements SharedState<T>
+{
+  readonly data: T;
+  /** Current values, the target of the live object */
+  private values: Record<string, unknown> = {};
+  /** Versions of the keys, deleted keys keep theirs */
+  private versions: Map<string, number> = new Map();
+  /** Keys the parent wrote while disconnected, sent once it connects */
+  private pending: Set<string> = new Set();
+  private subscribers: Set<(event: StateChangeEvent<T>) => void> = new Set();
+  private send: ((patch: StatePatch) => void) | null = null;
+  private role: "host" | "plugin";
+  private conflict: StateConflictPolicy;
+
+  /**
+   * @param role - Which side the state belongs to, the parent's ("host") is the authority
+   * @param initial - Initial values, copied
+   * @param versions - Versions of the keys, received in the init message on the plugin side
+   * @param conflict - How the parent resolves conflicting writes, defaults to "last-write-wins"
+   */
+  constructor(
+    role: "host" | "plugin",
+    initial: object = {},
+    versions: [string, number][] = [],
+    conflict: StateConflictPolicy = "last-write-wins",
+  ) {
+    this.role = role;
+    this.conflict = conflict;
+    Object.entries(initial).forEach(([key, value]) =>
+      this.write(key, value, false),
+    );
+    versions.forEach(([key, version]) => {
+      if (typeof key === "string" && typeof version === "number") {
+        this.versions.set(key, version);
+      }
+    });
+    this.data = new Proxy(this.values, {
+      set: (_, key, value) => {
+        if (typeof key !== "string") return false;
+        this.set(key as keyof T & string, value);
+        return true;
+      },
+      deleteProperty: (_, key) => {
+        if (typeof key !== "string") return false;
+        this.delete(key as keyof T & string);
+        return true;
+      },
+      defineProperty: () => false,
+    }) as T;
+    liveObjects.set(this.data, () => this.getAll());
+  }
+
+  get<K extends keyof T & string>(key: K): T[K] | undefined {
+    return Object.hasOwn(this.values, key)
+      ? (this.values[key] as T[K])
+      : undefined;
+  }
+
+  set<K extends keyof T & string>(key: K, value: T[K]) {
+    this.update({ [key]: value } as unknown as Partial<T>);
+  }
+
+  update(changes: Partial<T>) {
+    const entries: StateEntry[] = [];
+    Object.entries(changes).forEach(([key, value]) => {
+      if (Object.hasOwn(this.values, key) && isEqual(this.values[key], value)) {
+        return;
+      }
+      entries.push(this.writeLocal(key, value, false));
+    });
+    this.publish(entries);
+  }
+
+  delete(key: keyof T & string) {
+    if (!Object.hasOwn(this.values, key)) return;
+    this.publish([this.writeLocal(key, undefined, true)]);
+  }
+
+  getAll(): T {
+    return { ...this.values } as T;
+  }
+
+  subscribe(listener: (event: StateChangeEvent<T>) => void) {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  }
+
+  /**
+   * Versions of all keys that were written, sent to the plugin with the init message.
+   * The init message carries the current values, so nothing is pending afterwards.
+   */
+  getVersions(): [string, number][] {
+    this.pending.clear();
+    return [...this.versions];
+  }
+
+  /**
+   * Starts sending changes, and sends the parent's changes made since getVersions()
+   */
+  connect(send: (patch: StatePatch) => void) {
+    this.send = send;
+    const entries = [...this.pending].map((key) => this.entryOf(key));
+    this.pending.clear();
+    this.publish(entries);
+  }
+
+  /**
+   * Stops sending changes, e.g. while a reloaded plugin is initialized again
+   */
+  disconnect() {
+    this.send = null;
+  }
+
+  /**
+   * Applies a patch of the other side
+   */
+  receive(patch: StatePatch) {
+    if (!patch || !Array.isArray(patch.entries)) return;
+    const answers: StateEntry[] = [];
+    patch.entries.forEach((entry) => {
+      if (typeof entry?.key !== "string" || typeof entry.version !== "number") {
+        return;
+      }
+      const version = this.versions.get(entry.key) ?? 0;
+      if (this.role === "plugin") {
+        // The parent is the authority, older entries were overtaken by our own writes
+        if (entry.version >= version) {
+          this.apply(entry);
+        }
+        return;
+      }
+      if (entry.version > version) {
+        this.apply(entry);
+        return;
+      }
+      answers.push(this.resolveConflict(entry, version));
+    });
+    this.publish(answers);
+  }
+
+  /**
+   * Removes the subscribers and stops sending changes
+   */
+  destroy() {
+    this.disconnect();
+    this.subscribers.clear();
+  }
+
+  /**
+   * Decides which value a plugin write that crossed a parent write leaves,
+   * and returns the entry telling the plugin about it
+   */
+  private resolveConflict(entry: StateEntry, version: number): StateEntry {
+    const hostValue = this.get(entry.key as keyof T & string);
+    const pluginValue = entry.deleted ? undefined : entry.value;
+    // Both sides wrote the same, the plugin only needs the version
+    const isSame =
+      Object.hasOwn(this.values, entry.key) === !entry.deleted &&
+      isEqual(hostValue, pluginValue);
+    if (this.conflict === "host-wins" || isSame) {
+      return this.entryOf(entry.key);
+    }
+    if (this.conflict === "last-write-wins") {
+      return this.apply({ ...entry, version: version + 1 });
+    }
+    const resolved = this.conflict({
+      key: entry.key,
+      hostValue,
+      pluginValue,
+    });
+    return this.apply({
+      key: entry.key,
+      value: resolved,
+      version: version + 1,
+      ...(resolved === undefined && { deleted: true }),
+    });
+  }
+
+  /**
+   * Writes a key changed by this side and returns its entry
+   */
+  private writeLocal(key: string, value: unknown, deleted: boolean) {
+    const previousValue = this.values[key];
+    const version = (this.versions.get(key) ?? 0) + 1;
+    this.versions.set(key, version);
+    this.write(key, value, deleted);
+    this.notify(key, previousValue, deleted, "local");
+    return this.entryOf(key);
+  }
+
+  /**
+   * Writes an entry of the other side, or one resolving a conflict, and returns it
+   */
+  private apply(entry: StateEntry): StateEntry {
+    const { key, value, version } = entry;
+    const deleted = Boolean(entry.deleted);
+    this.versions.set(key, version);
+    const existed = Object.hasOwn(this.values, key);
+    const previousValue = this.values[key];
+    if (existed !== !deleted || !isEqual(previousValue, value)) {
+      this.write(key, value, deleted);
+      if (existed || !deleted) {
+        this.notify(key, previousValue, deleted, "remote");
+      }
+    }
+    return this.entryOf(key);
+  }
+
+  private write(key: string, value: unknown, deleted: boolean) {
+    if (deleted) {
+      delete this.values[key];
+      return;
+    }
+    // Defined instead of assigned, so keys like "__proto__" stay plain keys
+    Object.defineProperty(this.values, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  private entryOf(key: string): StateEntry {
+    const version = this.versions.get(key) ?? 0;
+    return Object.hasOwn(this.values, key)
+      ? { key, value: this.values[key], version }
+      : { key, deleted: true, version };
+  }
+
+  private notify(
+    key: string,
+    previousValue: unknown,
+    deleted: boolean,
+    source: "local" | "remote",
+  ) {
+    const event: StateChangeEvent<T> = {
+      key: key as keyof T & string,
+      value: deleted ? undefined : this.values[key],
+      previousValue,
+      deleted,
+      source,
+    };
+    this.subscribers.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Sends entries to the other side, or keeps the parent's until it connects
+   */
+  private publish(entries: StateEntry[]) {
+    if (entries.length === 0) return;
+    if (this.send) {
+      this.send({ entries });
+    } else if (this.role === "host") {
+      entries.forEach(({ key }) => this.pending.add(key));
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { ChunkQueue, toAsyncIterator } from "./stream";
+
+const collect = async (iterator: AsyncIterator<unknown>) => {
+  const items: unknown[] = [];
+  for (;;) {
+    const { done, value } = await iterator.next();
+    if (done) return items;
+    items.push(value);
+  }
+};
+
+describe("toAsyncIterator", () => {
+  it("should iterate over async iterables", async () => {
+    async function* generate() {
+      yield 1;
+      yield 2;
+    }
+    expect(await collect(toAsyncIterator(generate()))).toEqual([1, 2]);
+  });
+
+  it("should iterate over sync generators", async () => {
+    function* generate() {
+      yield "a";
+      yield "b";
+    }
+    expect(await collect(toAsyncIterator(generate()))).toEqual(["a", "b"]);
+  });
+
+  it("should treat arrays, strings and plain values as a single chunk", async () => {
+    expect(await collect(toAsyncIterator([1, 2]))).toEqual([[1, 2]]);
+    expect(await collect(toAsyncIterator("text"))).toEqual(["text"]);
+    expect(await collect(toAsyncIterator({ a: 1 }))).toEqual([{ a: 1 }]);
+  });
+});
+
+describe("ChunkQueue", () => {
+  it("should hand chunks to waiting and later consumers", async () => {
+    const queue = new ChunkQueue<number>();
+    const first = queue.next();
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    expect(await first).toEqual({ done: false, value: 1 });
+    expect(await collect(queue)).toEqual([2]);
+  });
+
+  it("should throw the error once, after the buffered chunks", async () => {
+    const queue = new ChunkQueue<number>();
+    const error = new Error("Broken");
+    queue.push(1);
+    queue.fail(error);
+
+    expect(await queue.next()).toEqual({ done: false, value: 1 });
+    await expect(queue.next()).rejects.toBe(error);
+    expect(await queue.next()).toEqual({ done: true, value: undefined });
+  });
+
+  it("should call onPull for every consumed chunk", async () => {
+    const onPull = vi.fn();
+    const queue = new ChunkQueue<number>({ onPull });
+    const waiting = queue.next();
+    queue.push(1);
+    queue.push(2);
+    await waiting;
+    await queue.next();
+
+    expect(onPull).toHaveBeenCalledTimes(2);
+  });
+
+  it("should call onReturn only when the consumer stops early", async () => {
+    const onReturn = vi.fn();
+    const stopped = new ChunkQueue<number>({ onReturn });
+    const waiting = stopped.next();
+    await stopped.return();
+    expect(await waiting).toEqual({ done: true, value: undefined });
+    expect(onReturn).toHaveBeenCalledTimes(1);
+
+    const finished = new ChunkQueue<number>({ onReturn });
+    finished.end();
+    await finished.return();
+    expect(onReturn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @module Helpers for streaming responses over PostMessageSocket
+ */
+
+/**
+ * Number of chunks a stream consumer lets the producer send ahead of consumption,
+ * unless the stream() call sets its own highWaterMark.
+ */
+export const DEFAULT_HIGH_WATER_MARK = 16;
+
+/**
+ * Whether a callback's return value is streamed item by item: async iterables
+ * and sync iterators (e.g. generators), but not arrays or strings.
+ */
+export function isChunkSource(
+  value: unknown,
+): value is AsyncIterable<unknown> | IterableIterator<unknown> {
+  if (!value || typeof value !== "object") return false;
+  return (
+    Symbol.asyncIterator in value ||
+    (Symbol.iterator in value &&
+      "next" in value &&
+      typeof value.next === "function")
+  );
+}
+
+/**
+ * Turns the return value of a channel callback into an async iterator of chunks.
+ * Async iterables and sync iterators (e.g. generators) yield their items,
+ * any other value (including arrays and strings) is sent as a single chunk.
+ */
+export function toAsyncIterator(value: unknown): AsyncIterator<unknown> {
+  if (isChunkSource(value)) {
+    if (Symbol.asyncIterator in value) {
+      return value[Symbol.asyncIterator]();
+    }
+    const iterator = value;
+    return {
+      next: async () => iterator.next(),
+      return: async () =>
+        iterator.return?.() ?? { done: true, value: undefined },
+    };
+  }
+
+  let sent = false;
+  return {
+    next: async () => {
+      if (sent) return { done: true, value: undefined };
+      sent = true;
+      return { done: false, value };
+    },
+  };
+}
+
+/**
+ * Async iterator handed to the consumer of a stream.
+ * The socket pushes incoming chunks into it; the consumer pulls them with for await.
+ *
+ * - `onPull` is called whenever a chunk is handed to the consumer (used for acks)
+ * - `onReturn` is called when the consumer stops early, e.g. breaks out of the loop
+ */
+export class ChunkQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiters: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+  private isDone = false;
+  private error: { reason: unknown } | null = null;
+  private hooks: { onPull?: () => void; onReturn?: () => void };
+
+  constructor(hooks: { onPull?: () => void; onReturn?: () => void } = {}) {
+    this.hooks = hooks;
+  }
+
+  /** Adds a chunk, or hands it to a consumer already waiting for one */
+  push(chunk: T) {
+    if (this.isDone) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.hooks.onPull?.();
+      waiter.resolve({ done: false, value: chunk });
+      return;
+    }
+    this.buffer.push(chunk);
+  }
+
+  /** Marks the stream as finished; buffered chunks can still be consumed */
+  end() {
+    if (this.isDone) return;
+    this.isDone = true;
+    this.waiters
+      .splice(0)
+      .forEach((waiter) => waiter.resolve({ done: true, value: undefined }));
+  }
+
+  /** Finishes the stream with an error, thrown after the buffered chunks */
+  fail(reason: unknown) {
+    if (this.isDone) return;
+    this.isDone = true;
+    this.error = { reason };
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(reason));
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length) {
+      this.hooks.onPull?.();
+      return Promise.resolve({ done: false, value: this.buffer.shift() as T });
+    }
+    if (this.error) {
+      const { reason } = this.error;
+      // Throw only once, like a generator that threw
+      this.error = null;
+      return Promise.reject(reason);
+    }
+    if (this.isDone) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    if (!this.isDone) {
+      this.isDone = true;
+      this.hooks.onReturn?.();
+    }
+    this.buffer = [];
+    this.error = null;
+    this.waiters
+      .splice(0)
+      .forEach((waiter) => waiter.resolve({ done: true, value: undefined }));
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { TopicEvents, isTopicEvent, matchesTopic } from "./topics";
+
+describe("matchesTopic", () => {
+  it("should match topics exactly without wildcards", () => {
+    expect(matchesTopic("cursor.moved", "cursor.moved")).toBe(true);
+    expect(matchesTopic("cursor.moved", "cursor.moved.fast")).toBe(false);
+    expect(matchesTopic("cursor", "cursor.moved")).toBe(false);
+  });
+
+  it("should match one segment with * and any number with **", () => {
+    expect(matchesTopic("cursor.*", "cursor.moved")).toBe(true);
+    expect(matchesTopic("cursor.*", "cursor")).toBe(false);
+    expect(matchesTopic("cursor.*", "cursor.moved.fast")).toBe(false);
+    expect(matchesTopic("*.moved", "cursor.moved")).toBe(true);
+    expect(matchesTopic("cursor.**", "cursor")).toBe(true);
+    expect(matchesTopic("cursor.**", "cursor.moved.fast")).toBe(true);
+    expect(matchesTopic("**.fast", "cursor.moved.fast")).toBe(true);
+    expect(matchesTopic("**", "telemetry")).toBe(true);
+  });
+});
+
+describe("isTopicEvent", () => {
+  it("should accept objects with a topic", () => {
+    expect(isTopicEvent({ topic: "cursor.moved", payload: 1 })).toBe(true);
+    expect(isTopicEvent({ topic: 1 })).toBe(false);
+    expect(isTopicEvent(null)).toBe(false);
+  });
+});
+
+describe("TopicEvents", () => {
+  it("should call the handlers of matching patterns", () => {
+    const topics = new TopicEvents();
+    const onCursor = vi.fn();
+    const onAll = vi.fn();
+    const onSelection = vi.fn();
+    topics.on("cursor.*", onCursor);
+    topics.on("**", onAll);
+    const off = topics.on("selection.*", onSelection);
+    off();
+
+    expect(topics.dispatch("cursor.moved", { x: 1 })).toBe(true);
+    expect(topics.dispatch("selection.changed", null)).toBe(true);
+
+    expect(onCursor).toHaveBeenCalledWith({ x: 1 }, "cursor.moved");
+    expect(onAll).toHaveBeenCalledTimes(2);
+    expect(onSelection).not.toHaveBeenCalled();
+  });
+
+  it("should keep calling handlers after one throws", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const topics = new TopicEvents();
+    const handler = vi.fn();
+    topics.on("ping", () => {
+      throw new Error("Handler failed");
+    });
+    topics.on("ping", handler);
+
+    topics.dispatch("ping", undefined);
+
+    expect(handler).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import type { TopicEvent } from "./types/index";
+
+/**
+ * @module Fire-and-forget events by topic between the parent and the plugin
+ *
+ * Events are sent on EVENT_CHANNEL without waiting for an answer, so nothing
+ * reports whether the other side handled them. Topics are dot-separated names like
+ * "cursor.moved", handlers subscribe to patterns that may contain wildcards.
+ */
+
+/**
+ * Whether a payload of EVENT_CHANNEL is a topic event
+ */
+export function isTopicEvent(event: unknown): event is TopicEvent {
+  return (
+    typeof event === "object" &&
+    event !== null &&
+    typeof (event as Partial<TopicEvent>).topic === "string"
+  );
+}
+
+/**
+ * Whether a topic matches a pattern. In patterns, `*` stands for exactly one segment
+ * and `**` for any number of segments, including none.
+ *
+ * @example
+ * ```typescript
+ * matchesTopic("cursor.*", "cursor.moved"); // true
+ * matchesTopic("cursor.*", "cursor.moved.fast"); // false
+ * matchesTopic("cursor.**", "cursor.moved.fast"); // true
+ * ```
+ */
+export function matchesTopic(pattern: string, topic: string): boolean {
+  const match = (patternParts: string[], topicParts: string[]): boolean => {
+    if (patternParts.length === 0) return topicParts.length === 0;
+    const [part, ...restPattern] = patternParts;
+    if (part === "**") {
+      // Try every number of segments, starting with none
+      for (let skip = 0; skip <= topicParts.length; skip++) {
+        if (match(restPattern, topicParts.slice(skip))) return true;
+      }
+      return false;
+    }
+    if (topicParts.length === 0) return false;
+    const [topicPart, ...restTopic] = topicParts;
+    return (
+      (part === "*" || part === topicPart) && match(restPattern, restTopic)
+    );
+  };
+  return match(pattern.split("."), topic.split("."));
+}
+
+/**
+ * Handlers of topic events by pattern. Handlers that throw are reported through
+ * console.error and do not keep the other handlers from running.
+ * Arguments passed to dispatch() after the payload reach the handlers after the topic.
+ *
+ * @example
+ * ```typescript
+ * const topics = new TopicEvents();
+ * const off = topics.on("selection.*", (payload, topic) => console.log(topic, payload));
+ * topics.dispatch("selection.changed", { from: 0, to: 4 });
+ * off();
+ * ```
+ */
+export class TopicEvents<A extends unknown[] = []> {
+  private handlers: Set<{
+    pattern: string;
+    handler: (payload: unknown, topic: string, ...args: A) => void;
+  }> = new Set();
+
+  /**
+   * Adds a handler of the topics matching the pattern and returns a function removing it
+   */
+  on(
+    pattern: string,
+    handler: (payload: unknown, topic: string, ...args: A) => void,
+  ) {
+    const entry = { pattern, handler };
+    this.handlers.add(entry);
+    return () => {
+      this.handlers.delete(entry);
+    };
+  }
+
+  /**
+   * Calls every handler whose pattern matches the topic.
+   * Returns whether the topic had any handler.
+   */
+  dispatch(topic: string, payload: unknown, ...args: A) {
+    // Handlers may remove themselves, so iterate over a snapshot
+    const handlers = [...this.handlers].filter(({ pattern }) =>
+      matchesTopic(pattern, topic),
+    );
+    handlers.forEach(({ handler }) => {
+      try {
+        handler(payload, topic, ...args);
+      } catch (error) {
+        console.error(`Error in handler of topic "${topic}":`, error);
+      }
+    });
+    return handlers.length > 0;
+  }
+
+  /**
+   * Removes all handlers
+   */
+  clear() {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { takeTransferables, transfer } from "./transfer";
+
+describe("transfer", () => {
+  it("should return the marked value itself", () => {
+    const buffer = new ArrayBuffer(8);
+    expect(transfer(buffer, [buffer])).toBe(buffer);
+  });
+
+  it("should collect the transfer list of a marked payload", () => {
+    const buffer = new ArrayBuffer(8);
+    expect(takeTransferables(transfer(buffer, [buffer]))).toEqual([buffer]);
+  });
+
+  it("should collect marked properties of objects and items of arrays", () => {
+    const first = new ArrayBuffer(8);
+    const second = new ArrayBuffer(8);
+    const pixels = new Uint8Array(first);
+
+    expect(
+      takeTransferables({ pixels: transfer(pixels, [first]), width: 2 }),
+    ).toEqual([first]);
+    expect(
+      takeTransferables([transfer(first, [first]), transfer(second, [second])]),
+    ).toEqual([first, second]);
+  });
+
+  it("should not list the same transferable twice", () => {
+    const buffer = new ArrayBuffer(8);
+    const payload = transfer({ a: transfer(buffer, [buffer]) }, [buffer]);
+    expect(takeTransferables(payload)).toEqual([buffer]);
+  });
+
+  it("should forget the mark once the transfer list is taken", () => {
+    const buffer = new ArrayBuffer(8);
+    transfer(buffer, [buffer]);
+    takeTransferables(buffer);
+    expect(takeTransferables(buffer)).toEqual([]);
+  });
+
+  it("should ignore unmarked and primitive payloads", () => {
+    expect(takeTransferables(new ArrayBuffer(8))).toEqual([]);
+    expect(takeTransferables("text")).toEqual([]);
+    expect(takeTransferables(null)).toEqual([]);
+  });
+});
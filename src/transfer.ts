@@ -0,0 +1,63 @@
+/**
+ * @module Transferable object support for messages sent over PostMessageSocket
+ */
+
+/** Transfer lists attached to values with transfer(), taken when the value is sent */
+const transferCache = new WeakMap<object, Transferable[]>();
+
+/**
+ * Marks a value to be sent with a transfer list instead of being structured-cloned.
+ * Works for payloads of send(), sendAndWait() and stream(), for return values of
+ * callbacks and for the chunks a streaming callback yields. The marked value can be the
+ * payload itself or a direct property (or item) of a payload object (or array).
+ *
+ * Transferred objects become unusable in the sending window, e.g. a transferred
+ * ArrayBuffer is detached and its byteLength drops to 0.
+ *
+ * @example
+ * ```typescript
+ * import { transfer } from '@micskeil/postmessage-rpc';
+ *
+ * // Parent side: move the pixels to the plugin without copying them
+ * const pixels = await image.arrayBuffer();
+ * await plugin.methods.applyFilter({ pixels: transfer(pixels, [pixels]), filter: 'blur' });
+ *
+ * // Plugin side: move the result back
+ * methods: {
+ *   applyFilter: ({ pixels, filter }) => {
+ *     const result = runFilter(pixels, filter);
+ *     return transfer(result, [result.buffer]);
+ *   }
+ * }
+ * ```
+ */
+export function transfer<T extends object>(
+  value: T,
+  transferables: Transferable[],
+): T {
+  transferCache.set(value, transferables);
+  return value;
+}
+
+/**
+ * Collects the transfer lists of the marked values in a payload, and removes the marks
+ * so a value sent again is cloned unless marked again.
+ */
+export function takeTransferables(payload: unknown): Transferable[] {
+  if (!payload || typeof payload !== "object") return [];
+
+  const candidates: unknown[] = [payload];
+  if (Array.isArray(payload)) {
+    candidates.push(...payload);
+  } else if (Object.getPrototypeOf(payload) === Object.prototype) {
+    candidates.push(...Object.values(payload));
+  }
+
+  const transferables = new Set<Transferable>();
+  candidates.forEach((candidate) => {
+    if (!candidate || typeof candidate !== "object") return;
+    transferCache.get(candidate)?.forEach((item) => transferables.add(item));
+    transferCache.delete(candidate);
+  });
+  return [...transferables];
+}
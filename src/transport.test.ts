@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import PostMessageSocket from "./postMessageSocket";
+import {
+  BroadcastChannelTransport,
+  MessagePortTransport,
+  WorkerTransport,
+  createInMemoryTransportPair,
+} from "./transport";
+import type { MessageEndpoint, Transport } from "./types/index";
+
+// Mock console.error to avoid cluttering test output
+console.error = vi.fn();
+
+const sockets: PostMessageSocket[] = [];
+
+/**
+ * Runs the same request-response round trip over any pair of transports
+ */
+const expectRoundTrip = async (first: Transport, second: Transport) => {
+  const host = new PostMessageSocket(first);
+  const plugin = new PostMessageSocket(second);
+  sockets.push(host, plugin);
+
+  const once = vi.fn();
+  plugin.createMessageChannel("double", (value: number) => value * 2);
+  plugin.createMessageChannel("ready", once, { once: true });
+  const double = host.createMessageChannel<number, number>("double", () => 0);
+  const ready = host.createMessageChannel("ready", () => {});
+
+  expect(await double!.sendAndWait(21)).toBe(42);
+
+  ready!.send("first");
+  ready!.send("second");
+  await vi.waitFor(() => expect(once).toHaveBeenCalled());
+  expect(once).toHaveBeenCalledTimes(1);
+  expect(once).toHaveBeenCalledWith("first", expect.anything());
+  // The second message finds no listener anymore
+  await vi.waitFor(() =>
+    expect(console.error).toHaveBeenCalledWith("No message channel: ready"),
+  );
+};
+
+/**
+ * A worker-like endpoint pair, delivering messages like a dedicated worker does
+ */
+const createEndpointPair = (): [MessageEndpoint, MessageEndpoint] => {
+  const targets = [new EventTarget(), new EventTarget()];
+  const endpoint = (
+    self: EventTarget,
+    other: EventTarget,
+  ): MessageEndpoint => ({
+    postMessage: (message) =>
+      setTimeout(() =>
+        other.dispatchEvent(new MessageEvent("message", { data: message })),
+      ),
+    addEventListener: (type, listener) =>
+      self.addEventListener(type, listener as EventListener),
+    removeEventListener: (type, listener) =>
+      self.removeEventListener(type, listener as EventListener),
+  });
+  return [endpoint(targets[0], targets[1]), endpoint(targets[1], targets[0])];
+};
+
+describe("transports", () => {
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+    vi.clearAllMocks();
+  });
+
+  it("should work over an in-memory pair", async () => {
+    await expectRoundTrip(...createInMemoryTransportPair());
+  });
+
+  it("should clone messages of the in-memory pair like postMessage", async () => {
+    const [first, second] = createInMemoryTransportPair();
+    const received = vi.fn();
+    second.subscribe(received);
+
+    const payload = { nested: { value: 1 } };
+    first.send({ id: "1", name: "test", payload, waitForResponse: false }, []);
+    await vi.waitFor(() => expect(received).toHaveBeenCalled());
+
+    const [data] = received.mock.calls[0];
+    expect(data.payload).toEqual(payload);
+    expect(data.payload).not.toBe(payload);
+  });
+
+  it("should stop delivering once an in-memory transport is closed", async () => {
+    const [first, second] = createInMemoryTransportPair();
+    const received = vi.fn();
+    second.subscribe(received);
+    second.close();
+
+    first.send(
+      { id: "1", name: "test", payload: 1, waitForResponse: false },
+      [],
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it("should work over message ports", async () => {
+    const { port1, port2 } = new MessageChannel();
+    await expectRoundTrip(
+      new MessagePortTransport(port1),
+      new MessagePortTransport(port2),
+    );
+  });
+
+  it("should close the port when the socket terminates", () => {
+    const { port1, port2 } = new MessageChannel();
+    const close = vi.spyOn(port1, "close");
+    new PostMessageSocket(new MessagePortTransport(port1)).terminate();
+
+    expect(close).toHaveBeenCalled();
+    port2.close();
+  });
+
+  it("should work over worker endpoints", async () => {
+    const [page, worker] = createEndpointPair();
+    await expectRoundTrip(
+      new WorkerTransport(page),
+      new WorkerTransport(worker),
+    );
+  });
+
+  it("should work over a broadcast channel", async () => {
+    await expectRoundTrip(
+      new BroadcastChannelTransport("transport-test"),
+      new BroadcastChannelTransport("transport-test"),
+    );
+  });
+});
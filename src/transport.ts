@@ -0,0 +1,330 @@
+import { ErrorStrings } from "./types/index";
+import type {
+  Message,
+  MessageEndpoint,
+  OriginOptions,
+  Transport,
+  TransportHandler,
+} from "./types/index";
+import { createOriginMatcher, getExactOrigin, getParentOrigin } from "./origin";
+
+/**
+ * @module Built-in transports PostMessageSocket can send its messages through
+ */
+
+/**
+ * Transport between two windows, e.g. a page and the content window of its iframe.
+ * Only messages sent by the target window with the target origin (or an allowed origin)
+ * are let through, and they are not propagated to other message listeners of the window.
+ *
+ * @example
+ * ```typescript
+ * const transport = new WindowTransport(window, iframe.contentWindow, {
+ *   targetOrigin: "https://plugin.vendor.com",
+ * });
+ * const socket = new PostMessageSocket(transport);
+ *
+ * // In the plugin, accepting any host on a domain
+ * const transport = new WindowTransport(window, window.parent, {
+ *   allowedOrigins: ["https://*.customer.com"],
+ * });
+ * ```
+ */
+export class WindowTransport implements Transport {
+  private window: Window;
+  private targetWindow: Window;
+  /** null until the first message from an allowed origin tells it */
+  private targetOrigin: string | null;
+  /** Messages sent before the target origin is known, posted once it is */
+  private heldMessages: [Message, Transferable[]][] = [];
+  private isAllowedOrigin: (origin: string) => boolean;
+  private onError: (error: string) => void;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  /**
+   * The target origin is determined at construction time (see {@link OriginOptions})
+   * and enforced for all messages.
+   *
+   * @throws {Error} If no target origin is set, none can be derived from `allowedOrigins`
+   *   and the origin of the target window cannot be read (e.g. a cross-origin parent)
+   */
+  constructor(
+    window: Window,
+    targetWindow: Window,
+    {
+      onError = (error: string) => console.error(error),
+      allowedOrigins,
+      targetOrigin,
+    }: OriginOptions & { onError?: (error: string) => void } = {},
+  ) {
+    this.window = window;
+    this.targetWindow = targetWindow;
+    this.onError = onError;
+    this.targetOrigin =
+      targetOrigin ??
+      getExactOrigin(allowedOrigins) ??
+      readOrigin(targetWindow) ??
+      null;
+    if (this.targetOrigin === null && !allowedOrigins) {
+      throw new Error(ErrorStrings.NoTargetOrigin);
+    }
+    this.isAllowedOrigin = allowedOrigins
+      ? createOriginMatcher(allowedOrigins)
+      : (origin) => origin === this.targetOrigin;
+    if (this.targetOrigin === null && targetWindow === window.parent) {
+      this.targetOrigin = getParentOrigin(window, this.isAllowedOrigin) ?? null;
+    }
+  }
+
+  send(message: Message, transfer: Transferable[] = []) {
+    // Never "*": messages wait for the first allowed message to tell the origin
+    if (this.targetOrigin === null) {
+      this.heldMessages.push([message, transfer]);
+      return;
+    }
+    this.targetWindow.postMessage(message, this.targetOrigin, transfer);
+  }
+
+  subscribe(handler: TransportHandler) {
+    const listener = (event: MessageEvent) => {
+      // Security validation: Verify message source and origin
+      // Silently ignore messages from other windows (expected when multiple plugins exist)
+      if (event.source !== this.targetWindow) {
+        return;
+      }
+
+      // Prevent this event from bubbling to other listeners
+      event.stopImmediatePropagation();
+
+      // Validate the origin matches the target origin or the allowlist
+      if (!this.isAllowedOrigin(event.origin)) {
+        this.onError(
+          `${ErrorStrings.WrongMessagePayload}: Origin mismatch. Expected ${this.targetOrigin ?? "an allowed origin"}, got ${event.origin}`,
+        );
+        return;
+      }
+      // Answer only the origin we heard from
+      if (this.targetOrigin === null) {
+        this.targetOrigin = event.origin;
+        this.heldMessages
+          .splice(0)
+          .forEach(([message, transfer]) => this.send(message, transfer));
+      }
+
+      handler(event.data);
+    };
+    this.window.addEventListener("message", listener);
+    this.listeners.add(listener);
+    return () => {
+      this.window.removeEventListener("message", listener);
+      this.listeners.delete(listener);
+    };
+  }
+
+  close() {
+    this.listeners.forEach((listener) =>
+      this.window.removeEventListener("message", listener),
+    );
+    this.listeners.clear();
+    this.heldMessages = [];
+  }
+}
+
+/**
+ * Reads the origin of a window, if the current window is allowed to.
+ */
+function readOrigin(window: Window): string | undefined {
+  try {
+    return window.origin;
+  } catch {
+    // SecurityError for cross-origin windows
+    return undefined;
+  }
+}
+
+/**
+ * Transport through anything with the postMessage API of workers and message ports.
+ * The endpoint is private to the two parties, so there is nothing to check.
+ */
+class EndpointTransport implements Transport {
+  protected endpoint: MessageEndpoint;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(endpoint: MessageEndpoint) {
+    this.endpoint = endpoint;
+  }
+
+  send(message: Message, transfer: Transferable[] = []) {
+    this.endpoint.postMessage(message, transfer);
+  }
+
+  subscribe(handler: TransportHandler) {
+    const listener = (event: MessageEvent) => handler(event.data);
+    this.endpoint.addEventListener("message", listener);
+    this.listeners.add(listener);
+    return () => {
+      this.endpoint.removeEventListener("message", listener);
+      this.listeners.delete(listener);
+    };
+  }
+
+  close() {
+    this.listeners.forEach((listener) =>
+      this.endpoint.removeEventListener("message", listener),
+    );
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Transport to a dedicated worker, or to the page from inside the worker.
+ * Closing the transport only stops listening, the worker keeps running.
+ *
+ * @example
+ * ```typescript
+ * // In the page
+ * const socket = new PostMessageSocket(new WorkerTransport(new Worker("worker.js")));
+ *
+ * // In worker.js
+ * const socket = new PostMessageSocket(new WorkerTransport(self));
+ * ```
+ */
+export class WorkerTransport extends EndpointTransport {
+  constructor(worker: Worker | MessageEndpoint) {
+    super(worker);
+  }
+}
+
+/**
+ * Transport through a MessagePort, e.g. one end of a MessageChannel or a port
+ * received in a SharedWorker's connect event. Closing the transport closes the port.
+ *
+ * @example
+ * ```typescript
+ * // In a shared worker
+ * self.addEventListener("connect", (event) => {
+ *   const socket = new PostMessageSocket(new MessagePortTransport(event.ports[0]));
+ * });
+ * ```
+ */
+export class MessagePortTransport extends EndpointTransport {
+  private port: MessagePort;
+
+  constructor(port: MessagePort) {
+    super(port);
+    this.port = port;
+  }
+
+  subscribe(handler: TransportHandler) {
+    const unsubscribe = super.subscribe(handler);
+    // Ports only deliver messages to addEventListener() listeners once started
+    this.port.start();
+    return unsubscribe;
+  }
+
+  close() {
+    super.close();
+    this.port.close();
+  }
+}
+
+/**
+ * Transport to a SharedWorker from a page, through the worker's port.
+ *
+ * @example
+ * ```typescript
+ * const worker = new SharedWorker("shared.js");
+ * const socket = new PostMessageSocket(new SharedWorkerTransport(worker));
+ * ```
+ */
+export class SharedWorkerTransport extends MessagePortTransport {
+  constructor(worker: SharedWorker) {
+    super(worker.port);
+  }
+}
+
+/**
+ * Transport through a BroadcastChannel, for contexts of the same origin (tabs, frames,
+ * workers) that have no reference to each other. Every socket on the channel receives
+ * every message, so use it for two parties or for fire-and-forget broadcasts.
+ * BroadcastChannel cannot transfer objects, transfer lists are ignored and the
+ * objects are cloned. Closing the transport closes the channel.
+ *
+ * @example
+ * ```typescript
+ * const socket = new PostMessageSocket(new BroadcastChannelTransport("editor-sync"));
+ * ```
+ */
+export class BroadcastChannelTransport extends EndpointTransport {
+  private channel: BroadcastChannel;
+
+  constructor(channel: BroadcastChannel | string) {
+    const broadcastChannel =
+      typeof channel === "string" ? new BroadcastChannel(channel) : channel;
+    super(broadcastChannel);
+    this.channel = broadcastChannel;
+  }
+
+  send(message: Message) {
+    this.channel.postMessage(message);
+  }
+
+  close() {
+    super.close();
+    this.channel.close();
+  }
+}
+
+/**
+ * One end of an in-memory transport pair
+ */
+class InMemoryTransport implements Transport {
+  peer: InMemoryTransport | null = null;
+  private handlers: Set<TransportHandler> = new Set();
+  private isClosed = false;
+
+  send(message: Message, transfer: Transferable[] = []) {
+    if (this.isClosed) return;
+    // Clone like postMessage does, so both ends never share objects
+    const data = structuredClone(message, { transfer });
+    const peer = this.peer;
+    setTimeout(() => peer?.deliver(data), 0);
+  }
+
+  subscribe(handler: TransportHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  close() {
+    this.isClosed = true;
+    this.handlers.clear();
+  }
+
+  private deliver(data: unknown) {
+    if (this.isClosed) return;
+    this.handlers.forEach((handler) => handler(data));
+  }
+}
+
+/**
+ * Creates two connected transports that deliver messages to each other within the
+ * same JavaScript context, asynchronously and structured-cloned like postMessage.
+ * Useful for tests and for running a plugin in the same window.
+ *
+ * @example
+ * ```typescript
+ * const [hostTransport, pluginTransport] = createInMemoryTransportPair();
+ * const host = new PostMessageSocket(hostTransport);
+ * const plugin = new PostMessageSocket(pluginTransport);
+ * ```
+ */
+export function createInMemoryTransportPair(): [Transport, Transport] {
+  const first = new InMemoryTransport();
+  const second = new InMemoryTransport();
+  first.peer = second;
+  second.peer = first;
+  return [first, second];
+}
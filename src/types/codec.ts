@@ -0,0 +1,28 @@
+/**
+ * @module Types for the codecs converting message payloads
+ */
+
+/**
+ * Converts payloads to what the transport carries and back.
+ * Both sides of a socket must use matching codecs.
+ */
+export interface Codec {
+  /** Converts a payload before it is sent */
+  encode(value: unknown): unknown;
+  /** Restores a payload that was encoded by the other side */
+  decode(data: unknown): unknown;
+}
+
+/**
+ * Handler of a custom type in a codec's registry, e.g. a domain class or a `Decimal`
+ */
+export interface TypeHandler<T = unknown, E = unknown> {
+  /** Name identifying the type in encoded payloads, the same on both sides */
+  name: string;
+  /** Whether a value is of this type */
+  is(value: unknown): value is T;
+  /** Converts a value to data the codec can encode, it may contain other custom types */
+  encode(value: T): E;
+  /** Restores a value from the data returned by encode */
+  decode(data: E): T;
+}
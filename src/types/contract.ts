@@ -0,0 +1,133 @@
+import type { CallOptions } from "./message";
+import type { CallContext } from "./listener";
+import type { Methods } from "./plugin";
+
+/**
+ * @module Types for describing the API of a plugin once, for both sides
+ */
+
+/**
+ * What a contract can describe. Methods and hooks are maps of function signatures,
+ * e.g. `{ getNote: (id: string) => Note; save: (note: Note) => void }`.
+ */
+export interface PluginContractShape {
+  /** Methods the plugin implements and the parent calls */
+  methods?: object;
+  /** Hooks the parent implements and the plugin calls */
+  hooks?: object;
+  /** Initial data the parent passes to the plugin */
+  data?: unknown;
+  /** Settings the parent passes to the plugin */
+  settings?: unknown;
+}
+
+/**
+ * Describes the API of a plugin. Pass the same contract to initInlinePlugin /
+ * initFullscreenPlugin and to providePlugin, and both sides get typed method names,
+ * payloads and return values.
+ *
+ * @example
+ * ```typescript
+ * type NoteEditor = PluginContract<{
+ *   methods: {
+ *     getNote: () => Note;
+ *     setReadOnly: (readOnly: boolean) => void;
+ *   };
+ *   hooks: {
+ *     onSave: (note: Note) => { savedAt: string };
+ *   };
+ *   data: { noteId: string };
+ *   settings: { theme: "light" | "dark" };
+ * }>;
+ *
+ * // Parent side
+ * const plugin = await initInlinePlugin<NoteEditor>(config, options);
+ * const note = await plugin.methods.getNote(); // Note
+ * await plugin.methods.setReadOnly("yes"); // Type error
+ *
+ * // Plugin side
+ * const { hooks, data } = await providePlugin<NoteEditor>({
+ *   hooks: ["onSave"],
+ *   methods: { getNote: () => editor.note, setReadOnly: (readOnly) => editor.lock(readOnly) },
+ * });
+ * ```
+ */
+export type PluginContract<T extends PluginContractShape> = T;
+
+/**
+ * The contract of plugins that don't declare one: any method and hook name, unknown payloads
+ */
+export interface DefaultContract {
+  methods: Methods;
+  hooks: Methods;
+  data: unknown;
+  settings: unknown;
+}
+
+/** Methods of a contract, none if it declares none */
+export type ContractMethods<C extends PluginContractShape> = C extends {
+  methods: infer M extends object;
+}
+  ? M
+  : Record<never, never>;
+
+/** Hooks of a contract, none if it declares none */
+export type ContractHooks<C extends PluginContractShape> = C extends {
+  hooks: infer H extends object;
+}
+  ? H
+  : Record<never, never>;
+
+/** Initial data of a contract */
+export type ContractData<C extends PluginContractShape> = C extends {
+  data: infer D;
+}
+  ? D
+  : unknown;
+
+/** Shape of the shared state of a contract, its data if that is an object */
+export type ContractState<C extends PluginContractShape> =
+  ContractData<C> extends object ? ContractData<C> : Record<string, unknown>;
+
+/** Settings of a contract */
+export type ContractSettings<C extends PluginContractShape> = C extends {
+  settings: infer S;
+}
+  ? S
+  : unknown;
+
+/** Type of the payload a contract function takes */
+export type MethodPayload<F> = F extends (
+  payload: infer P,
+  ...args: never[]
+) => unknown
+  ? P
+  : never;
+
+/** Type of the value a contract function returns, not awaited */
+export type MethodResult<F> = F extends (...args: never[]) => infer R
+  ? R
+  : never;
+
+/**
+ * Proxy calling a contract function in the other window.
+ * The payload is optional if the function accepts undefined.
+ */
+export type RemoteMethodOf<F> = (
+  ...args: undefined extends MethodPayload<F>
+    ? [payload?: MethodPayload<F>, options?: CallOptions]
+    : [payload: MethodPayload<F>, options?: CallOptions]
+) => Promise<Awaited<MethodResult<F>>>;
+
+/** Proxies calling the functions of a contract map in the other window */
+export type RemoteMethods<M> = {
+  [K in keyof M]: RemoteMethodOf<M[K]>;
+};
+
+/** Implementations of the functions of a contract map, sync or async */
+export type MethodImplementations<M> = {
+  [K in keyof M]: (
+    payload: MethodPayload<M[K]>,
+    context: CallContext,
+  ) => MethodResult<M[K]> | Promise<Awaited<MethodResult<M[K]>>>;
+};
@@ -0,0 +1,108 @@
+import type { CallOptions } from "./message";
+import type { DefaultContract, PluginContractShape } from "./contract";
+import type { InitializedPlugin, PluginLifecycleEvents } from "./plugin";
+
+/**
+ * @module Types of the registry of the plugins a page hosts
+ */
+
+/**
+ * A plugin registered with a PluginHost
+ */
+export interface HostedPlugin<C extends PluginContractShape = DefaultContract> {
+  /** Identifies the plugin within its host */
+  readonly id: string;
+  /** URL the plugin was loaded from */
+  readonly src: string;
+  /** Element the plugin's iframe was appended to */
+  readonly container: HTMLElement;
+  /** The initialized plugin, with its methods, state and lifecycle events */
+  readonly plugin: InitializedPlugin<C>;
+  /**
+   * Removes the plugin the way it was created: like destroy() of inline and fullscreen
+   * plugins, or by terminating it and removing its iframe
+   */
+  destroy: () => Promise<void>;
+}
+
+/**
+ * What registers a plugin with a PluginHost, the id is generated if missing
+ */
+export interface PluginRegistration<
+  C extends PluginContractShape = DefaultContract,
+> extends Omit<HostedPlugin<C>, "id" | "destroy"> {
+  id?: string;
+  destroy: () => void | Promise<void>;
+}
+
+/**
+ * Allows plugins of a host to send messages to other plugins. Ids can be "*" for any plugin.
+ */
+export interface PeerRule {
+  /** Ids of the plugins allowed to send */
+  from: string | string[];
+  /** Ids of the plugins allowed to receive */
+  to: string | string[];
+  /** Topic patterns of the allowed messages, any topic if missing */
+  topics?: string[];
+}
+
+/**
+ * Options of a PluginManager
+ */
+export interface PluginManagerOptions {
+  /** Rules allowing messages between plugins, none are allowed without one */
+  peerRules?: PeerRule[];
+}
+
+/**
+ * Lifecycle events of every plugin of a host, with the id of the plugin that emitted them
+ */
+export type PluginHostEvents = {
+  [K in keyof PluginLifecycleEvents]: {
+    id: string;
+    payload: PluginLifecycleEvents[K];
+  };
+};
+
+/**
+ * Registry of the plugins a page hosts. Plugins are registered once they are
+ * initialized and unregistered once they are terminated.
+ */
+export interface PluginHost {
+  /**
+   * Registers an initialized plugin. Throws if its id is taken.
+   */
+  register<C extends PluginContractShape = DefaultContract>(
+    registration: PluginRegistration<C>,
+  ): HostedPlugin<C>;
+  /** The plugin with the id, undefined if none is registered */
+  get(id: string): HostedPlugin | undefined;
+  /** Every registered plugin, in the order they were registered */
+  list(): HostedPlugin[];
+  /**
+   * Calls a method of every plugin that has it, and resolves once every call settled
+   * with the results by plugin id
+   */
+  broadcast(
+    method: string,
+    payload?: unknown,
+    options?: CallOptions,
+  ): Promise<Map<string, PromiseSettledResult<unknown>>>;
+  /** Destroys every registered plugin */
+  destroyAll(): Promise<void>;
+  /** Puts the container of the plugin above the containers of the other plugins */
+  bringToFront(id: string): void;
+  /**
+   * Adds a rule allowing messages between plugins and returns a function removing it
+   */
+  allowPeers(rule: PeerRule): () => void;
+  /**
+   * Adds a handler of a lifecycle event of every plugin, registered now or later,
+   * and returns a function removing it
+   */
+  on<K extends keyof PluginHostEvents>(
+    event: K,
+    handler: (event: PluginHostEvents[K]) => void,
+  ): () => void;
+}
@@ -6,7 +6,16 @@
  * - result.ts: Result and error types
  * - message.ts: Message and channel types
  * - listener.ts: Event listener types
+ * - socket.ts: PostMessageSocket configuration types
+ * - transport.ts: Transport interface implemented by the message transports
+ * - codec.ts: Codecs converting message payloads
+ * - proxy.ts: Remote proxies of functions and objects
+ * - state.ts: State shared between the parent and the plugin
+ * - schema.ts: Runtime validation schemas of methods and hooks
+ * - protocol.ts: Protocol version and capabilities of the handshake
+ * - contract.ts: Typed plugin contracts shared by the parent and the plugin
  * - plugin.ts: Plugin configuration and lifecycle types
+ * - host.ts: Registry of the plugins a page hosts
  */
 
 // Result types
@@ -23,23 +32,127 @@ export {
 export type {
   EventName,
   Message,
+  MessageKind,
   MessageChannel,
+  CallOptions,
+  SendOptions,
+  TransferOptions,
+  StreamOptions,
+  StreamChunk,
+  SerializedError,
 } from "./message";
 
 // Listener types
 export type {
   ListenerOptions,
+  CallContext,
   CustomEventListener,
 } from "./listener";
 
+// Socket types
+export type {
+  SocketOptions,
+  OriginOptions,
+  AllowedOrigins,
+  Middleware,
+  MiddlewareDirection,
+  BatchOptions,
+} from "./socket";
+
+// Transport types
+export type {
+  Transport,
+  TransportHandler,
+  MessageEndpoint,
+} from "./transport";
+
+// Codec types
+export type {
+  Codec,
+  TypeHandler,
+} from "./codec";
+
+// Proxy types
+export type {
+  ProxyRef,
+  ProxyCall,
+  Remote,
+} from "./proxy";
+
+// State types
+export type {
+  SharedState,
+  StateChangeEvent,
+  StateConflict,
+  StateConflictPolicy,
+  StateEntry,
+  StatePatch,
+} from "./state";
+
+// Schema types
+export type {
+  Schema,
+  MethodSchema,
+  PluginSchemas,
+  ValidationIssue,
+} from "./schema";
+
+// Protocol types
+export type {
+  Capability,
+  ProtocolInfo,
+  NegotiatedProtocol,
+  ProtocolFeatures,
+} from "./protocol";
+
+// Contract types
+export type {
+  PluginContract,
+  PluginContractShape,
+  DefaultContract,
+  ContractMethods,
+  ContractHooks,
+  ContractData,
+  ContractSettings,
+  ContractState,
+  MethodPayload,
+  MethodResult,
+  RemoteMethodOf,
+  RemoteMethods,
+  MethodImplementations,
+} from "./contract";
+
 // Plugin types
 export type {
   Method,
+  RemoteMethod,
+  RemoteStream,
   Methods,
   PluginConfig,
+  HookUpdates,
   WindowConfig,
+  CommonPluginOptions,
   IframeOptions,
+  CommonPlugin,
   InitializedPlugin,
+  MethodCallStartedEvent,
+  MethodCallFinishedEvent,
+  CommonLifecycleEvents,
+  PluginLifecycleEvents,
+  FullscreenPluginLifecycleEvents,
+  ProvidedPluginLifecycleEvents,
+  LifecycleSubscriber,
+  TopicEvent,
+  TopicHandler,
+  TopicEmitter,
+  TopicSubscriber,
+  PeerMessage,
+  PeerHandler,
+  PeerRouter,
+  PluginPeers,
+  LifecycleListeners,
+  HeartbeatOptions,
+  PluginHeartbeatOptions,
   ProvidedPlugin,
   FullscreenPluginOptions,
   AnimationOptions,
@@ -47,3 +160,13 @@ export type {
   InlinePluginOptions,
   InlinePlugin,
 } from "./plugin";
+
+// Host types
+export type {
+  HostedPlugin,
+  PluginRegistration,
+  PluginHostEvents,
+  PluginHost,
+  PeerRule,
+  PluginManagerOptions,
+} from "./host";
@@ -12,12 +12,26 @@ export interface ListenerOptions {
   once: boolean;
 }
 
+/**
+ * Second argument of every message channel callback, describing the incoming message
+ */
+export interface CallContext {
+  /** Id of the incoming message */
+  id: string;
+  /**
+   * Aborted when the caller cancels its sendAndWait() (via AbortSignal or timeout)
+   * or when the receiving socket is terminated. Long running callbacks should
+   * stop their work when it fires.
+   */
+  signal: AbortSignal;
+}
+
 /**
  * Internal representation of a message channel listener with callback and options
  */
 export interface CustomEventListener<T, U> {
   /** Function to be called when a message is received */
-  callback: (payload: T) => U;
+  callback: (payload: T, context: CallContext) => U;
   /** Configuration options for the listener */
   options: ListenerOptions;
   /** Reference to the message channel for sending responses */
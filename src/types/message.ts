@@ -1,4 +1,5 @@
 import { ResultStrings, SuccessResult } from "./result";
+import type { ProxyRef } from "./proxy";
 
 /**
  * @module Message types for PostMessageSocket communication
@@ -9,6 +10,45 @@ import { ResultStrings, SuccessResult } from "./result";
  */
 export type EventName = string;
 
+/**
+ * Marks the role of a message on the wire.
+ * Messages without a kind are requests (or fire-and-forget messages).
+ * - `response`: answer to a sendAndWait() request with the same id
+ * - `cancel`: the sender of the request with the same id gave up waiting
+ * - `stream`: request that wants its answer as a stream of chunks
+ * - `chunk`: one item of the stream requested with the same id
+ * - `end`: the stream with the same id is finished, carries `error` if it failed
+ * - `ack`: the stream consumer lets the producer send `payload` more chunks
+ * - `release`: the proxy whose calls are sent on the channel is no longer used
+ * - `batch`: envelope whose payload is a list of messages sent together
+ */
+export type MessageKind =
+  | "response"
+  | "cancel"
+  | "stream"
+  | "chunk"
+  | "end"
+  | "ack"
+  | "release"
+  | "batch";
+
+/**
+ * Wire format of an error thrown by a remote callback.
+ * Carried by the `error` field of a response message.
+ */
+export interface SerializedError {
+  /** Name of the original error (e.g. "TypeError") */
+  name: string;
+  /** Message of the original error */
+  message: string;
+  /** Optional application specific error code (taken from `error.code`) */
+  code?: string | number;
+  /** Stack trace of the original error, as seen in the remote window */
+  stack?: string;
+  /** Optional structured-cloneable custom data (taken from `error.data`) */
+  data?: unknown;
+}
+
 /**
  * Internal message structure passed via postMessage
  */
@@ -21,14 +61,83 @@ export interface Message {
   payload: unknown;
   /** Whether the sender expects a response */
   waitForResponse: boolean;
+  /** The role of the message, omitted for requests */
+  kind?: MessageKind;
+  /** Set on responses and stream ends whose callback threw, the payload is null then */
+  error?: SerializedError;
+  /** Values of the payload sent with proxy(), they are null in the payload itself */
+  proxies?: ProxyRef[];
+}
+
+/**
+ * Options for messages that carry transferable objects
+ */
+export interface TransferOptions {
+  /**
+   * Objects (ArrayBuffer, MessagePort, ImageBitmap, OffscreenCanvas, ...) to transfer
+   * to the other window instead of cloning them. Adds to the transfer lists of
+   * values marked with transfer().
+   */
+  transfer?: Transferable[];
+}
+
+/**
+ * Options for a single send() call
+ */
+export interface SendOptions extends TransferOptions {
+  /** Reuse this message id instead of generating a new one */
+  msgId?: string;
 }
 
+/**
+ * Options for a single sendAndWait() call
+ */
+export interface CallOptions extends TransferOptions {
+  /**
+   * Milliseconds to wait for the answer before rejecting with a TimeoutError.
+   * Overrides the socket's default timeout, 0 disables the timeout for this call.
+   */
+  timeout?: number;
+  /**
+   * Aborting the signal rejects the call with the signal's reason and tells the
+   * other window to abort the signal its callback received.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a single stream() call
+ */
+export interface StreamOptions extends TransferOptions {
+  /**
+   * Aborting the signal ends the stream with the signal's reason and tells the
+   * other window to stop producing chunks.
+   */
+  signal?: AbortSignal;
+  /**
+   * How many chunks the producer may send ahead of consumption before it
+   * has to wait for an acknowledgement. Defaults to 16.
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * Type of the chunks a stream yields, given the return type of the remote callback
+ */
+export type StreamChunk<U> =
+  U extends AsyncIterable<infer C> ? C : U extends Iterator<infer C> ? C : U;
+
 /**
  * Typed bidirectional communication channel for sending messages between windows
  */
 export interface MessageChannel<T, U> {
   /** Send a message without waiting for answer, success result only means we sent the message */
-  send(payload: T, opts?: { msgId?: string }): ResultStrings.Success;
+  send(payload: T, opts?: SendOptions): ResultStrings.Success;
   /** Send a message and wait for a response */
-  sendAndWait(payload: T): Promise<SuccessResult<U>>;
+  sendAndWait(payload: T, opts?: CallOptions): Promise<SuccessResult<U>>;
+  /** Send a message and consume the chunks yielded by the remote (async) generator */
+  stream(
+    payload: T,
+    opts?: StreamOptions,
+  ): AsyncIterableIterator<StreamChunk<U>>;
 }
@@ -1,3 +1,30 @@
+import type {
+  CallOptions,
+  StreamChunk,
+  StreamOptions,
+  TransferOptions,
+} from "./message";
+import type { CallContext } from "./listener";
+import type { BatchOptions, OriginOptions } from "./socket";
+import type { Codec } from "./codec";
+import type { PluginSchemas } from "./schema";
+import type { ProtocolFeatures } from "./protocol";
+import type { SharedState, StateConflictPolicy } from "./state";
+import type { PluginHost } from "./host";
+import type {
+  ContractData,
+  ContractHooks,
+  ContractMethods,
+  ContractSettings,
+  ContractState,
+  DefaultContract,
+  MethodImplementations,
+  MethodPayload,
+  MethodResult,
+  PluginContractShape,
+  RemoteMethods,
+} from "./contract";
+
 /**
  * @module Plugin-related types for initialization and communication
  */
@@ -5,8 +32,33 @@
 /**
  * Type definition for plugin methods and parent callback functions.
  * Can be sync or async, can return a value or void.
+ * The context's signal aborts when the caller cancels the call.
+ */
+export type Method = (
+  payload: unknown,
+  context: CallContext,
+) => Promise<unknown> | unknown | void;
+
+/**
+ * Proxy function that calls a method or hook living in the other window.
+ * Always async, resolves with the remote return value.
+ */
+export type RemoteMethod = (
+  payload?: unknown,
+  options?: CallOptions,
+) => Promise<unknown>;
+
+/**
+ * Calls a method or hook in the other window and iterates over the chunks it yields.
+ * The remote implementation can be an (async) generator or return any (async) iterable.
+ * Typed by the method map of a contract, untyped by default. Throws if the other side
+ * does not support streams.
  */
-export type Method = (payload: unknown) => Promise<unknown> | unknown | void;
+export type RemoteStream<M = Methods> = <K extends keyof M & string>(
+  name: K,
+  payload?: MethodPayload<M[K]>,
+  options?: StreamOptions,
+) => AsyncIterableIterator<StreamChunk<MethodResult<M[K]>>>;
 
 /**
  * Map of method names to their implementations
@@ -18,87 +70,396 @@ export interface Methods {
 /**
  * Configuration for initializing a plugin from the parent side
  */
-export interface PluginConfig {
+export interface PluginConfig<C extends PluginContractShape = DefaultContract> {
   /** Initial data to pass to the plugin */
-  data: unknown;
+  data: ContractData<C>;
   /** Plugin settings and configuration */
-  settings: unknown;
+  settings: ContractSettings<C>;
   /** Map of hook names to callback functions that the parent provides to the plugin */
-  hooks: Record<string, Method>;
+  hooks: MethodImplementations<ContractHooks<C>>;
+}
+
+/**
+ * Hooks to add or replace by name, null removes a hook
+ */
+export type HookUpdates<C extends PluginContractShape = DefaultContract> = {
+  [K in keyof ContractHooks<C>]?:
+    | MethodImplementations<ContractHooks<C>>[K]
+    | null;
+};
+
+/**
+ * Options of the heartbeat detecting a hung plugin.
+ * Only plugins announcing the "heartbeat" capability are pinged.
+ */
+export interface HeartbeatOptions {
+  /** Milliseconds between heartbeats, also the time the plugin has to answer one */
+  interval: number;
+  /** Missed heartbeats in a row after which the plugin is unresponsive, defaults to 3 */
+  maxMissed?: number;
 }
 
 /**
- * Configuration for window communication setup
+ * Heartbeat options of iframe-based plugins
  */
-export interface WindowConfig {
+export interface PluginHeartbeatOptions extends HeartbeatOptions {
+  /** Optional action taken when the plugin is unresponsive, besides the unresponsive event */
+  onUnresponsive?: "destroy" | "reload";
+}
+
+/**
+ * Configuration for window communication setup.
+ * `allowedOrigins` and `targetOrigin` configure the origin checks of the handshake.
+ */
+export interface WindowConfig extends OriginOptions {
   /** The parent window that will communicate with the plugin */
   currentWindow: Window;
   /** The plugin's window (usually iframe.contentWindow) */
   targetWindow: Window;
   /** Optional timeout in milliseconds for plugin initialization */
   timeout?: number;
+  /** Optional default timeout in milliseconds for every method call */
+  callTimeout?: number;
+  /** Optional schemas validating the payloads and results of methods and hooks */
+  schemas?: PluginSchemas;
+  /** Optional oldest protocol version of the plugin to accept, defaults to any */
+  minProtocolVersion?: number;
+  /** Optional codec converting payloads, the plugin must use a matching one */
+  codec?: Codec;
+  /** Optional policy resolving conflicting writes of the shared state, defaults to "last-write-wins" */
+  stateConflict?: StateConflictPolicy;
+  /** Optional batching of the calls made in quick succession, if the plugin supports it */
+  batch?: boolean | BatchOptions;
   /** Optional container element to remove on timeout */
   container?: HTMLElement;
+  /** Optional heartbeat detecting a hung plugin */
+  heartbeat?: HeartbeatOptions;
+  /** Optional handlers of lifecycle events */
+  listeners?: LifecycleListeners<PluginLifecycleEvents>;
 }
 
 /**
- * Options for creating and initializing an iframe-based plugin
+ * Options shared by the plugins loaded in an iframe, see IframeOptions,
+ * InlinePluginOptions and FullscreenPluginOptions.
+ * `targetOrigin` defaults to the origin of `src`.
  */
-export interface IframeOptions {
-  /** DOM element where the iframe will be appended */
-  container: HTMLElement;
+export interface CommonPluginOptions<E = PluginLifecycleEvents>
+  extends OriginOptions {
   /** URL of the plugin to load in the iframe */
   src: string;
-  /** Optional callback invoked before appending iframe to DOM */
+  /** Optional host the plugin is registered with, defaults to defaultPluginManager */
+  host?: PluginHost;
+  /** Optional callback invoked before appending the iframe to the DOM */
   beforeInit?: (context: {
     container: HTMLElement;
     iframe: HTMLIFrameElement;
   }) => void;
   /** Optional timeout in milliseconds for plugin initialization */
   timeout?: number;
+  /** Optional default timeout in milliseconds for every method call */
+  callTimeout?: number;
+  /** Optional schemas validating the payloads and results of methods and hooks */
+  schemas?: PluginSchemas;
+  /** Optional oldest protocol version of the plugin to accept, defaults to any */
+  minProtocolVersion?: number;
+  /** Optional codec converting payloads, the plugin must use a matching one */
+  codec?: Codec;
+  /** Optional policy resolving conflicting writes of the shared state, defaults to "last-write-wins" */
+  stateConflict?: StateConflictPolicy;
+  /** Optional batching of the calls made in quick succession, if the plugin supports it */
+  batch?: boolean | BatchOptions;
+  /** Optional heartbeat detecting a hung plugin */
+  heartbeat?: PluginHeartbeatOptions;
+  /** Optional handlers of lifecycle events */
+  listeners?: LifecycleListeners<E>;
 }
 
 /**
- * The interface returned by initPlugin, representing an initialized plugin from parent side
+ * Options for creating and initializing an iframe-based plugin
+ */
+export interface IframeOptions extends CommonPluginOptions {
+  /** DOM element where the iframe will be appended */
+  container: HTMLElement;
+  /** Optional id of the plugin within its host, generated if missing */
+  id?: string;
+}
+
+/**
+ * Payload of the methodCallStarted event
+ */
+export interface MethodCallStartedEvent {
+  /** Identifies the call, the same id is reported when it finishes */
+  id: number;
+  /** Name of the called method */
+  method: string;
+  payload: unknown;
+}
+
+/**
+ * Payload of the methodCallFinished event
+ */
+export interface MethodCallFinishedEvent {
+  /** Id reported when the call started */
+  id: number;
+  /** Name of the called method */
+  method: string;
+  /** Milliseconds between the start of the call and its result */
+  duration: number;
+  /** Why the call failed, undefined if it succeeded */
+  error?: unknown;
+}
+
+/**
+ * Lifecycle events reported by both the parent and the plugin side, with their payloads
+ */
+export interface CommonLifecycleEvents {
+  /** The initialization or, on the parent side, a reconnection failed */
+  error: { error: unknown };
+  /** The initialization or a call ran out of time, method is undefined for the initialization */
+  timeout: { timeout: number; method?: string };
+  /** The communication was terminated, no events follow */
+  destroyed: undefined;
+  /** A method call was sent (parent side) or received (plugin side) */
+  methodCallStarted: MethodCallStartedEvent;
+  /** A method call settled */
+  methodCallFinished: MethodCallFinishedEvent;
+}
+
+/**
+ * Lifecycle events of a plugin on the parent side, with their payloads
+ */
+export interface PluginLifecycleEvents extends CommonLifecycleEvents {
+  /** The plugin completed the handshake */
+  ready: { protocolVersion: number; methods: string[] };
+  /** The plugin document unloaded (crash recovery, hot reload, navigation) and announced its successor */
+  disconnected: undefined;
+  /** The plugin document reloaded and completed the handshake again */
+  reconnected: { protocolVersion: number; methods: string[] };
+  /** The plugin missed the configured number of heartbeats in a row */
+  unresponsive: { missed: number };
+}
+
+/**
+ * Lifecycle events of a fullscreen plugin, with their payloads
+ */
+export interface FullscreenPluginLifecycleEvents extends PluginLifecycleEvents {
+  /** The show animation finished */
+  shown: undefined;
+  /** The hide animation finished */
+  hidden: undefined;
+}
+
+/**
+ * Lifecycle events of a plugin on the plugin side, with their payloads
+ */
+export interface ProvidedPluginLifecycleEvents extends CommonLifecycleEvents {
+  /** The parent's init message was accepted */
+  ready: { protocolVersion: number; hooks: string[] };
+  /** The parent updated the settings and the validator accepted them */
+  settingsChanged: { settings: unknown; previousSettings: unknown };
+  /** The parent added or removed hooks, `hooks` has the current names */
+  hooksChanged: { hooks: string[]; added: string[]; removed: string[] };
+}
+
+/**
+ * An event sent to the other side without waiting for an answer, carried by EVENT_CHANNEL
  */
-export interface InitializedPlugin {
+export interface TopicEvent {
+  /** Dot-separated name of the event, e.g. "cursor.moved" */
+  topic: string;
+  payload: unknown;
+}
+
+/**
+ * Handler of the events whose topic matches the pattern it subscribed to
+ */
+export type TopicHandler = (payload: unknown, topic: string) => void;
+
+/**
+ * Sends an event to the other side without waiting for an answer.
+ * Throws if the other side does not support events.
+ */
+export type TopicEmitter = (
+  topic: string,
+  payload?: unknown,
+  options?: TransferOptions,
+) => void;
+
+/**
+ * Adds a handler of the other side's events and returns a function removing it.
+ * In patterns, `*` stands for exactly one topic segment and `**` for any number of them.
+ */
+export type TopicSubscriber = (
+  pattern: string,
+  handler: TopicHandler,
+) => () => void;
+
+/**
+ * A message from one plugin to another, brokered by the host they are registered with
+ */
+export interface PeerMessage {
+  /** Id of the sending plugin, set by the host */
+  from: string;
+  /** Id of the receiving plugin */
+  to: string;
+  /** Dot-separated name of the message, e.g. "filter.changed" */
+  topic: string;
+  payload: unknown;
+}
+
+/**
+ * Handler of the messages of other plugins whose topic matches the pattern it subscribed to
+ */
+export type PeerHandler = (
+  payload: unknown,
+  topic: string,
+  from: string,
+) => void;
+
+/**
+ * Forwards a plugin's message to another plugin, throws if the message is not allowed
+ */
+export type PeerRouter = (
+  message: Omit<PeerMessage, "from">,
+) => void | Promise<void>;
+
+/**
+ * Messages between a plugin and the other plugins of its host
+ */
+export interface PluginPeers {
+  /**
+   * Sends a message to another plugin. Resolves once the host delivered it, rejects with
+   * a RemoteError if no routing rule of the host allows it or the plugin is unknown.
+   */
+  send: (pluginId: string, topic: string, payload?: unknown) => Promise<void>;
+  /**
+   * Adds a handler of other plugins' messages whose topic matches the pattern and
+   * returns a function removing it
+   */
+  on: (pattern: string, handler: PeerHandler) => () => void;
+}
+
+/**
+ * Adds a handler for a lifecycle event and returns a function removing it
+ */
+export type LifecycleSubscriber<E> = <K extends keyof E>(
+  event: K,
+  handler: (payload: E[K]) => void,
+) => () => void;
+
+/**
+ * Handlers of lifecycle events by event name, registered before the initialization
+ * starts so events like ready and timeout can be observed
+ */
+export type LifecycleListeners<E> = {
+  [K in keyof E]?: (payload: E[K]) => void;
+};
+
+/**
+ * Members shared by the plugins initialized on the parent side, see InitializedPlugin,
+ * InlinePlugin and FullscreenPlugin
+ */
+export interface CommonPlugin<
+  C extends PluginContractShape = DefaultContract,
+  E = PluginLifecycleEvents,
+> extends ProtocolFeatures {
   /** Map of method names to async method implementations that call into the plugin */
-  methods: Record<string, Method>;
-  /** Function to terminate the plugin communication and cleanup resources */
+  methods: RemoteMethods<ContractMethods<C>>;
+  /** Calls a plugin method and iterates over the chunks it streams back */
+  stream: RemoteStream<ContractMethods<C>>;
+  /** State shared with the plugin, starting with the data passed to it */
+  state: SharedState<ContractState<C>>;
+  /**
+   * Merges the update into the settings (object settings shallowly, others are replaced)
+   * and sends them to the plugin. Rejects if the plugin's validator rejects them or the
+   * plugin does not support settings updates, the settings stay unchanged then.
+   */
+  updateSettings: (settings: Partial<ContractSettings<C>>) => Promise<void>;
+  /**
+   * Adds, replaces and removes (null) hooks. Replaced hooks answer the next call, the
+   * promise resolves once the plugin's `hooks` object has the added and removed ones.
+   * Rejects without changing anything if hooks are added or removed and the plugin
+   * does not support it.
+   */
+  updateHooks: (hooks: HookUpdates<C>) => Promise<void>;
+  /** Sends an event to the plugin without waiting for an answer */
+  emit: TopicEmitter;
+  /** Adds a handler of the plugin's events whose topic matches the pattern */
+  subscribe: TopicSubscriber;
+  /** Adds a handler for a lifecycle event, see PluginLifecycleEvents and FullscreenPluginLifecycleEvents */
+  on: LifecycleSubscriber<E>;
+}
+
+/**
+ * The interface returned by initPlugin, representing an initialized plugin from parent side
+ */
+export interface InitializedPlugin<
+  C extends PluginContractShape = DefaultContract,
+> extends CommonPlugin<C> {
+  /**
+   * Sets what forwards the plugin's messages to other plugins, done by the host it is
+   * registered with. Without a router, the plugin's messages are rejected.
+   */
+  setPeerRouter: (router: PeerRouter | null) => void;
+  /**
+   * Sends a message of another plugin to the plugin. Throws if the plugin does not
+   * support messages between plugins.
+   */
+  deliverPeerMessage: (message: PeerMessage) => void;
+  /** Function to terminate the plugin communication, cleanup resources and reject pending calls */
   terminate: () => void;
 }
 
 /**
  * The interface returned by providePlugin, representing a plugin from the plugin side
  */
-export interface ProvidedPlugin {
-  /** Initial data received from the parent */
-  data: unknown;
-  /** Settings received from the parent */
-  settings: unknown;
-  /** Map of hook names to callback functions that call back to the parent */
-  hooks: Record<string, Method>;
-  /** Function to terminate the plugin communication and cleanup resources */
+export interface ProvidedPlugin<C extends PluginContractShape = DefaultContract>
+  extends ProtocolFeatures {
+  /**
+   * Data received from the parent. If it is an object and the parent shares state,
+   * this is the live object of `state`: it always has the current values, and
+   * assigning or deleting its keys writes the state.
+   */
+  data: ContractData<C>;
+  /** Current settings, updated when the parent calls updateSettings() */
+  readonly settings: ContractSettings<C>;
+  /**
+   * Map of hook names to callback functions that call back to the parent, updated
+   * in place when the parent adds or removes hooks (see the hooksChanged event)
+   */
+  hooks: RemoteMethods<ContractHooks<C>>;
+  /** Calls a parent hook and iterates over the chunks it streams back */
+  stream: RemoteStream<ContractHooks<C>>;
+  /** State shared with the parent, starting with the data it passed */
+  state: SharedState<ContractState<C>>;
+  /** Adds a handler for a lifecycle event, see ProvidedPluginLifecycleEvents */
+  on: LifecycleSubscriber<ProvidedPluginLifecycleEvents>;
+  /** Sends an event to the parent without waiting for an answer */
+  emit: TopicEmitter;
+  /** Adds a handler of the parent's events whose topic matches the pattern */
+  subscribe: TopicSubscriber;
+  /** Messages to and from the other plugins of the parent, as its routing rules allow */
+  peers: PluginPeers;
+  /** Adds a handler of settings updates and returns a function removing it */
+  onSettingsChange: (
+    listener: (
+      settings: ContractSettings<C>,
+      previousSettings: ContractSettings<C>,
+    ) => void,
+  ) => () => void;
+  /** Function to terminate the plugin communication, cleanup resources and reject pending calls */
   terminate: () => void;
 }
 
 /**
  * Options for fullscreen plugin initialization
  */
-export interface FullscreenPluginOptions {
-  /** Unique identifier for the plugin container */
+export interface FullscreenPluginOptions
+  extends CommonPluginOptions<FullscreenPluginLifecycleEvents> {
+  /** Unique identifier for the plugin container, and of the plugin within its host */
   id: string;
-  /** URL of the plugin to load */
-  src: string;
   /** Parent element where the plugin container will be appended (defaults to document.body) */
   parentElem?: HTMLElement;
-  /** Optional callback invoked before initializing the plugin iframe */
-  beforeInit?: (context: {
-    container: HTMLElement;
-    iframe: HTMLIFrameElement;
-  }) => void;
-  /** Optional timeout in milliseconds for plugin initialization */
-  timeout?: number;
 }
 
 /**
@@ -120,11 +481,11 @@ export interface AnimationOptions {
 /**
  * The interface returned by initFullscreenPlugin
  */
-export interface FullscreenPlugin {
+export interface FullscreenPlugin<
+  C extends PluginContractShape = DefaultContract,
+> extends CommonPlugin<C, FullscreenPluginLifecycleEvents> {
   readonly container: HTMLDivElement;
   readonly src: string;
-  /** Map of method names to async method implementations */
-  methods: Record<string, Method>;
   /** Show the splash screen if configured */
   showSplashScreen: () => Promise<void> | void;
   /** Hide the splash screen */
@@ -133,34 +494,26 @@ export interface FullscreenPlugin {
   show: (options?: AnimationOptions) => void;
   /** Hide the plugin with animation */
   hide: () => Promise<void> | void;
-  /** Hide and remove the plugin from DOM */
+  /** Hide and remove the plugin from DOM, rejecting pending method calls */
   destroy: () => Promise<void>;
 }
 
 /**
  * Options for inline plugin initialization
  */
-export interface InlinePluginOptions {
-  /** URL of the plugin to load */
-  src: string;
+export interface InlinePluginOptions extends CommonPluginOptions {
   /** Container element where the plugin iframe will be appended */
   container: HTMLElement;
-  /** Optional callback invoked before initializing the plugin iframe */
-  beforeInit?: (context: {
-    container: HTMLElement;
-    iframe: HTMLIFrameElement;
-  }) => void;
-  /** Optional timeout in milliseconds for plugin initialization */
-  timeout?: number;
+  /** Optional id of the plugin within its host, generated if missing */
+  id?: string;
 }
 
 /**
  * The interface returned by initInlinePlugin
  */
-export interface InlinePlugin {
+export interface InlinePlugin<C extends PluginContractShape = DefaultContract>
+  extends CommonPlugin<C> {
   readonly container: HTMLElement;
-  /** Map of method names to async method implementations */
-  methods: Record<string, Method>;
-  /** Remove all children from the container */
+  /** Remove all children from the container, rejecting pending method calls */
   destroy: () => void;
 }
@@ -0,0 +1,66 @@
+/**
+ * @module Types for the protocol version and capabilities exchanged in the handshake
+ */
+
+/**
+ * Optional feature of the protocol a side can support.
+ * Known capabilities are listed; later releases may announce others.
+ */
+export type Capability =
+  /** Moves traffic to a private MessagePort offered in the init message */
+  | "port"
+  /** Streams the chunks of generator methods and hooks */
+  | "stream"
+  /** Aborts the remote callback's signal when a call is cancelled */
+  | "cancel"
+  /** Answers the parent's heartbeats */
+  | "heartbeat"
+  /** Restores values sent with proxy() as remote proxies */
+  | "proxy"
+  /** Synchronizes the shared state */
+  | "state"
+  /** Accepts settings updates after the initialization */
+  | "settings"
+  /** Accepts hooks added or removed after the initialization */
+  | "hooks"
+  /** Sends and receives fire-and-forget events by topic */
+  | "events"
+  /** Unpacks messages sent together in one envelope */
+  | "batch"
+  /** Sends and receives messages of other plugins through the parent */
+  | "peers"
+  /** Learns why the parent rejected it instead of waiting for the init message */
+  | "reject"
+  | (string & {});
+
+/**
+ * What one side announces about its protocol in the handshake
+ */
+export interface ProtocolInfo {
+  /** Protocol version the side speaks */
+  version: number;
+  /** Oldest protocol version of the other side it works with */
+  minVersion: number;
+  /** Features the side supports */
+  capabilities: Capability[];
+}
+
+/**
+ * Outcome of the handshake: the version both sides speak and the features both support
+ */
+export interface NegotiatedProtocol {
+  /** The lower of the two protocol versions */
+  version: number;
+  /** Capabilities supported by both sides */
+  capabilities: Capability[];
+}
+
+/**
+ * Feature detection on an initialized plugin, for both the parent and the plugin side
+ */
+export interface ProtocolFeatures {
+  /** Protocol version negotiated with the other side, 0 for releases without versioning */
+  readonly protocolVersion: number;
+  /** Whether both sides support a capability */
+  supports: (capability: Capability) => boolean;
+}
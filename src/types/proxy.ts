@@ -0,0 +1,38 @@
+/**
+ * @module Types for remote proxies of functions and objects passed with proxy()
+ */
+
+/**
+ * Wire format of a value sent with proxy(), listed in the `proxies` field of a message.
+ * The value is replaced by null in the payload and restored as a remote proxy.
+ */
+export interface ProxyRef {
+  /** Keys leading from the payload to the proxied value, empty for the payload itself */
+  path: (string | number)[];
+  /** Name of the message channel calls of the proxy are sent on */
+  name: string;
+  /** Whether the proxy is called itself or has methods */
+  type: "function" | "object";
+}
+
+/**
+ * Payload of a call of a remote proxy
+ */
+export interface ProxyCall {
+  /** Name of the called method, omitted when a function is called */
+  method?: string;
+  /** Arguments of the call, they can contain proxies again */
+  args: unknown[];
+}
+
+/**
+ * What a value sent with proxy() looks like in the other window: functions become
+ * async and objects expose their methods only, as async functions.
+ */
+export type Remote<T> = T extends (...args: infer A) => infer R
+  ? (...args: A) => Promise<Awaited<R>>
+  : {
+      [K in keyof T as T[K] extends (...args: never[]) => unknown
+        ? K
+        : never]: Remote<T[K]>;
+    };
@@ -37,4 +37,24 @@ export enum ErrorStrings {
   WrongMessagePayload = "Wrong message payload format",
   NoMessageResponse = "No message response",
   NoMessageWaitForResponse = "No message wait for response",
+  RequestTimedOut = "Request timed out",
+  NoTargetOrigin = "Cannot determine the target origin, set targetOrigin or allowedOrigins",
+  ValidationFailed = "Validation failed",
+  IncompatibleProtocol = "Incompatible protocol version",
+  ProxyReleased = "Proxy is released",
+  SettingsUpdatesNotSupported = "The plugin does not support settings updates",
+  HookUpdatesNotSupported = "The plugin does not support adding or removing hooks",
+  PluginIdTaken = "A plugin is already registered with the id",
+  PluginReloaded = "The plugin document reloaded before answering",
+  NoPeerRouter = "The plugin is not registered with a host",
+  PeerMessageNotAllowed = "No routing rule allows the message",
+  NoPeer = "No plugin is registered with the id",
+  PeerMessagesNotSupported = "The plugin does not support messages between plugins",
+  HostPeersNotSupported = "The parent does not support messages between plugins",
+  EventsNotSupported = "The plugin does not support events",
+  HostEventsNotSupported = "The parent does not support events",
+  StreamsNotSupported = "The plugin does not support streams",
+  HostStreamsNotSupported = "The parent does not support streams",
+  ProxiesNotSupported = "The plugin does not support proxies",
+  HostProxiesNotSupported = "The parent does not support proxies",
 }
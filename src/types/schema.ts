@@ -0,0 +1,52 @@
+/**
+ * @module Types for validating method and hook payloads at runtime
+ */
+
+/**
+ * Anything that validates an unknown value and returns it typed, throwing when it is invalid:
+ * a Zod-style schema with a `parse` method, or a parse function.
+ * The returned value is used in place of the original, so transforms and defaults apply.
+ *
+ * @example
+ * ```typescript
+ * const zodSchema: Schema<Note> = z.object({ id: z.string(), text: z.string() });
+ * const valibotSchema: Schema<Note> = (value) => v.parse(NoteSchema, value);
+ * ```
+ */
+export type Schema<T = unknown> =
+  | { parse(value: unknown): T | Promise<T> }
+  | ((value: unknown) => T | Promise<T>);
+
+/**
+ * Schemas of one method or hook
+ */
+export interface MethodSchema {
+  /** Validates the payload before it is sent and before it reaches the implementation */
+  payload?: Schema;
+  /**
+   * Validates the return value before it is sent back and before the caller receives it.
+   * For streamed results, every chunk is validated.
+   */
+  result?: Schema;
+}
+
+/**
+ * Schemas of the methods and hooks of a plugin. Define them once and pass the same
+ * object to both sides, so each side rejects invalid calls before they reach its code.
+ */
+export interface PluginSchemas {
+  /** Schemas of the methods the plugin implements */
+  methods?: Record<string, MethodSchema>;
+  /** Schemas of the hooks the parent implements */
+  hooks?: Record<string, MethodSchema>;
+}
+
+/**
+ * One problem found by a schema, reduced to what can be sent to the other window
+ */
+export interface ValidationIssue {
+  /** Human readable description of the problem */
+  message: string;
+  /** Keys leading to the invalid value, empty for the value itself */
+  path: (string | number)[];
+}
@@ -0,0 +1,92 @@
+import type { Codec } from "./codec";
+import type { EventName, Message } from "./message";
+
+/**
+ * @module Configuration types for PostMessageSocket
+ */
+
+/**
+ * Origins messages are accepted from: exact origins ("https://app.example.com"),
+ * wildcard patterns ("https://*.vendor.com", "*" for any origin), a list of those,
+ * or a predicate
+ */
+export type AllowedOrigins = string | string[] | ((origin: string) => boolean);
+
+/**
+ * Options for the origin checks of a socket talking to another window
+ */
+export interface OriginOptions {
+  /**
+   * Origins messages of the target window are accepted from.
+   * Defaults to the target origin only.
+   */
+  allowedOrigins?: AllowedOrigins;
+  /**
+   * Origin messages are sent to. Defaults to the only origin of `allowedOrigins`,
+   * or to the origin of the target window if it can be read, or for a parent window to
+   * its origin as the browser tells it (ancestor origins or referrer) if it is allowed.
+   * Otherwise, if `allowedOrigins` is set, messages are held until the first message
+   * from an allowed origin arrives, and sent to that origin. They never go to any
+   * origin ("*").
+   */
+  targetOrigin?: string;
+}
+
+/**
+ * Which way a message passes the middleware: "inbound" messages arrived from the other
+ * side, "outbound" ones are about to be sent to it
+ */
+export type MiddlewareDirection = "inbound" | "outbound";
+
+/**
+ * A step of the middleware chain of a socket, see PostMessageSocket.use().
+ * Calling `next` passes the message, or a replacement of it, on to the next step.
+ * A message whose middleware does not call `next` is dropped; throwing drops it too
+ * and rejects the request it belongs to.
+ */
+export type Middleware = (
+  message: Message,
+  next: (message?: Message) => void,
+  context: { direction: MiddlewareDirection },
+) => void;
+
+/**
+ * Options of the batching mode of a socket, see PostMessageSocket.setBatching()
+ */
+export interface BatchOptions {
+  /**
+   * When the collected messages are sent: at the end of the current microtask
+   * ("microtask", default) or with the next animation frame ("frame")
+   */
+  flush?: "microtask" | "frame";
+  /**
+   * Channels whose sendAndWait() calls identical to one still waiting for its answer
+   * (equal JSON payload, no signal or transfer list) share that call's answer instead
+   * of sending another request. Only list methods and hooks without side effects, a
+   * shared call runs once. Every caller keeps its own timeout but gets the same answer
+   * object, copy it before changing it. None by default; internal channels are never
+   * deduplicated.
+   */
+  dedupe?: EventName[];
+}
+
+/**
+ * Options that can be passed to the PostMessageSocket constructor
+ */
+export interface SocketOptions extends OriginOptions {
+  /**
+   * Default milliseconds a sendAndWait() call waits for its answer before
+   * rejecting with a TimeoutError. Omit or set to 0 to wait indefinitely.
+   */
+  timeout?: number;
+  /**
+   * Converts payloads before they are sent and after they arrive, e.g. to keep
+   * class instances intact. Defaults to sending payloads as they are.
+   */
+  codec?: Codec;
+  /**
+   * Packs the messages sent within a microtask or frame into one envelope.
+   * The other side must run a release able to unpack it (protocol capability "batch").
+   */
+  batch?: boolean | BatchOptions;
+}
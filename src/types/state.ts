@@ -0,0 +1,83 @@
+/**
+ * @module Types for the state shared between the parent and the plugin
+ */
+
+/**
+ * One key of the shared state on the wire, carried by STATE_CHANNEL
+ */
+export interface StateEntry {
+  key: string;
+  /** The new value, omitted if the key was deleted */
+  value?: unknown;
+  /** Set if the key was deleted */
+  deleted?: boolean;
+  /** Number of writes the key had, including this one */
+  version: number;
+}
+
+/**
+ * Changes of the shared state sent to the other side
+ */
+export interface StatePatch {
+  entries: StateEntry[];
+}
+
+/**
+ * A write of the plugin that crossed a write of the parent to the same key
+ */
+export interface StateConflict {
+  key: string;
+  /** The parent's value, undefined if the parent deleted the key */
+  hostValue: unknown;
+  /** The value the plugin wrote, undefined if the plugin deleted the key */
+  pluginValue: unknown;
+}
+
+/**
+ * How the parent resolves conflicting writes:
+ * - `last-write-wins`: the write arriving last at the parent, i.e. the plugin's, is kept
+ * - `host-wins`: the parent's value is kept and the plugin's write is undone
+ * - a function returning the value both sides continue with
+ */
+export type StateConflictPolicy =
+  | "last-write-wins"
+  | "host-wins"
+  | ((conflict: StateConflict) => unknown);
+
+/**
+ * Payload of a change event of the shared state, one per changed key
+ */
+export interface StateChangeEvent<T extends object = Record<string, unknown>> {
+  key: keyof T & string;
+  /** The new value, undefined if the key was deleted */
+  value: unknown;
+  previousValue: unknown;
+  deleted: boolean;
+  /** Whether this side or the other side made the change */
+  source: "local" | "remote";
+}
+
+/**
+ * State shared between the parent and the plugin. Either side reads and writes keys,
+ * the changed keys are sent to the other side and reported to the subscribers of both.
+ * Values are compared structurally, so writing an equal value sends nothing.
+ */
+export interface SharedState<T extends object = Record<string, unknown>> {
+  /**
+   * Live object of the current values. Assigning or deleting one of its keys writes the
+   * state, changing a nested object in place does not; assign a new object instead.
+   */
+  readonly data: T;
+  /** Current value of a key */
+  get<K extends keyof T & string>(key: K): T[K] | undefined;
+  /** Writes a key */
+  set<K extends keyof T & string>(key: K, value: T[K]): void;
+  /** Writes several keys at once, only those whose value changed are sent */
+  update(changes: Partial<T>): void;
+  /** Deletes a key */
+  delete(key: keyof T & string): void;
+  /** Copy of the current values */
+  getAll(): T;
+  /** Adds a handler of changes made by either side and returns a function removing it */
+  subscribe(listener: (event: StateChangeEvent<T>) => void): () => void;
+}
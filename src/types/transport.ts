@@ -0,0 +1,40 @@
+import type { Message } from "./message";
+
+/**
+ * @module Transport types for PostMessageSocket
+ */
+
+/**
+ * Receives the raw data of every message arriving through a transport
+ */
+export type TransportHandler = (data: unknown) => void;
+
+/**
+ * The channel a PostMessageSocket sends and receives its messages through.
+ * Built-in adapters cover windows, workers, message ports, broadcast channels and
+ * in-memory pairs; a custom transport only has to implement these three operations.
+ */
+export interface Transport {
+  /** Sends a message to the other end, transferring the objects of `transfer` */
+  send(message: Message, transfer: Transferable[]): void;
+  /** Calls the handler for every message from the other end, returns the unsubscribe function */
+  subscribe(handler: TransportHandler): () => void;
+  /** Stops receiving and releases the underlying resources */
+  close(): void;
+}
+
+/**
+ * Anything with the postMessage API of workers and message ports,
+ * e.g. a Worker, `self` inside a worker or a MessagePort
+ */
+export interface MessageEndpoint {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+}